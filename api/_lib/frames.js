@@ -0,0 +1,134 @@
+/**
+ * Frame-sync helpers for compressed audio streams (MP3, AAC-ADTS, Ogg).
+ * Used to start relayed listeners on a frame boundary instead of mid-frame.
+ */
+
+const MP3_BITRATES = {
+    // [version][layer] -> kbps by index; version 3 = MPEG1, 2 = MPEG2, 0 = MPEG2.5
+    mpeg1: {
+        1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+        2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+        3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    },
+    mpeg2: {
+        1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+        2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+        3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    },
+};
+
+const MP3_SAMPLE_RATES = {
+    3: [44100, 48000, 32000],
+    2: [22050, 24000, 16000],
+    0: [11025, 12000, 8000],
+};
+
+/**
+ * Parse an MPEG audio frame header at `i`.
+ * @returns {{ length: number, bitrate: number, sampleRate: number } | null}
+ */
+export function parseMp3Header(bytes, i) {
+    if (i + 4 > bytes.length) return null;
+    if (bytes[i] !== 0xff || (bytes[i + 1] & 0xe0) !== 0xe0) return null;
+
+    const version = (bytes[i + 1] >> 3) & 0x03; // 1 = reserved
+    const layerBits = (bytes[i + 1] >> 1) & 0x03; // 0 = reserved
+    const bitrateIndex = bytes[i + 2] >> 4;
+    const sampleRateIndex = (bytes[i + 2] >> 2) & 0x03;
+    const padding = (bytes[i + 2] >> 1) & 0x01;
+
+    if (version === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+        return null;
+    }
+
+    const layer = 4 - layerBits; // 1, 2 or 3
+    const table = version === 3 ? MP3_BITRATES.mpeg1 : MP3_BITRATES.mpeg2;
+    const bitrate = table[layer][bitrateIndex] * 1000;
+    const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+
+    let length;
+    if (layer === 1) {
+        length = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+    } else if (layer === 3 && version !== 3) {
+        length = Math.floor((72 * bitrate) / sampleRate) + padding;
+    } else {
+        length = Math.floor((144 * bitrate) / sampleRate) + padding;
+    }
+
+    return { length, bitrate, sampleRate };
+}
+
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+/**
+ * Parse an AAC ADTS header at `i`.
+ * @returns {{ length: number, sampleRate: number, channels: number } | null}
+ */
+export function parseAdtsHeader(bytes, i) {
+    if (i + 7 > bytes.length) return null;
+    if (bytes[i] !== 0xff || (bytes[i + 1] & 0xf6) !== 0xf0) return null;
+
+    const sampleRateIndex = (bytes[i + 2] >> 2) & 0x0f;
+    if (sampleRateIndex >= ADTS_SAMPLE_RATES.length) return null;
+
+    const channels = ((bytes[i + 2] & 0x01) << 2) | (bytes[i + 3] >> 6);
+    const length = ((bytes[i + 3] & 0x03) << 11) | (bytes[i + 4] << 3) | (bytes[i + 5] >> 5);
+    if (length < 7) return null;
+
+    return { length, sampleRate: ADTS_SAMPLE_RATES[sampleRateIndex], channels };
+}
+
+/**
+ * Parse an Ogg page header at `i`.
+ * @returns {{ length: number, granuleIsZero: boolean } | null}
+ */
+export function parseOggPage(bytes, i) {
+    if (i + 27 > bytes.length) return null;
+    // "OggS"
+    if (bytes[i] !== 0x4f || bytes[i + 1] !== 0x67 || bytes[i + 2] !== 0x67 || bytes[i + 3] !== 0x53) return null;
+
+    const segments = bytes[i + 26];
+    if (i + 27 + segments > bytes.length) return null;
+
+    let bodyLength = 0;
+    for (let s = 0; s < segments; s++) bodyLength += bytes[i + 27 + s];
+
+    let granuleIsZero = true;
+    for (let g = 6; g < 14; g++) {
+        if (bytes[i + g] !== 0) granuleIsZero = false;
+    }
+
+    return { length: 27 + segments + bodyLength, granuleIsZero };
+}
+
+const FRAME_PARSERS = [parseMp3Header, parseAdtsHeader, parseOggPage];
+
+/**
+ * Offset of the first frame/page start in `bytes` that is confirmed by a second
+ * valid header right after it (or by the end of the buffer). -1 if none found.
+ */
+export function findFrameBoundary(bytes) {
+    for (let i = 0; i < bytes.length - 4; i++) {
+        for (const parse of FRAME_PARSERS) {
+            const frame = parse(bytes, i);
+            if (!frame) continue;
+            const next = i + frame.length;
+            if (next === bytes.length || (next < bytes.length && parse(bytes, next))) return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Leading Ogg pages with granule position 0 (Vorbis/Opus identification + comment headers).
+ * A decoder joining an Ogg stream mid-way needs these before any audio pages.
+ */
+export function extractOggHeaderPages(bytes) {
+    let offset = 0;
+    while (offset < bytes.length) {
+        const page = parseOggPage(bytes, offset);
+        if (!page || !page.granuleIsZero || offset + page.length > bytes.length) break;
+        offset += page.length;
+    }
+    return bytes.subarray(0, offset);
+}
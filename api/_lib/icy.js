@@ -0,0 +1,114 @@
+/**
+ * ICY (Shoutcast/Icecast) in-band metadata demuxer.
+ * Shared by the Vercel functions and the standalone proxy-server.ts.
+ *
+ * When a client sends `Icy-MetaData: 1`, the server interleaves a metadata
+ * block after every `icy-metaint` bytes of audio:
+ *   [metaint audio bytes][1 length byte (x16)][length * 16 metadata bytes]...
+ * The demuxer strips those blocks so the remaining bytes are pure audio.
+ */
+
+export const ICY_REQUEST_HEADERS = {
+    // Mimic a browser to bypass Shoutcast/Internet-Radio detection pages
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    'Accept': 'audio/mpeg, audio/*;q=0.9, */*;q=0.8',
+    'Referer': 'https://www.internet-radio.com/',
+    'Icy-MetaData': '1'
+};
+
+const decoder = new TextDecoder('utf-8');
+
+/**
+ * Parse a raw metadata block such as "StreamTitle='Artist - Title';StreamUrl='';"
+ * Returns the StreamTitle value, or null if the block has none.
+ */
+export function parseStreamTitle(block) {
+    const text = decoder.decode(block).replace(/\0+$/, '');
+    const match = text.match(/StreamTitle='(.*?)';/s);
+    if (!match) return null;
+    return match[1].trim();
+}
+
+export class IcyDemuxer {
+    /**
+     * @param {number} metaInt Value of the upstream `icy-metaint` header
+     * @param {(title: string) => void} [onTitle] Called whenever StreamTitle changes
+     */
+    constructor(metaInt, onTitle) {
+        this.metaInt = metaInt;
+        this.onTitle = onTitle;
+        this.audioRemaining = metaInt;
+        this.metaRemaining = 0;
+        this.metaChunks = [];
+        this.lastTitle = null;
+    }
+
+    /**
+     * Feed a chunk of upstream bytes; returns only the audio bytes.
+     * @param {Uint8Array} chunk
+     * @returns {Uint8Array}
+     */
+    push(chunk) {
+        const audio = [];
+        let offset = 0;
+
+        while (offset < chunk.length) {
+            if (this.audioRemaining > 0) {
+                // Audio section
+                const take = Math.min(this.audioRemaining, chunk.length - offset);
+                audio.push(chunk.subarray(offset, offset + take));
+                this.audioRemaining -= take;
+                offset += take;
+            } else if (this.metaRemaining === 0 && this.metaChunks.length === 0) {
+                // Length byte (0 means "no metadata this interval")
+                this.metaRemaining = chunk[offset] * 16;
+                offset += 1;
+                if (this.metaRemaining === 0) this.audioRemaining = this.metaInt;
+            } else {
+                // Metadata section, possibly split across chunks
+                const take = Math.min(this.metaRemaining, chunk.length - offset);
+                this.metaChunks.push(chunk.subarray(offset, offset + take));
+                this.metaRemaining -= take;
+                offset += take;
+
+                if (this.metaRemaining === 0) {
+                    this.flushMetadata();
+                    this.audioRemaining = this.metaInt;
+                }
+            }
+        }
+
+        return concat(audio);
+    }
+
+    flushMetadata() {
+        const block = concat(this.metaChunks);
+        this.metaChunks = [];
+
+        const title = parseStreamTitle(block);
+        if (title !== null && title !== this.lastTitle) {
+            this.lastTitle = title;
+            this.onTitle?.(title);
+        }
+    }
+}
+
+/**
+ * Read the `icy-metaint` interval from a header value, or 0 if absent/invalid.
+ */
+export function parseMetaInt(value) {
+    const metaInt = parseInt(Array.isArray(value) ? value[0] : value || '', 10);
+    return Number.isFinite(metaInt) && metaInt > 0 ? metaInt : 0;
+}
+
+function concat(parts) {
+    if (parts.length === 1) return parts[0];
+    const total = parts.reduce((sum, p) => sum + p.length, 0);
+    const out = new Uint8Array(total);
+    let pos = 0;
+    for (const part of parts) {
+        out.set(part, pos);
+        pos += part.length;
+    }
+    return out;
+}
@@ -0,0 +1,188 @@
+/**
+ * Stream probing: connect, read the headers and the first few KB, and report
+ * whether the URL is actually a playable audio stream.
+ * Shared by api/probe.ts and the standalone proxy-server.ts.
+ */
+
+import { ICY_REQUEST_HEADERS, IcyDemuxer, parseMetaInt } from './icy.js';
+import { parseAdtsHeader, parseMp3Header, parseOggPage } from './frames.js';
+import { ProxyError, guardedFetch } from './urlGuard.js';
+
+export const PROBE_MAX_BYTES = 16 * 1024;
+export const PROBE_TIMEOUT_MS = 8000;
+
+const HLS_CONTENT_TYPES = ['application/vnd.apple.mpegurl', 'application/x-mpegurl', 'audio/mpegurl', 'audio/x-mpegurl'];
+const PLAYLIST_CONTENT_TYPES = ['audio/x-scpls', 'application/pls+xml', 'video/x-ms-asf', 'audio/x-ms-wax', 'application/xspf+xml'];
+
+const ascii = (bytes, start, length) => String.fromCharCode(...bytes.subarray(start, start + length));
+
+/**
+ * Look for `count` back-to-back frames starting somewhere in the first bytes.
+ * A single 0xFFF sync word shows up in random data far too often to trust on its own.
+ */
+function findFrameRun(bytes, parse, count = 3) {
+    for (let i = 0; i < Math.min(bytes.length, 4096); i++) {
+        const first = parse(bytes, i);
+        if (!first) continue;
+
+        let offset = i + first.length;
+        let found = 1;
+        while (found < count) {
+            const next = parse(bytes, offset);
+            if (!next) break;
+            offset += next.length;
+            found++;
+        }
+        // Accept a shorter run if the buffer ran out rather than the sync
+        if (found >= count || offset >= bytes.length) return { offset: i, frame: first };
+    }
+    return null;
+}
+
+/**
+ * Identify the codec from the first bytes of a stream.
+ * @param {Uint8Array} bytes Audio bytes (ICY metadata already stripped)
+ * @param {string} contentType Upstream content-type, used only as a tiebreaker for playlists
+ * @returns {{ codec: string | null, bitrate?: number, sampleRate?: number, channels?: number }}
+ */
+export function sniffCodec(bytes, contentType = '') {
+    const text = ascii(bytes, 0, Math.min(bytes.length, 1024)).trimStart();
+    const lower = text.toLowerCase();
+    if (text.startsWith('#EXTM3U') || HLS_CONTENT_TYPES.some(type => contentType.includes(type))) {
+        // HLS playlists carry #EXT-X- tags; a plain .m3u only lists stream URLs
+        return { codec: text.includes('#EXT-X-') ? 'hls' : 'playlist' };
+    }
+    // Playlist files (.pls, .asx, .xspf, bare URL lists): the player resolves these to their entries
+    if (
+        lower.startsWith('[playlist]') ||
+        lower.includes('<asx') ||
+        (lower.includes('<playlist') && lower.includes('xspf')) ||
+        /^https?:\/\/\S+\s*(\n|$)/.test(text) ||
+        PLAYLIST_CONTENT_TYPES.some(type => contentType.includes(type))
+    ) {
+        return { codec: 'playlist' };
+    }
+
+    // Ogg: the first page body names the codec
+    for (let i = 0; i < Math.min(bytes.length, 4096); i++) {
+        const page = parseOggPage(bytes, i);
+        if (!page) continue;
+        const body = i + 27 + bytes[i + 26];
+        if (ascii(bytes, body, 8) === 'OpusHead') {
+            return { codec: 'opus', channels: bytes[body + 9], sampleRate: 48000 };
+        }
+        if (ascii(bytes, body + 1, 6) === 'vorbis') {
+            const view = new DataView(bytes.buffer, bytes.byteOffset + body, Math.min(30, bytes.length - body));
+            return view.byteLength >= 24
+                ? { codec: 'vorbis', channels: view.getUint8(11), sampleRate: view.getUint32(12, true), bitrate: view.getInt32(20, true) || undefined }
+                : { codec: 'vorbis' };
+        }
+        if (ascii(bytes, body + 1, 4) === 'FLAC') return { codec: 'flac' };
+        // Joined mid-stream without header pages; still Ogg
+        return { codec: 'ogg' };
+    }
+
+    const adts = findFrameRun(bytes, parseAdtsHeader);
+    if (adts) return { codec: 'aac', sampleRate: adts.frame.sampleRate, channels: adts.frame.channels };
+
+    const mp3 = findFrameRun(bytes, parseMp3Header);
+    if (mp3) return { codec: 'mp3', bitrate: mp3.frame.bitrate, sampleRate: mp3.frame.sampleRate };
+
+    return { codec: null };
+}
+
+/**
+ * Connect to a stream and describe it. Throws ProxyError for guard failures
+ * and timeouts; non-2xx upstream responses resolve with `playable: false`.
+ * @param {string} url
+ */
+export async function probeStream(url) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+    const startedAt = Date.now();
+
+    try {
+        let response;
+        try {
+            response = await guardedFetch(url, {
+                headers: ICY_REQUEST_HEADERS,
+                signal: controller.signal
+            });
+        } catch (err) {
+            if (controller.signal.aborted) {
+                throw new ProxyError('UPSTREAM_TIMEOUT', 504, `Stream did not respond within ${PROBE_TIMEOUT_MS / 1000}s`);
+            }
+            throw err;
+        }
+
+        const headersMs = Date.now() - startedAt;
+        const contentType = response.headers.get('content-type') || '';
+        const icyBitrate = parseInt(response.headers.get('icy-br') || '', 10);
+
+        const result = {
+            url,
+            resolvedUrl: response.url || url,
+            status: response.status,
+            contentType: contentType || null,
+            icy: {
+                name: response.headers.get('icy-name'),
+                genre: response.headers.get('icy-genre'),
+                bitrate: Number.isFinite(icyBitrate) ? icyBitrate : null,
+                url: response.headers.get('icy-url')
+            },
+            codec: null,
+            bitrate: Number.isFinite(icyBitrate) ? icyBitrate : null,
+            sampleRate: null,
+            channels: null,
+            headersMs,
+            ttfbMs: null,
+            playable: false
+        };
+
+        if (!response.ok || !response.body) {
+            await response.body?.cancel();
+            return result;
+        }
+
+        const metaInt = parseMetaInt(response.headers.get('icy-metaint'));
+        const demuxer = metaInt ? new IcyDemuxer(metaInt) : null;
+        const chunks = [];
+        let received = 0;
+
+        const reader = response.body.getReader();
+        try {
+            while (received < PROBE_MAX_BYTES) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                if (result.ttfbMs === null) result.ttfbMs = Date.now() - startedAt;
+                const audio = demuxer ? demuxer.push(value) : value;
+                chunks.push(audio);
+                received += audio.length;
+            }
+        } catch (err) {
+            // A stalled body still tells us something; sniff whatever arrived
+            if (!controller.signal.aborted) throw err;
+        } finally {
+            controller.abort();
+        }
+
+        const bytes = new Uint8Array(received);
+        let offset = 0;
+        for (const chunk of chunks) {
+            bytes.set(chunk, offset);
+            offset += chunk.length;
+        }
+
+        const sniffed = sniffCodec(bytes, contentType);
+        result.codec = sniffed.codec;
+        if (!result.bitrate && sniffed.bitrate) result.bitrate = Math.round(sniffed.bitrate / 1000);
+        result.sampleRate = sniffed.sampleRate || null;
+        result.channels = sniffed.channels || null;
+        // A playlist counts: the player resolves it (the client probes the entry it would pick)
+        result.playable = sniffed.codec !== null;
+
+        return result;
+    } finally {
+        clearTimeout(timeout);
+    }
+}
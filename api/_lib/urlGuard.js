@@ -0,0 +1,297 @@
+/**
+ * SSRF and abuse protection for the stream proxy.
+ * Shared by the Vercel functions and the standalone proxy-server.ts.
+ *
+ * - Only http/https targets
+ * - Hostnames are resolved and rejected if ANY address is private, loopback,
+ *   link-local (incl. cloud metadata 169.254.169.254), multicast or reserved
+ * - Every redirect hop is re-validated, and connections go to the address that was checked
+ * - Per-client concurrent stream limit and a max response duration
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { Readable } from 'stream';
+
+export const MAX_REDIRECTS = 5;
+// One player can hold a stream, its metadata SSE, a crossfade/handover stream, an error
+// re-request and a couple of prefetch probes at once
+export const MAX_STREAMS_PER_IP = parseInt(process.env.PROXY_MAX_STREAMS_PER_IP || '10', 10);
+// Peers whose X-Forwarded-For is believed (comma-separated); by default only a proxy on this machine, e.g. Vite's
+const TRUSTED_PROXIES = (process.env.PROXY_TRUSTED_PROXIES || '127.0.0.1,::1,::ffff:127.0.0.1')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+// Vercel's edge overwrites X-Forwarded-For with the real client address
+const BEHIND_PLATFORM_PROXY = !!process.env.VERCEL;
+// Long listening sessions are expected; this only stops connections held open forever
+export const MAX_RESPONSE_DURATION_MS = parseInt(process.env.PROXY_MAX_DURATION_MS || String(4 * 60 * 60 * 1000), 10);
+
+export class ProxyError extends Error {
+    /**
+     * @param {string} code Machine-readable code the player maps to a message
+     * @param {number} status HTTP status to respond with
+     * @param {string} message Human-readable description
+     */
+    constructor(code, status, message) {
+        super(message);
+        this.name = 'ProxyError';
+        this.code = code;
+        this.status = status;
+    }
+
+    toJSON() {
+        return { error: this.message, code: this.code };
+    }
+}
+
+// [network, prefix length] pairs
+const BLOCKED_IPV4_RANGES = [
+    ['0.0.0.0', 8],        // "This" network
+    ['10.0.0.0', 8],       // RFC1918
+    ['100.64.0.0', 10],    // Carrier-grade NAT
+    ['127.0.0.0', 8],      // Loopback
+    ['169.254.0.0', 16],   // Link-local / cloud metadata
+    ['172.16.0.0', 12],    // RFC1918
+    ['192.0.0.0', 24],     // IETF protocol assignments
+    ['192.0.2.0', 24],     // TEST-NET-1
+    ['192.168.0.0', 16],   // RFC1918
+    ['198.18.0.0', 15],    // Benchmarking
+    ['198.51.100.0', 24],  // TEST-NET-2
+    ['203.0.113.0', 24],   // TEST-NET-3
+    ['224.0.0.0', 4],      // Multicast
+    ['240.0.0.0', 4],      // Reserved + broadcast
+];
+
+const ipv4ToInt = (ip) => ip.split('.').reduce((acc, octet) => (acc << 8) + parseInt(octet, 10), 0) >>> 0;
+
+const isBlockedIpv4 = (ip) => {
+    const value = ipv4ToInt(ip);
+    return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+        const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+        return (value & mask) === (ipv4ToInt(network) & mask);
+    });
+};
+
+// Expand an IPv6 address (incl. "::" and a trailing dotted IPv4 part) to 8 hextets
+const expandIpv6 = (ip) => {
+    let address = ip;
+    const dotted = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+    if (dotted) {
+        const v4 = ipv4ToInt(dotted[1]);
+        address = address.slice(0, -dotted[1].length) + `${(v4 >>> 16).toString(16)}:${(v4 & 0xffff).toString(16)}`;
+    }
+    const [head, tail] = address.split('::');
+    const headParts = head ? head.split(':') : [];
+    const tailParts = tail !== undefined && tail ? tail.split(':') : [];
+    const fill = tail !== undefined ? 8 - headParts.length - tailParts.length : 0;
+    return [...headParts, ...Array(fill).fill('0'), ...tailParts].map(h => parseInt(h, 16) || 0);
+};
+
+const isBlockedIpv6 = (ip) => {
+    const hextets = expandIpv6(ip.toLowerCase().split('%')[0]);
+    const [first] = hextets;
+    const embeddedIpv4 = () => `${hextets[6] >> 8}.${hextets[6] & 0xff}.${hextets[7] >> 8}.${hextets[7] & 0xff}`;
+
+    // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) embed an IPv4 address: check that instead
+    const isMapped = hextets.slice(0, 5).every(h => h === 0) && hextets[5] === 0xffff;
+    const isNat64 = first === 0x64 && hextets[1] === 0xff9b && hextets.slice(2, 6).every(h => h === 0);
+    if (isMapped || isNat64) return isBlockedIpv4(embeddedIpv4());
+
+    // :: (unspecified) and ::1 (loopback)
+    if (hextets.slice(0, 7).every(h => h === 0) && hextets[7] <= 1) return true;
+
+    return (
+        (first & 0xfe00) === 0xfc00 || // fc00::/7 unique local
+        (first & 0xffc0) === 0xfe80 || // fe80::/10 link-local
+        (first & 0xff00) === 0xff00 || // ff00::/8 multicast
+        (first === 0x2001 && hextets[1] === 0x0db8) // Documentation
+    );
+};
+
+export const isBlockedAddress = (ip) => {
+    const family = net.isIP(ip);
+    if (family === 4) return isBlockedIpv4(ip);
+    if (family === 6) return isBlockedIpv6(ip);
+    return true;
+};
+
+/**
+ * Parse and check a target URL's scheme and host, resolving DNS.
+ * Throws ProxyError; resolves with the parsed URL when safe to fetch.
+ * @param {string} rawUrl
+ * @returns {Promise<URL>}
+ */
+export async function validateTargetUrl(rawUrl) {
+    let target;
+    try {
+        target = new URL(rawUrl);
+    } catch {
+        throw new ProxyError('INVALID_URL', 400, 'Stream URL is not a valid URL');
+    }
+
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+        throw new ProxyError('UNSUPPORTED_PROTOCOL', 400, `Only http and https streams are allowed (got ${target.protocol})`);
+    }
+
+    if (target.username || target.password) {
+        throw new ProxyError('INVALID_URL', 400, 'Credentials in stream URLs are not allowed');
+    }
+
+    const hostname = target.hostname.replace(/^\[|\]$/g, '');
+
+    if (net.isIP(hostname)) {
+        if (isBlockedAddress(hostname)) {
+            throw new ProxyError('BLOCKED_HOST', 403, 'Stream host is not publicly routable');
+        }
+        return target;
+    }
+
+    let addresses;
+    try {
+        addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+    } catch {
+        throw new ProxyError('DNS_FAILED', 502, `Could not resolve stream host ${hostname}`);
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+        throw new ProxyError('BLOCKED_HOST', 403, 'Stream host is not publicly routable');
+    }
+
+    return target;
+}
+
+/**
+ * Drop-in `lookup` for http.get/https.get that refuses private addresses at
+ * connect time, closing the DNS-rebinding gap between validation and connect.
+ */
+export function guardedLookup(hostname, options, callback) {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return callback(err);
+        const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+        if (blocked) {
+            return callback(new ProxyError('BLOCKED_HOST', 403, 'Stream host is not publicly routable'));
+        }
+        if (options && options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+}
+
+/**
+ * One GET through http/https with guardedLookup, so the connection goes to an address
+ * that passed the check rather than whatever a second DNS lookup returns.
+ * Resolves with a web Response, like fetch().
+ */
+function pinnedGet(url, init) {
+    return new Promise((resolve, reject) => {
+        const client = url.startsWith('https:') ? https : http;
+        const req = client.get(url, { headers: init.headers, signal: init.signal, lookup: guardedLookup }, (incoming) => {
+            try {
+                const headers = new Headers();
+                for (const [name, value] of Object.entries(incoming.headers)) {
+                    if (value === undefined) continue;
+                    (Array.isArray(value) ? value : [value]).forEach(item => headers.append(name, item));
+                }
+                const status = incoming.statusCode || 502;
+                // These statuses can't carry a body in a Response
+                const bodiless = status === 204 || status === 205 || status === 304;
+                if (bodiless) incoming.resume();
+                const response = new Response(bodiless ? null : Readable.toWeb(incoming), {
+                    status,
+                    statusText: incoming.statusMessage,
+                    headers
+                });
+                Object.defineProperty(response, 'url', { value: url });
+                resolve(response);
+            } catch (err) {
+                incoming.destroy();
+                reject(err);
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+/**
+ * fetch() that follows redirects manually so every hop is validated,
+ * and pins each connection to the validated addresses.
+ * @param {string} url
+ * @param {{ headers?: Record<string, string>, signal?: AbortSignal }} init
+ * @returns {Promise<Response>}
+ */
+export async function guardedFetch(url, init = {}) {
+    let current = url;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        await validateTargetUrl(current);
+        const response = await pinnedGet(current, init);
+
+        const location = response.headers.get('location');
+        if (response.status >= 300 && response.status < 400 && location) {
+            await response.body?.cancel();
+            current = new URL(location, current).toString();
+            continue;
+        }
+
+        return response;
+    }
+
+    throw new ProxyError('TOO_MANY_REDIRECTS', 508, 'Stream redirected too many times');
+}
+
+// --- Per-client concurrency ---
+// Counted per process: on serverless hosts each instance keeps its own count, so there
+// it only limits what one instance serves (the platform's own rate limits cover the rest)
+
+const activeStreams = new Map();
+
+/**
+ * The client's address. X-Forwarded-For is client-controlled, so it's only read when the
+ * request came through a proxy we trust, and then only the hop that proxy added.
+ */
+export function getClientIp(req) {
+    const peer = req.socket?.remoteAddress || 'unknown';
+    if (!BEHIND_PLATFORM_PROXY && !TRUSTED_PROXIES.includes(peer)) return peer;
+
+    const forwarded = req.headers['x-forwarded-for'];
+    const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded || '')
+        .split(',')
+        .map(hop => hop.trim())
+        .filter(Boolean);
+    // Walk back from the nearest hop; everything left of the first untrusted one could be forged
+    for (let i = hops.length - 1; i >= 0; i--) {
+        if (!TRUSTED_PROXIES.includes(hops[i])) return hops[i];
+    }
+    return hops[0] || peer;
+}
+
+/**
+ * Reserve a stream slot for a client. Returns a release function (idempotent).
+ * Throws ProxyError when the client already has too many open streams.
+ */
+export function acquireStreamSlot(ip) {
+    const count = activeStreams.get(ip) || 0;
+    if (count >= MAX_STREAMS_PER_IP) {
+        throw new ProxyError('TOO_MANY_STREAMS', 429, `Too many concurrent streams (limit ${MAX_STREAMS_PER_IP})`);
+    }
+    activeStreams.set(ip, count + 1);
+
+    let released = false;
+    return () => {
+        if (released) return;
+        released = true;
+        const remaining = (activeStreams.get(ip) || 1) - 1;
+        if (remaining <= 0) activeStreams.delete(ip);
+        else activeStreams.set(ip, remaining);
+    };
+}
+
+/**
+ * Normalize any thrown value into a ProxyError for the JSON response
+ */
+export function toProxyError(error) {
+    if (error instanceof ProxyError) return error;
+    return new ProxyError('UPSTREAM_ERROR', 502, `Source station error: ${error?.message || 'unknown error'}`);
+}
@@ -0,0 +1,107 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ICY_REQUEST_HEADERS, IcyDemuxer, parseMetaInt } from './_lib/icy.js';
+import {
+    MAX_RESPONSE_DURATION_MS,
+    ProxyError,
+    acquireStreamSlot,
+    getClientIp,
+    guardedFetch,
+    toProxyError
+} from './_lib/urlGuard.js';
+
+// Companion to /api/proxy: streams "now playing" changes as Server-Sent Events.
+// Opens its own upstream connection, discards the audio and only forwards StreamTitle.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    const { url } = req.query;
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+
+    if (!url || typeof url !== 'string') {
+        return res.status(400).json({ error: 'Missing stream URL', code: 'MISSING_URL' });
+    }
+
+    // Early return for CORS preflight
+    if (req.method === 'OPTIONS') {
+        res.setHeader('Access-Control-Allow-Headers', '*');
+        return res.status(200).end();
+    }
+
+    const controller = new AbortController();
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+    let durationTimer: ReturnType<typeof setTimeout> | null = null;
+    let releaseSlot: (() => void) | null = null;
+
+    const cleanup = () => {
+        if (heartbeat) clearInterval(heartbeat);
+        if (durationTimer) clearTimeout(durationTimer);
+        releaseSlot?.();
+    };
+
+    req.on('close', () => {
+        controller.abort();
+        cleanup();
+    });
+
+    try {
+        releaseSlot = acquireStreamSlot(getClientIp(req));
+
+        console.log('Metadata stream for URL:', url);
+        const response = await guardedFetch(url, {
+            headers: ICY_REQUEST_HEADERS,
+            signal: controller.signal
+        });
+
+        if (!response.ok) {
+            console.error(`Metadata fetch failed: ${response.status} ${response.statusText} for ${url}`);
+            throw new ProxyError('UPSTREAM_ERROR', response.status, `Failed to fetch stream: ${response.statusText}`);
+        }
+
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache, no-transform');
+        res.setHeader('Connection', 'keep-alive');
+        res.status(200);
+
+        const metaInt = parseMetaInt(response.headers.get('icy-metaint'));
+        if (!metaInt || !response.body) {
+            // Station doesn't support in-band metadata; tell the client not to reconnect
+            res.write('event: unsupported\ndata: {}\n\n');
+            controller.abort();
+            return res.end();
+        }
+
+        const demuxer = new IcyDemuxer(metaInt, (title: string) => {
+            res.write(`data: ${JSON.stringify({ title })}\n\n`);
+        });
+
+        // Keep intermediaries from closing an idle connection between track changes
+        heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+        durationTimer = setTimeout(() => controller.abort(), MAX_RESPONSE_DURATION_MS);
+
+        const reader = response.body.getReader();
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                demuxer.push(value);
+            }
+        } catch (streamErr) {
+            if (!controller.signal.aborted) {
+                console.error('Error during metadata streaming:', streamErr);
+            }
+        } finally {
+            res.end();
+        }
+    } catch (error) {
+        if (controller.signal.aborted) return;
+        const proxyError = toProxyError(error);
+        console.error(`Metadata error [${proxyError.code}]:`, proxyError.message);
+        if (!res.headersSent) {
+            res.status(proxyError.status).json(proxyError.toJSON());
+        } else {
+            res.end();
+        }
+    } finally {
+        cleanup();
+    }
+}
@@ -0,0 +1,40 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { probeStream } from './_lib/probe.js';
+import { acquireStreamSlot, getClientIp, toProxyError } from './_lib/urlGuard.js';
+
+// Connects to a stream, reads the headers and first few KB, and reports codec,
+// ICY headers and reachability as JSON so callers can vet a URL before playing it.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    const { url } = req.query;
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+
+    if (!url || typeof url !== 'string') {
+        return res.status(400).json({ error: 'Missing stream URL', code: 'MISSING_URL' });
+    }
+
+    // Early return for CORS preflight
+    if (req.method === 'OPTIONS') {
+        res.setHeader('Access-Control-Allow-Headers', '*');
+        return res.status(200).end();
+    }
+
+    // A probe opens an outbound connection too, so it takes a stream slot while it runs
+    let releaseSlot: (() => void) | null = null;
+    try {
+        releaseSlot = acquireStreamSlot(getClientIp(req));
+
+        console.log('Probing URL:', url);
+        const result = await probeStream(url);
+
+        res.setHeader('Cache-Control', 'no-store');
+        return res.status(200).json(result);
+    } catch (error) {
+        const proxyError = toProxyError(error);
+        console.error(`Probe error [${proxyError.code}]:`, proxyError.message);
+        return res.status(proxyError.status).json(proxyError.toJSON());
+    } finally {
+        releaseSlot?.();
+    }
+}
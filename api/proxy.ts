@@ -1,40 +1,61 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { Readable } from 'stream';
+import { ICY_REQUEST_HEADERS, IcyDemuxer, parseMetaInt } from './_lib/icy.js';
+import {
+    MAX_RESPONSE_DURATION_MS,
+    ProxyError,
+    acquireStreamSlot,
+    getClientIp,
+    guardedFetch,
+    toProxyError
+} from './_lib/urlGuard.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
     const { url } = req.query;
 
+    // Set CORS headers up front so the player can read JSON error codes too
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+
     if (!url || typeof url !== 'string') {
-        return res.status(400).json({ error: 'Missing stream URL' });
+        return res.status(400).json({ error: 'Missing stream URL', code: 'MISSING_URL' });
     }
 
     // Early return for CORS preflight
     if (req.method === 'OPTIONS') {
-        res.setHeader('Access-Control-Allow-Origin', '*');
-        res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
         res.setHeader('Access-Control-Allow-Headers', '*');
         return res.status(200).end();
     }
 
+    let releaseSlot: (() => void) | null = null;
+    const controller = new AbortController();
+    let durationTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const cleanup = () => {
+        if (durationTimer) clearTimeout(durationTimer);
+        releaseSlot?.();
+    };
+
+    req.on('close', () => {
+        controller.abort();
+        cleanup();
+    });
+
     try {
+        releaseSlot = acquireStreamSlot(getClientIp(req));
+
         console.log('Proxying URL:', url);
-        const response = await fetch(url, {
-            headers: {
-                // Mimic a browser to bypass Shoutcast/Internet-Radio detection pages
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-                'Accept': 'audio/mpeg, audio/*;q=0.9, */*;q=0.8',
-                'Referer': 'https://www.internet-radio.com/'
-            }
+        // guardedFetch validates the target and every redirect hop against private/link-local ranges
+        const response = await guardedFetch(url, {
+            // Request in-band metadata so we can strip it consistently (see /api/metadata)
+            headers: ICY_REQUEST_HEADERS,
+            signal: controller.signal
         });
 
         if (!response.ok) {
             console.error(`Proxy fetch failed: ${response.status} ${response.statusText} for ${url}`);
-            return res.status(response.status).json({ error: `Failed to fetch stream: ${response.statusText}` });
+            throw new ProxyError('UPSTREAM_ERROR', response.status, `Failed to fetch stream: ${response.statusText}`);
         }
 
-        // Set CORS headers
-        res.setHeader('Access-Control-Allow-Origin', '*');
-        res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
         res.setHeader('Access-Control-Expose-Headers', '*');
         res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
         res.setHeader('Pragma', 'no-cache');
@@ -48,25 +69,46 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         }
         res.setHeader('content-type', contentType);
 
+        // Strip interleaved ICY metadata blocks so the <audio> element only sees audio
+        const metaInt = parseMetaInt(response.headers.get('icy-metaint'));
+        const demuxer = metaInt ? new IcyDemuxer(metaInt) : null;
+
+        if (!response.body) {
+            throw new ProxyError('UPSTREAM_ERROR', 502, 'No stream body available');
+        }
+
+        // Hard cap on how long one response may stay open
+        durationTimer = setTimeout(() => {
+            console.warn(`Proxy max duration reached for ${url}`);
+            controller.abort();
+        }, MAX_RESPONSE_DURATION_MS);
+
         // Proxy the stream
-        if (response.body) {
-            const reader = response.body.getReader();
-            try {
-                while (true) {
-                    const { done, value } = await reader.read();
-                    if (done) break;
-                    res.write(value);
-                }
-            } catch (streamErr) {
+        const reader = response.body.getReader();
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                const audio = demuxer ? demuxer.push(value) : value;
+                if (audio.length > 0) res.write(audio);
+            }
+        } catch (streamErr) {
+            if (!controller.signal.aborted) {
                 console.error('Error during stream proxying:', streamErr);
-            } finally {
-                res.end();
             }
-        } else {
-            res.status(500).json({ error: 'No stream body available' });
+        } finally {
+            res.end();
         }
     } catch (error) {
-        console.error('Proxy error:', error);
-        res.status(500).json({ error: 'Failed to proxy stream' });
+        if (controller.signal.aborted) return;
+        const proxyError = toProxyError(error);
+        console.error(`Proxy error [${proxyError.code}]:`, proxyError.message);
+        if (!res.headersSent) {
+            res.status(proxyError.status).json(proxyError.toJSON());
+        } else {
+            res.end();
+        }
+    } finally {
+        cleanup();
     }
 }
@@ -0,0 +1,399 @@
+import http from 'http';
+import https from 'https';
+import { ICY_REQUEST_HEADERS, IcyDemuxer, parseMetaInt } from './api/_lib/icy.js';
+import { extractOggHeaderPages, findFrameBoundary } from './api/_lib/frames.js';
+import { probeStream } from './api/_lib/probe.js';
+import {
+    MAX_REDIRECTS,
+    MAX_RESPONSE_DURATION_MS,
+    ProxyError,
+    acquireStreamSlot,
+    getClientIp,
+    guardedLookup,
+    toProxyError,
+    validateTargetUrl
+} from './api/_lib/urlGuard.js';
+
+const PORT = 3000;
+
+// ~8s of 128kbps audio: enough for a new listener to start on a frame boundary
+const RING_BUFFER_BYTES = 128 * 1024;
+// Kept from the very start of the stream so Ogg joiners get the codec header pages
+const STREAM_HEAD_BYTES = 64 * 1024;
+// A client this far behind is dropped instead of buffering unboundedly in memory
+const MAX_CLIENT_BACKLOG_BYTES = 2 * 1024 * 1024;
+// An upstream that accepts the connection but never answers releases its listeners after this
+const UPSTREAM_RESPONSE_TIMEOUT_MS = 10000;
+
+// 'passthrough': a finite resource piped to the requesters that were waiting; nobody else joins
+type RelayState = 'connecting' | 'live' | 'passthrough' | 'closed';
+
+// Playlists are served as audio/* too, but are small files, not streams
+const PLAYLIST_TYPE = /mpegurl|scpls|x-pls/i;
+
+/**
+ * Only an endless audio response can be shared: someone joining a playlist, HLS segment
+ * or file part-way would get it cut at a frame boundary instead of whole.
+ */
+function isContinuousAudio(headers: http.IncomingHttpHeaders) {
+    const contentType = headers['content-type'] || '';
+    return !headers['content-length']
+        && /^(audio\/|application\/ogg)/i.test(contentType)
+        && !PLAYLIST_TYPE.test(contentType);
+}
+
+function sendError(res: http.ServerResponse, error: unknown) {
+    const proxyError = toProxyError(error);
+    console.error(`\x1b[31m[Proxy Error]\x1b[0m [${proxyError.code}] ${proxyError.message}`);
+    if (!res.headersSent) {
+        res.writeHead(proxyError.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(proxyError.toJSON()));
+    } else {
+        res.end();
+    }
+}
+
+/**
+ * One upstream connection per stream URL, fanned out to every listener.
+ * Small community stations often cap concurrent listeners, so N of our users
+ * should only ever count as one.
+ */
+class StreamRelay {
+    state: RelayState = 'connecting';
+    private audioClients = new Set<http.ServerResponse>();
+    private metadataClients = new Set<http.ServerResponse>();
+    private ring: Buffer[] = [];
+    private ringBytes = 0;
+    private streamHead: Buffer[] = [];
+    private streamHeadBytes = 0;
+    private contentType = 'audio/mpeg';
+    private hasIcyMetadata = false;
+    private lastTitle: string | null = null;
+    private upstreamReq: http.ClientRequest | null = null;
+    private heartbeat: ReturnType<typeof setInterval> | null = null;
+    private responseTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(readonly url: string, private readonly onClosed: (relay: StreamRelay) => void) { }
+
+    get clientCount() {
+        return this.audioClients.size + this.metadataClients.size;
+    }
+
+    start() {
+        this.connect(this.url, 0);
+    }
+
+    addAudioClient(res: http.ServerResponse) {
+        this.audioClients.add(res);
+        res.on('close', () => this.removeClient(res));
+        if (this.state === 'live') this.startAudioClient(res);
+    }
+
+    addMetadataClient(res: http.ServerResponse) {
+        this.metadataClients.add(res);
+        res.on('close', () => this.removeClient(res));
+        if (this.state === 'live') this.startMetadataClient(res);
+    }
+
+    private removeClient(res: http.ServerResponse) {
+        this.audioClients.delete(res);
+        this.metadataClients.delete(res);
+        if (this.clientCount === 0 && this.state !== 'closed') {
+            console.log(`[Relay] Last listener left, closing upstream: ${this.url}`);
+            this.close();
+        }
+    }
+
+    private async connect(url: string, redirectCount: number) {
+        if (redirectCount > MAX_REDIRECTS) {
+            return this.fail(new ProxyError('TOO_MANY_REDIRECTS', 508, 'Stream redirected too many times'));
+        }
+        try {
+            await validateTargetUrl(url);
+        } catch (err) {
+            return this.fail(err);
+        }
+        if (this.state === 'closed') return;
+
+        const client = url.startsWith('https') ? https : http;
+        console.log(`\x1b[36m[Relay Upstream]\x1b[0m ${url}`);
+
+        this.responseTimer = setTimeout(() => {
+            this.fail(new ProxyError('UPSTREAM_TIMEOUT', 504, `Stream did not respond within ${UPSTREAM_RESPONSE_TIMEOUT_MS / 1000}s`));
+        }, UPSTREAM_RESPONSE_TIMEOUT_MS);
+
+        this.upstreamReq = client.get(url, {
+            headers: ICY_REQUEST_HEADERS,
+            // Re-check resolved addresses at connect time (DNS rebinding)
+            lookup: guardedLookup
+        }, (upstream) => {
+            this.clearResponseTimer();
+            const status = upstream.statusCode || 502;
+
+            // Handle Redirects
+            if (status >= 300 && status < 400 && upstream.headers.location) {
+                const location = new URL(upstream.headers.location, url).toString();
+                console.log(`\x1b[33m[Redirect]\x1b[0m -> ${location}`);
+                upstream.resume();
+                this.connect(location, redirectCount + 1);
+                return;
+            }
+
+            if (status < 200 || status >= 300) {
+                upstream.resume();
+                return this.fail(new ProxyError('UPSTREAM_ERROR', status, `Failed to fetch stream: ${upstream.statusMessage}`));
+            }
+
+            if (!isContinuousAudio(upstream.headers)) {
+                console.log(`[Relay] Not a live stream (${upstream.headers['content-type'] || 'no type'}), piping: ${this.url}`);
+                this.passThrough(upstream);
+                return;
+            }
+
+            console.log(`[Relay] Upstream live (${status}) for ${this.clientCount} listener(s): ${this.url}`);
+            this.goLive(upstream);
+        });
+
+        this.upstreamReq.on('error', (err) => {
+            this.clearResponseTimer();
+            this.fail(err);
+        });
+    }
+
+    private clearResponseTimer() {
+        if (this.responseTimer) clearTimeout(this.responseTimer);
+        this.responseTimer = null;
+    }
+
+    private goLive(upstream: http.IncomingMessage) {
+        this.state = 'live';
+        const contentType = upstream.headers['content-type'];
+        if (contentType && !contentType.includes('text/html')) this.contentType = contentType;
+
+        const metaInt = parseMetaInt(upstream.headers['icy-metaint']);
+        this.hasIcyMetadata = metaInt > 0;
+        const demuxer = metaInt ? new IcyDemuxer(metaInt, (title: string) => this.broadcastTitle(title)) : null;
+
+        this.audioClients.forEach(res => this.startAudioClient(res));
+        this.metadataClients.forEach(res => this.startMetadataClient(res));
+
+        this.heartbeat = setInterval(() => {
+            this.metadataClients.forEach(res => res.write(': keep-alive\n\n'));
+        }, 15000);
+
+        upstream.on('data', (chunk: Buffer) => {
+            const audio = demuxer ? Buffer.from(demuxer.push(chunk)) : chunk;
+            if (audio.length > 0) this.broadcastAudio(audio);
+        });
+
+        upstream.on('end', () => {
+            console.log('[Relay] Source stream ended.');
+            this.close();
+        });
+
+        upstream.on('error', (err) => {
+            if (this.state === 'closed') return;
+            console.error('[Relay] Stream Error from Source:', err.message);
+            this.close();
+        });
+    }
+
+    private passThrough(upstream: http.IncomingMessage) {
+        this.state = 'passthrough';
+        const headers: http.OutgoingHttpHeaders = {
+            'Content-Type': upstream.headers['content-type'] || 'application/octet-stream',
+            'Cache-Control': 'no-cache, no-store, must-revalidate',
+            'Access-Control-Allow-Origin': '*'
+        };
+        if (upstream.headers['content-length']) headers['Content-Length'] = upstream.headers['content-length'];
+
+        // Everyone here asked before the response started, so each gets the body from byte 0
+        this.audioClients.forEach(res => res.writeHead(200, headers));
+        this.metadataClients.forEach(res => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Access-Control-Allow-Origin': '*' });
+            res.end('event: unsupported\ndata: {}\n\n');
+        });
+
+        upstream.on('data', (chunk: Buffer) => this.audioClients.forEach(res => res.write(chunk)));
+        upstream.on('end', () => this.close());
+        upstream.on('error', (err) => {
+            if (this.state === 'closed') return;
+            console.error('[Relay] Error from source:', err.message);
+            // A truncated file is worse than none: don't end it as if complete
+            this.audioClients.forEach(res => res.destroy());
+            this.close();
+        });
+    }
+
+    private startAudioClient(res: http.ServerResponse) {
+        res.writeHead(200, {
+            'Content-Type': this.contentType,
+            'Cache-Control': 'no-cache, no-store, must-revalidate',
+            'Access-Control-Allow-Origin': '*',
+            'Connection': 'keep-alive'
+        });
+
+        // Ogg decoders need the identification/comment pages before any audio page
+        const head = Buffer.concat(this.streamHead);
+        const oggHeaders = extractOggHeaderPages(head);
+        if (oggHeaders.length > 0) res.write(oggHeaders);
+
+        // Replay recent audio from the first whole frame so playback starts immediately
+        const recent = Buffer.concat(this.ring);
+        const boundary = findFrameBoundary(recent);
+        if (boundary >= 0) res.write(recent.subarray(boundary));
+    }
+
+    private startMetadataClient(res: http.ServerResponse) {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Access-Control-Allow-Origin': '*',
+            'Connection': 'keep-alive'
+        });
+
+        if (!this.hasIcyMetadata) {
+            res.end('event: unsupported\ndata: {}\n\n');
+            return;
+        }
+        if (this.lastTitle !== null) {
+            res.write(`data: ${JSON.stringify({ title: this.lastTitle })}\n\n`);
+        }
+    }
+
+    private broadcastAudio(chunk: Buffer) {
+        if (this.streamHeadBytes < STREAM_HEAD_BYTES) {
+            this.streamHead.push(chunk);
+            this.streamHeadBytes += chunk.length;
+        }
+
+        this.ring.push(chunk);
+        this.ringBytes += chunk.length;
+        while (this.ringBytes - this.ring[0].length >= RING_BUFFER_BYTES) {
+            this.ringBytes -= this.ring.shift()!.length;
+        }
+
+        this.audioClients.forEach(res => {
+            if (res.writableLength > MAX_CLIENT_BACKLOG_BYTES) {
+                console.warn('[Relay] Dropping slow listener');
+                res.destroy();
+                return;
+            }
+            res.write(chunk);
+        });
+    }
+
+    private broadcastTitle(title: string) {
+        this.lastTitle = title;
+        console.log(`\x1b[35m[Now Playing]\x1b[0m ${title}`);
+        this.metadataClients.forEach(res => res.write(`data: ${JSON.stringify({ title })}\n\n`));
+    }
+
+    private fail(error: unknown) {
+        if (this.state === 'closed') return;
+        this.state = 'closed';
+        [...this.audioClients, ...this.metadataClients].forEach(res => sendError(res, error));
+        this.teardown();
+    }
+
+    private close() {
+        if (this.state === 'closed') return;
+        this.state = 'closed';
+        [...this.audioClients, ...this.metadataClients].forEach(res => res.end());
+        this.teardown();
+    }
+
+    private teardown() {
+        if (this.heartbeat) clearInterval(this.heartbeat);
+        this.clearResponseTimer();
+        this.upstreamReq?.destroy();
+        this.upstreamReq = null;
+        this.ring = [];
+        this.streamHead = [];
+        this.audioClients.clear();
+        this.metadataClients.clear();
+        this.onClosed(this);
+    }
+}
+
+const relays = new Map<string, StreamRelay>();
+
+function getRelay(url: string): StreamRelay {
+    const existing = relays.get(url);
+    if (existing && (existing.state === 'connecting' || existing.state === 'live')) return existing;
+
+    const relay = new StreamRelay(url, (closed) => {
+        if (relays.get(url) === closed) relays.delete(url);
+        console.log(`[Relay] Active relays: ${relays.size}`);
+    });
+    relays.set(url, relay);
+    relay.start();
+    return relay;
+}
+
+const server = http.createServer((req, res) => {
+    // Enable CORS for all requests
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', '*');
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(200);
+        res.end();
+        return;
+    }
+
+    const urlParams = new URL(req.url || '/', `http://localhost:${PORT}`);
+    const streamUrl = urlParams.searchParams.get('url');
+
+    if (!streamUrl) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Missing stream URL', code: 'MISSING_URL' }));
+        return;
+    }
+
+    // Probes open outbound connections too, so they take a slot while they run
+    let releaseSlot: () => void;
+    try {
+        releaseSlot = acquireStreamSlot(getClientIp(req));
+    } catch (err) {
+        sendError(res, err);
+        return;
+    }
+
+    // Probes are short-lived and must not share (or keep alive) a relay
+    if (urlParams.pathname.endsWith('/probe')) {
+        probeStream(streamUrl)
+            .then(result => {
+                res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+                res.end(JSON.stringify(result));
+            })
+            .catch(err => sendError(res, err))
+            .finally(releaseSlot);
+        return;
+    }
+
+    // Hard cap on how long one response may stay open
+    const durationTimer = setTimeout(() => {
+        console.warn(`[Proxy] Max duration reached, closing: ${streamUrl}`);
+        res.end();
+    }, MAX_RESPONSE_DURATION_MS);
+
+    res.on('close', () => {
+        clearTimeout(durationTimer);
+        releaseSlot();
+    });
+
+    // Companion SSE endpoint (mirrors api/metadata.ts) shares the same upstream as the audio
+    const relay = getRelay(streamUrl);
+    if (urlParams.pathname.endsWith('/metadata')) {
+        relay.addMetadataClient(res);
+    } else {
+        relay.addAudioClient(res);
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`\x1b[32m%s\x1b[0m`, `Standalone Radio Proxy (v4) running at http://localhost:${PORT}`);
+    console.log(`Shared Upstream Relay & Pure Audio Mode Active.`);
+});
@@ -17,28 +17,25 @@ import {
     PopoverTrigger,
 } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
+import { useGenreTaxonomy } from "@/hooks/useGenreTaxonomy";
 
 interface AdminTagPickerProps {
     selectedTags: string[];
     onTagsChange: (tags: string[]) => void;
 }
 
-const MUSIC_GENRES = [
-    "Rock", "Jazz", "Electronic", "Hip Hop", "Folk", "Punk", "Classical",
-    "Blues", "Indie", "Soul", "Metal", "Reggae", "Ambient", "World",
-    "Chillout", "Country", "Latin", "Funk", "Disco", "Pop"
-];
-
-const COMMON_TAGS = [
-    ...MUSIC_GENRES,
+// Non-genre tags; genres come from the taxonomy
+const STATION_TAGS = [
     "Community", "College Radio", "University", "Independent", "Underground",
     "News", "Talk", "Sports", "Religious", "Public Radio",
     "Non-commercial", "DIY", "Avant-garde", "Experimental", "Eclectic"
-].sort();
+];
 
 const AdminTagPicker = ({ selectedTags, onTagsChange }: AdminTagPickerProps) => {
     const [open, setOpen] = useState(false);
     const [inputValue, setInputValue] = useState("");
+    const { genres } = useGenreTaxonomy();
+    const commonTags = [...genres.map(genre => genre.name), ...STATION_TAGS].sort();
 
     const toggleTag = (tag: string) => {
         const normalized = tag.trim().toLowerCase();
@@ -102,7 +99,7 @@ const AdminTagPicker = ({ selectedTags, onTagsChange }: AdminTagPickerProps) =>
                                 </Button>
                             </CommandEmpty>
                             <CommandGroup heading="Common Tags">
-                                {COMMON_TAGS.map((tag) => (
+                                {commonTags.map((tag) => (
                                     <CommandItem
                                         key={tag}
                                         onSelect={() => toggleTag(tag)}
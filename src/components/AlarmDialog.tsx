@@ -0,0 +1,273 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlarmClock, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectGroup,
+    SelectItem,
+    SelectLabel,
+    SelectTrigger,
+    SelectValue
+} from "@/components/ui/select";
+import { useAuth } from "@/context/AuthContext";
+import { useAudio } from "@/context/AudioContext";
+import { useAlarms } from "@/hooks/useAlarms";
+import { useSavedLibrary } from "@/hooks/useSavedLibrary";
+import { useGenreTaxonomy } from "@/hooks/useGenreTaxonomy";
+import type { RadioStation } from "@/services/radioBrowserApi";
+import {
+    DEFAULT_RAMP_SECONDS,
+    WEEKDAY_LABELS,
+    deleteAlarm,
+    describeAlarmDays,
+    describeAlarmSource,
+    formatAlarmTime,
+    getNextOccurrence,
+    saveAlarm,
+    type Alarm,
+    type AlarmSource
+} from "@/services/alarmClock";
+
+interface AlarmDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+const RAMP_OPTIONS = [
+    { seconds: 0, label: "No fade-in" },
+    { seconds: 30, label: "30 seconds" },
+    { seconds: 60, label: "1 minute" },
+    { seconds: 180, label: "3 minutes" },
+    { seconds: 300, label: "5 minutes" },
+];
+
+// Guests keep saved stations in localStorage (see SavedStations)
+const getGuestStations = (): RadioStation[] => {
+    try {
+        const savedIds: string[] = JSON.parse(localStorage.getItem('savedStations') || '[]');
+        const stationsData: RadioStation[] = JSON.parse(localStorage.getItem('savedStationsData') || '[]');
+        return stationsData.filter(station => savedIds.includes(station.stationuuid));
+    } catch {
+        return [];
+    }
+};
+
+const AlarmDialog = ({ open, onOpenChange }: AlarmDialogProps) => {
+    const { user } = useAuth();
+    const { currentStation, alarmRinging, dismissAlarm } = useAudio();
+    const { savedStations } = useSavedLibrary();
+    const { moods } = useGenreTaxonomy();
+    const alarms = useAlarms();
+
+    const [time, setTime] = useState("07:00");
+    const [days, setDays] = useState<number[]>([1, 2, 3, 4, 5]);
+    const [sourceKey, setSourceKey] = useState("");
+    const [rampSeconds, setRampSeconds] = useState(DEFAULT_RAMP_SECONDS);
+    const [saving, setSaving] = useState(false);
+    const [guestStations, setGuestStations] = useState<RadioStation[]>([]);
+
+    useEffect(() => {
+        if (open && !user) setGuestStations(getGuestStations());
+    }, [open, user]);
+
+    // The current station first, then the library (without repeating it)
+    const stationChoices = useMemo(() => {
+        const library = user ? savedStations : guestStations;
+        const choices = currentStation ? [currentStation, ...library] : library;
+        return choices.filter((station, i) => choices.findIndex(s => s.stationuuid === station.stationuuid) === i);
+    }, [user, savedStations, guestStations, currentStation]);
+
+    const resolveSource = (key: string): AlarmSource | null => {
+        const [kind, ...rest] = key.split(':');
+        const id = rest.join(':');
+        if (kind === 'station') {
+            const station = stationChoices.find(s => s.stationuuid === id);
+            return station ? { kind: 'station', station } : null;
+        }
+        const mood = moods.find(m => m.id === id);
+        return mood ? { kind: 'mood', moodId: mood.id, moodName: mood.name } : null;
+    };
+
+    const toggleDay = (day: number) => {
+        setDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+    };
+
+    const persist = async (alarm: Alarm, message?: string) => {
+        setSaving(true);
+        try {
+            await saveAlarm(alarm);
+            if (message) toast.success(message);
+        } catch (err) {
+            console.error("[Alarm] Failed to save alarm:", err);
+            toast.error("Saved on this device only - couldn't sync to your account");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const source = resolveSource(sourceKey);
+        if (!source) {
+            toast.error("Pick a station or mood to wake up to");
+            return;
+        }
+        const alarm: Alarm = { id: crypto.randomUUID(), time, days, source, rampSeconds, enabled: true };
+        const next = getNextOccurrence(alarm, new Date());
+        await persist(alarm, next ? `Alarm set for ${formatAlarmTime(next)}` : undefined);
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteAlarm(id);
+        } catch (err) {
+            console.error("[Alarm] Failed to delete alarm:", err);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[520px] max-h-[85vh] overflow-y-auto border-4 border-[#331F21] rounded-[2rem] shadow-[8px_8px_0_#331F21]">
+                <DialogHeader>
+                    <div className="flex items-center gap-3 mb-2">
+                        <div className="w-10 h-10 bg-[#E0CDCE] rounded-xl flex items-center justify-center border-2 border-[#331F21]">
+                            <AlarmClock className="w-6 h-6 text-[#331F21]" />
+                        </div>
+                        <DialogTitle className="text-xl font-black uppercase tracking-tight">Alarms</DialogTitle>
+                    </div>
+                    <DialogDescription className="font-medium text-[#331F21]/60 dark:text-muted-foreground">
+                        Alarms ring from this browser, so keep a tab open. {user ? "Saved to your account." : "Saved on this device."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {alarmRinging && (
+                    <Button onClick={dismissAlarm} className="w-full bg-[#331F21] hover:bg-[#4a2f32] text-white font-black uppercase">
+                        Stop alarm
+                    </Button>
+                )}
+
+                {/* --- ALARMS --- */}
+                <section className="space-y-2 py-2">
+                    {alarms.length === 0 ? (
+                        <p className="text-xs text-muted-foreground py-2">No alarms yet.</p>
+                    ) : alarms.map(alarm => (
+                        <div key={alarm.id} className="flex items-center justify-between gap-4 py-2 border-b border-[#331F21]/10 last:border-0">
+                            <div className="min-w-0">
+                                <p className="font-mono font-bold text-lg leading-none">{alarm.time}</p>
+                                <p className="text-xs text-muted-foreground truncate">
+                                    {describeAlarmDays(alarm.days)} · {describeAlarmSource(alarm.source)}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-2 shrink-0">
+                                <Switch
+                                    checked={alarm.enabled}
+                                    disabled={saving}
+                                    onCheckedChange={(checked) => persist({ ...alarm, enabled: checked })}
+                                    aria-label={`Alarm at ${alarm.time}`}
+                                />
+                                <Button variant="ghost" size="icon" onClick={() => handleDelete(alarm.id)} aria-label="Delete alarm">
+                                    <Trash2 className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                </section>
+
+                {/* --- NEW ALARM --- */}
+                <form onSubmit={handleAdd} className="space-y-4 py-2 border-t-2 border-[#331F21]/10">
+                    <h3 className="text-sm font-black uppercase tracking-wider pt-4">New Alarm</h3>
+
+                    <div className="flex items-center gap-3">
+                        <Label htmlFor="alarm-time" className="text-sm font-bold w-20">Time</Label>
+                        <Input
+                            id="alarm-time"
+                            type="time"
+                            required
+                            value={time}
+                            onChange={(e) => setTime(e.target.value)}
+                            className="w-32 border-2 border-[#331F21] font-mono"
+                        />
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                        <Label className="text-sm font-bold w-20">Repeat</Label>
+                        <div className="flex gap-1 flex-wrap">
+                            {WEEKDAY_LABELS.map((label, day) => (
+                                <button
+                                    key={label}
+                                    type="button"
+                                    onClick={() => toggleDay(day)}
+                                    className={`w-9 h-8 rounded-md border-2 border-[#331F21] text-[10px] font-black uppercase transition-colors ${days.includes(day) ? 'bg-[#331F21] text-white' : 'bg-transparent'}`}
+                                    aria-pressed={days.includes(day)}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground -mt-2 pl-[5.75rem]">{describeAlarmDays(days)}</p>
+
+                    <div className="flex items-center gap-3">
+                        <Label className="text-sm font-bold w-20">Wake to</Label>
+                        <Select value={sourceKey} onValueChange={setSourceKey}>
+                            <SelectTrigger className="flex-1 border-2 border-[#331F21]">
+                                <SelectValue placeholder="Station or mood" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {stationChoices.length > 0 && (
+                                    <SelectGroup>
+                                        <SelectLabel>Stations</SelectLabel>
+                                        {stationChoices.map(station => (
+                                            <SelectItem key={station.stationuuid} value={`station:${station.stationuuid}`}>
+                                                {station.name}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectGroup>
+                                )}
+                                <SelectGroup>
+                                    <SelectLabel>Moods</SelectLabel>
+                                    {moods.map(mood => (
+                                        <SelectItem key={mood.id} value={`mood:${mood.id}`}>{mood.name} mix</SelectItem>
+                                    ))}
+                                </SelectGroup>
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                        <Label className="text-sm font-bold w-20">Fade in</Label>
+                        <Select value={String(rampSeconds)} onValueChange={(value) => setRampSeconds(Number(value))}>
+                            <SelectTrigger className="flex-1 border-2 border-[#331F21]">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {RAMP_OPTIONS.map(option => (
+                                    <SelectItem key={option.seconds} value={String(option.seconds)}>{option.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <Button type="submit" disabled={saving || !sourceKey} className="w-full gap-1 bg-[#331F21] hover:bg-[#4a2f32] text-white font-bold">
+                        <Plus className="w-4 h-4" />
+                        Add Alarm
+                    </Button>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default AlarmDialog;
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { EyeOff, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { useAuth } from "@/context/AuthContext";
+import { getCountryFlag } from "@/services/radioBrowserApi";
+import {
+    contentFilterReady,
+    deleteGlobalRule,
+    getGlobalRules,
+    saveGlobalRule,
+    type ContentFilterKind,
+    type ContentFilterRule
+} from "@/services/contentFilter";
+
+/** Admin editor for the global content filter defaults (content_filter_rules) */
+const ContentFilterAdmin = () => {
+    const { profile } = useAuth();
+    const [rules, setRules] = useState<ContentFilterRule[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    // New rule form
+    const [kind, setKind] = useState<ContentFilterKind>('tag');
+    const [value, setValue] = useState("");
+    const [reason, setReason] = useState("");
+
+    useEffect(() => {
+        contentFilterReady().then(() => {
+            setRules(getGlobalRules());
+            setLoading(false);
+        });
+    }, []);
+
+    const save = async (rule: ContentFilterRule) => {
+        if (!profile) return;
+        setSaving(true);
+        try {
+            await saveGlobalRule(rule, profile.id);
+            setRules(getGlobalRules());
+            return true;
+        } catch (err) {
+            console.error("[Content Filter] Failed to save rule:", err);
+            toast.error("Failed to save filter rule");
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!value.trim() || !reason.trim()) {
+            toast.error("A value and a reason are required");
+            return;
+        }
+        if (kind === 'country' && value.trim().length !== 2) {
+            toast.error("Use a two-letter country code (e.g. RU)");
+            return;
+        }
+        if (await save({ kind, value: value.trim(), reason: reason.trim(), hiddenByDefault: true })) {
+            toast.success("Filter rule added");
+            setValue("");
+            setReason("");
+        }
+    };
+
+    const handleDelete = async (rule: ContentFilterRule) => {
+        if (!rule.id || !confirm(`Remove the ${rule.kind} rule "${rule.value}" for everyone?`)) return;
+        setSaving(true);
+        try {
+            await deleteGlobalRule(rule.id);
+            setRules(getGlobalRules());
+            toast.success("Filter rule removed");
+        } catch (err) {
+            console.error("[Content Filter] Failed to delete rule:", err);
+            toast.error("Failed to delete filter rule");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <h2 className="text-xl font-black text-[#331F21] uppercase flex items-center gap-3">
+                    <EyeOff className="w-6 h-6" />
+                    Content Filters ({rules.length})
+                </h2>
+                <p className="text-xs font-bold opacity-40 uppercase">Global defaults - users can override</p>
+            </div>
+
+            <form onSubmit={handleAdd} className="bg-white border-4 border-[#331F21] rounded-2xl p-6 grid grid-cols-1 md:grid-cols-[140px_1fr_2fr_auto] gap-3 shadow-[4px_4px_0_#331F21]">
+                <Select value={kind} onValueChange={(v) => setKind(v as ContentFilterKind)}>
+                    <SelectTrigger className="border-2 border-[#331F21] rounded-xl font-bold">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="tag">TAG</SelectItem>
+                        <SelectItem value="country">COUNTRY</SelectItem>
+                    </SelectContent>
+                </Select>
+                <Input
+                    placeholder={kind === 'country' ? "Country code, e.g. RU" : "Tag, e.g. talk"}
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    className="border-2 border-[#331F21] rounded-xl"
+                />
+                <Input
+                    placeholder="Reason shown to users"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    className="border-2 border-[#331F21] rounded-xl"
+                />
+                <Button type="submit" disabled={saving} className="bg-[#331F21] text-white rounded-xl font-black uppercase text-xs gap-2">
+                    <Plus className="w-4 h-4" />
+                    Add Rule
+                </Button>
+            </form>
+
+            {loading ? (
+                <div className="flex justify-center p-12">
+                    <Loader2 className="w-8 h-8 animate-spin text-[#331F21]" />
+                </div>
+            ) : (
+                <div className="bg-white border-4 border-[#331F21] rounded-2xl divide-y-2 divide-[#331F21]/10">
+                    {rules.map(rule => (
+                        <div key={`${rule.kind}:${rule.value}`} className="flex items-center justify-between gap-4 p-4">
+                            <div className="min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-[8px] font-black uppercase px-2 py-0.5 rounded bg-[#331F21]/5 border border-[#331F21]/10">
+                                        {rule.kind}
+                                    </span>
+                                    <p className="font-black text-[#331F21] uppercase truncate">
+                                        {rule.kind === 'country' ? `${getCountryFlag(rule.value)} ${rule.value}` : rule.value}
+                                    </p>
+                                </div>
+                                <p className="text-xs font-medium text-[#331F21]/60 mt-1">{rule.reason}</p>
+                            </div>
+                            <div className="flex items-center gap-3 shrink-0">
+                                <span className="text-[10px] font-bold uppercase text-[#331F21]/40">
+                                    {rule.hiddenByDefault ? "Hidden by default" : "Shown by default"}
+                                </span>
+                                <Switch
+                                    checked={rule.hiddenByDefault}
+                                    disabled={saving || !rule.id}
+                                    onCheckedChange={(checked) => save({ ...rule, hiddenByDefault: checked })}
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    disabled={saving || !rule.id}
+                                    onClick={() => handleDelete(rule)}
+                                    className="text-red-500 hover:bg-red-50"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                    {rules.length > 0 && !rules[0].id && (
+                        <p className="p-4 text-xs font-bold text-[#331F21]/50">
+                            Showing built-in defaults - run supabase_content_filter.sql to make these editable.
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ContentFilterAdmin;
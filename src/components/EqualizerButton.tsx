@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAudio } from "@/context/AudioContext";
+import { useAudioEffects } from "@/hooks/useAudioEffects";
+import {
+    EQ_BANDS,
+    EQ_PRESETS,
+    EQ_RANGE_DB,
+    clearStationEffects,
+    getActiveEffects,
+    hasStationEffects,
+    previewAudioEffects,
+    saveAudioEffects,
+    type AudioEffectsSettings
+} from "@/services/audioEffects";
+
+const formatBand = (frequency: number) => frequency >= 1000 ? `${frequency / 1000}k` : String(frequency);
+
+interface EqualizerButtonProps {
+    // Styling for the trigger, to sit with the surrounding controls
+    className?: string;
+}
+
+/** Slider button with the EQ, compressor and stereo width; saves as default or for this station */
+export const EqualizerButton = ({ className = "" }: EqualizerButtonProps) => {
+    const { currentStation } = useAudio();
+    const settings = useAudioEffects();
+    const [open, setOpen] = useState(false);
+    const stationId = currentStation?.stationuuid ?? null;
+    const stationOnly = hasStationEffects(stationId);
+
+    const save = async (next: AudioEffectsSettings) => {
+        try {
+            await saveAudioEffects(next, stationOnly ? stationId : null);
+        } catch (err) {
+            console.error("[Effects] Failed to save settings:", err);
+            toast.error("Saved on this device only - couldn't sync to your account");
+        }
+    };
+
+    const update = (changes: Partial<AudioEffectsSettings>) => save({ ...settings, ...changes });
+
+    const setBand = (index: number, value: number) => {
+        const gains = settings.gains.map((gain, i) => i === index ? value : gain);
+        previewAudioEffects({ ...settings, enabled: true, preset: 'custom', gains });
+    };
+
+    const toggleStationOnly = async (checked: boolean) => {
+        if (!stationId) return;
+        try {
+            if (checked) await saveAudioEffects(settings, stationId);
+            else await clearStationEffects(stationId);
+        } catch (err) {
+            console.error("[Effects] Failed to save settings:", err);
+        }
+    };
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button variant="outline" className={`gap-2 ${className}`} aria-label="Equalizer" title="Equalizer">
+                    <SlidersHorizontal className={`w-4 h-4 ${settings.enabled ? 'stroke-[3]' : ''}`} />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="z-[110] w-80 border-2 border-[#331F21] rounded-xl shadow-[4px_4px_0_#331F21] space-y-3">
+                <div className="flex items-center justify-between">
+                    <p className="text-xs font-black uppercase tracking-wider">Equalizer</p>
+                    <Switch
+                        checked={settings.enabled}
+                        onCheckedChange={(checked) => update({ enabled: checked })}
+                        aria-label="Effects on"
+                    />
+                </div>
+
+                <div className="grid grid-cols-4 gap-2">
+                    {EQ_PRESETS.map(preset => (
+                        <Button
+                            key={preset.id}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => update({ enabled: true, preset: preset.id, gains: preset.gains, compressor: preset.compressor })}
+                            className={`h-8 px-1 font-bold text-[10px] ${settings.enabled && settings.preset === preset.id ? 'bg-[#331F21] text-white hover:bg-[#4a2f32] hover:text-white' : ''}`}
+                        >
+                            {preset.name}
+                        </Button>
+                    ))}
+                </div>
+
+                {/* --- BANDS --- */}
+                <div className={`space-y-1.5 ${settings.enabled ? '' : 'opacity-50'}`}>
+                    {EQ_BANDS.map((frequency, i) => (
+                        <div key={frequency} className="flex items-center gap-2">
+                            <span className="w-8 text-[10px] font-mono font-bold text-right">{formatBand(frequency)}</span>
+                            <Slider
+                                min={-EQ_RANGE_DB}
+                                max={EQ_RANGE_DB}
+                                step={0.5}
+                                value={[settings.gains[i]]}
+                                onValueChange={([value]) => setBand(i, value)}
+                                onValueCommit={() => save(getActiveEffects())}
+                                aria-label={`${formatBand(frequency)}Hz`}
+                            />
+                            <span className="w-10 text-[10px] font-mono text-muted-foreground">
+                                {settings.gains[i] > 0 ? '+' : ''}{settings.gains[i]}dB
+                            </span>
+                        </div>
+                    ))}
+                </div>
+
+                {/* --- DYNAMICS & WIDTH --- */}
+                <div className="space-y-3 pt-3 border-t-2 border-[#331F21]/10">
+                    <div className="flex items-center justify-between">
+                        <Label htmlFor="eq-compressor" className="text-xs font-bold">Compressor</Label>
+                        <Switch
+                            id="eq-compressor"
+                            checked={settings.compressor}
+                            onCheckedChange={(checked) => update({ enabled: true, compressor: checked })}
+                        />
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <Label className="text-xs font-bold shrink-0">Stereo width</Label>
+                        <Slider
+                            min={0}
+                            max={2}
+                            step={0.1}
+                            value={[settings.stereoWidth]}
+                            onValueChange={([value]) => previewAudioEffects({ ...settings, enabled: true, stereoWidth: value })}
+                            onValueCommit={() => save(getActiveEffects())}
+                            aria-label="Stereo width"
+                        />
+                        <span className="w-10 text-[10px] font-mono text-muted-foreground">{Math.round(settings.stereoWidth * 100)}%</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <Label htmlFor="eq-station-only" className="text-xs font-bold truncate">
+                            Only for {currentStation ? currentStation.name : "this station"}
+                        </Label>
+                        <Switch
+                            id="eq-station-only"
+                            checked={stationOnly}
+                            disabled={!stationId}
+                            onCheckedChange={toggleStationOnly}
+                        />
+                    </div>
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+};
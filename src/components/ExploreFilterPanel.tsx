@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getAllCountries,
+  getCountryFlag,
+  type AdvancedSearchFilters,
+  type AdvancedSearchSort,
+  type CountryInfo
+} from "@/services/radioBrowserApi";
+
+const CODECS = ['MP3', 'AAC', 'AAC+', 'OGG', 'OPUS', 'FLAC'];
+
+const SORT_OPTIONS: { value: AdvancedSearchSort; label: string }[] = [
+  { value: 'votes', label: 'MOST VOTED' },
+  { value: 'clickcount', label: 'MOST PLAYED' },
+  { value: 'bitrate', label: 'HIGHEST QUALITY' },
+  { value: 'random', label: 'RANDOM' },
+];
+
+interface ExploreFilterPanelProps {
+  filters: AdvancedSearchFilters;
+  onApply: (filters: AdvancedSearchFilters) => void;
+  onReset: () => void;
+  loading?: boolean;
+}
+
+export const ExploreFilterPanel = ({ filters, onApply, onReset, loading }: ExploreFilterPanelProps) => {
+  const [draft, setDraft] = useState<AdvancedSearchFilters>(filters);
+  const [tagInput, setTagInput] = useState((filters.tags || []).join(', '));
+  const [countries, setCountries] = useState<CountryInfo[]>([]);
+
+  useEffect(() => {
+    setDraft(filters);
+    setTagInput((filters.tags || []).join(', '));
+  }, [filters]);
+
+  useEffect(() => {
+    getAllCountries().then(setCountries);
+  }, []);
+
+  const update = (patch: Partial<AdvancedSearchFilters>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const parseBitrate = (value: string) => {
+    const parsed = parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+  };
+
+  const handleApply = () => {
+    onApply({
+      ...draft,
+      tags: tagInput.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean),
+    });
+  };
+
+  return (
+    <div className="mt-4 p-5 rounded-2xl border-2 border-border bg-card space-y-5">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="space-y-2 lg:col-span-2">
+          <Label htmlFor="filter-tags" className="text-xs font-bold uppercase tracking-wider">Tags (all must match)</Label>
+          <Input
+            id="filter-tags"
+            placeholder="jazz, community, college"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            className="h-11 rounded-xl border-2"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs font-bold uppercase tracking-wider">Country</Label>
+          <Select
+            value={draft.countrycode || 'any'}
+            onValueChange={(value) => update({ countrycode: value === 'any' ? undefined : value })}
+          >
+            <SelectTrigger className="h-11 rounded-xl border-2">
+              <SelectValue placeholder="Any country" />
+            </SelectTrigger>
+            <SelectContent className="rounded-xl border-2 max-h-72">
+              <SelectItem value="any">ANY COUNTRY</SelectItem>
+              {countries.map(country => (
+                <SelectItem key={country.countrycode} value={country.countrycode}>
+                  {getCountryFlag(country.countrycode)} {country.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-state" className="text-xs font-bold uppercase tracking-wider">State / Region</Label>
+          <Input
+            id="filter-state"
+            placeholder="e.g. Oregon"
+            value={draft.state || ''}
+            onChange={(e) => update({ state: e.target.value || undefined })}
+            className="h-11 rounded-xl border-2"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="filter-language" className="text-xs font-bold uppercase tracking-wider">Language</Label>
+          <Input
+            id="filter-language"
+            placeholder="e.g. spanish"
+            value={draft.language || ''}
+            onChange={(e) => update({ language: e.target.value || undefined })}
+            className="h-11 rounded-xl border-2"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs font-bold uppercase tracking-wider">Codec</Label>
+          <Select
+            value={draft.codec || 'any'}
+            onValueChange={(value) => update({ codec: value === 'any' ? undefined : value })}
+          >
+            <SelectTrigger className="h-11 rounded-xl border-2">
+              <SelectValue placeholder="Any codec" />
+            </SelectTrigger>
+            <SelectContent className="rounded-xl border-2">
+              <SelectItem value="any">ANY CODEC</SelectItem>
+              {CODECS.map(codec => (
+                <SelectItem key={codec} value={codec}>{codec}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs font-bold uppercase tracking-wider">Bitrate (kbps)</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              placeholder="Min"
+              value={draft.bitrateMin ?? ''}
+              onChange={(e) => update({ bitrateMin: parseBitrate(e.target.value) })}
+              className="h-11 rounded-xl border-2"
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="number"
+              min={0}
+              placeholder="Max"
+              value={draft.bitrateMax ?? ''}
+              onChange={(e) => update({ bitrateMax: parseBitrate(e.target.value) })}
+              className="h-11 rounded-xl border-2"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs font-bold uppercase tracking-wider">Sort By</Label>
+          <Select
+            value={draft.sort || 'votes'}
+            onValueChange={(value) => update({ sort: value as AdvancedSearchSort })}
+          >
+            <SelectTrigger className="h-11 rounded-xl border-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="rounded-xl border-2">
+              {SORT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-6">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="filter-geo"
+              checked={!!draft.hasGeoInfo}
+              onCheckedChange={(checked) => update({ hasGeoInfo: checked || undefined })}
+            />
+            <Label htmlFor="filter-geo" className="text-xs font-bold uppercase tracking-wider">On the map only</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="filter-online"
+              checked={!!draft.lastCheckOk}
+              onCheckedChange={(checked) => update({ lastCheckOk: checked })}
+            />
+            <Label htmlFor="filter-online" className="text-xs font-bold uppercase tracking-wider">Online at last check</Label>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onReset} className="h-11 rounded-xl border-2">
+            RESET
+          </Button>
+          <Button onClick={handleApply} disabled={loading} className="h-11 px-6 rounded-xl gap-2">
+            <SlidersHorizontal className="w-4 h-4" />
+            APPLY FILTERS
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
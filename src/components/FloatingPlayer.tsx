@@ -7,6 +7,9 @@ import { Play, Pause, SkipBack, SkipForward, Volume2, ChevronUp, ChevronDown } f
 import { WaveformVisualizer } from "./NowPlaying";
 import { Slider } from "@/components/ui/slider";
 import { RadioInterface } from "./RadioInterface";
+import { SleepTimerButton } from "./SleepTimerButton";
+import { EqualizerButton } from "./EqualizerButton";
+import { RecordButton } from "./RecordButton";
 import { regionToCountries as initialRegionToCountries, getStationsByCountry, getAllCountries } from "@/services/radioBrowserApi";
 import { toast } from "sonner";
 import { useEffect } from "react";
@@ -219,7 +222,10 @@ export const FloatingPlayer = ({ isDarkMode = false }: FloatingPlayerProps) => {
                 </div>
 
                 {/* Volume Control */}
-                <div className="flex items-center gap-3 flex-1 justify-end max-w-[200px]">
+                <div className="flex items-center gap-3 flex-1 justify-end max-w-[280px]">
+                    <SleepTimerButton className="h-8 px-2 border-0 bg-transparent text-[#E9EFE4] hover:bg-white/10 hover:text-[#E9EFE4]" />
+                    <EqualizerButton className="h-8 px-2 border-0 bg-transparent text-[#E9EFE4] hover:bg-white/10 hover:text-[#E9EFE4]" />
+                    <RecordButton className="h-8 px-2 border-0 bg-transparent text-[#E9EFE4] hover:bg-white/10 hover:text-[#E9EFE4]" />
                     <Volume2 className="w-4 h-4 text-[#E9EFE4]/60" />
                     <Slider
                         value={[volume]}
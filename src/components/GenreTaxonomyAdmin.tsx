@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Tags, Plus, Trash2, Pencil, X, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useGenreTaxonomy } from "@/hooks/useGenreTaxonomy";
+import {
+    deleteGenre,
+    deleteMood,
+    getGenreTaxonomy,
+    saveGenre,
+    saveMood,
+    type GenreMood,
+    type GenreNode
+} from "@/services/genreTaxonomy";
+
+const NO_PARENT = '__none__';
+
+const splitList = (value: string): string[] =>
+    value.split(',').map(item => item.trim()).filter(Boolean);
+
+const toId = (name: string): string =>
+    name.toLowerCase().trim().replace(/&/g, 'and').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const emptyForm = { id: "", name: "", parentId: NO_PARENT, synonyms: "", excludes: "", featured: false, icon: "" };
+
+/** Admin editor for the genre taxonomy (genre_taxonomy / genre_moods) */
+const GenreTaxonomyAdmin = () => {
+    const queryClient = useQueryClient();
+    const { genres, moods } = useGenreTaxonomy();
+    const [saving, setSaving] = useState(false);
+    const [editing, setEditing] = useState<GenreNode | null>(null);
+    const [form, setForm] = useState(emptyForm);
+
+    // Mood form; moodId is set when editing an existing mood
+    const [moodId, setMoodId] = useState<string | null>(null);
+    const [moodName, setMoodName] = useState("");
+    const [moodGenres, setMoodGenres] = useState("");
+
+    const topLevel = genres.filter(genre => !genre.parentId);
+    const childrenOf = (id: string) => genres.filter(genre => genre.parentId === id);
+    const knownIds = new Set(genres.map(genre => genre.id));
+
+    // Every save reloads the module's copy; hand it to react-query so open pages re-render
+    const run = async (action: () => Promise<void>, success: string, failure: string) => {
+        setSaving(true);
+        try {
+            await action();
+            queryClient.setQueryData(['genre-taxonomy'], getGenreTaxonomy());
+            toast.success(success);
+            return true;
+        } catch (err) {
+            console.error(`[Genre Taxonomy] ${failure}:`, err);
+            toast.error(failure);
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const startEdit = (genre: GenreNode) => {
+        setEditing(genre);
+        setForm({
+            id: genre.id,
+            name: genre.name,
+            parentId: genre.parentId || NO_PARENT,
+            synonyms: genre.synonyms.join(', '),
+            excludes: genre.excludes.join(', '),
+            featured: genre.featured,
+            icon: genre.icon || ""
+        });
+    };
+
+    const cancelEdit = () => {
+        setEditing(null);
+        setForm(emptyForm);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const id = editing ? editing.id : toId(form.id || form.name);
+        if (!id || !form.name.trim()) {
+            toast.error("A name is required");
+            return;
+        }
+        if (!editing && knownIds.has(id)) {
+            toast.error(`A genre with id "${id}" already exists`);
+            return;
+        }
+        const excludes = splitList(form.excludes);
+        const unknown = excludes.filter(excluded => !knownIds.has(excluded));
+        if (unknown.length > 0) {
+            toast.error(`Unknown genre ids in exclusions: ${unknown.join(', ')}`);
+            return;
+        }
+
+        const parentId = form.parentId === NO_PARENT ? null : form.parentId;
+        const saved = await run(() => saveGenre({
+            id,
+            name: form.name.trim(),
+            parentId: parentId === id ? null : parentId,
+            synonyms: splitList(form.synonyms).map(synonym => synonym.toLowerCase()),
+            excludes,
+            featured: form.featured,
+            icon: form.icon.trim() || null,
+            sortOrder: editing ? editing.sortOrder : Math.max(0, ...genres.map(genre => genre.sortOrder)) + 10
+        }), "Genre saved", "Failed to save genre");
+        if (saved) cancelEdit();
+    };
+
+    const handleDelete = async (genre: GenreNode) => {
+        const children = childrenOf(genre.id);
+        const warning = children.length > 0 ? ` Its ${children.length} sub-genres become top-level.` : "";
+        if (!confirm(`Delete "${genre.name}"?${warning}`)) return;
+        await run(() => deleteGenre(genre.id), "Genre deleted", "Failed to delete genre");
+    };
+
+    const handleAddMood = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const id = moodId || toId(moodName);
+        const moodGenreIds = splitList(moodGenres);
+        if (!id || moodGenreIds.length === 0) {
+            toast.error("A mood needs a name and at least one genre");
+            return;
+        }
+        const unknown = moodGenreIds.filter(genreId => !knownIds.has(genreId));
+        if (unknown.length > 0) {
+            toast.error(`Unknown genre ids: ${unknown.join(', ')}`);
+            return;
+        }
+        const mood: GenreMood = {
+            id,
+            name: moodName.trim(),
+            genres: moodGenreIds,
+            sortOrder: moods.find(existing => existing.id === id)?.sortOrder ?? moods.length
+        };
+        if (await run(() => saveMood(mood), "Mood saved", "Failed to save mood")) {
+            setMoodId(null);
+            setMoodName("");
+            setMoodGenres("");
+        }
+    };
+
+    const renderGenre = (genre: GenreNode, depth = 0) => (
+        <div key={genre.id}>
+            <div className={cn("flex items-start justify-between gap-4 p-4", depth > 0 && "pl-10 bg-[#331F21]/[0.02]")}>
+                <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                        {genre.featured && <Star className="w-3 h-3 fill-[#331F21] text-[#331F21]" />}
+                        <p className="font-black text-[#331F21] uppercase truncate">{genre.name}</p>
+                        <span className="font-mono text-[10px] text-[#331F21]/40">{genre.id}</span>
+                    </div>
+                    <p className="text-xs font-medium text-[#331F21]/60">{genre.synonyms.join(', ') || 'No synonyms'}</p>
+                    {genre.excludes.length > 0 && (
+                        <p className="text-[10px] font-bold uppercase text-red-500/70">Excludes {genre.excludes.join(', ')}</p>
+                    )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                    <Button variant="ghost" size="icon" disabled={saving} onClick={() => startEdit(genre)}>
+                        <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={saving}
+                        onClick={() => handleDelete(genre)}
+                        className="text-red-500 hover:bg-red-50"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                    </Button>
+                </div>
+            </div>
+            {depth === 0 && childrenOf(genre.id).map(child => renderGenre(child, 1))}
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <h2 className="text-xl font-black text-[#331F21] uppercase flex items-center gap-3">
+                    <Tags className="w-6 h-6" />
+                    Genres ({genres.length})
+                </h2>
+                <p className="text-xs font-bold opacity-40 uppercase">Used by search, moods, onboarding and tag pickers</p>
+            </div>
+
+            <form onSubmit={handleSave} className="bg-white border-4 border-[#331F21] rounded-2xl p-6 space-y-3 shadow-[4px_4px_0_#331F21]">
+                <div className="flex items-center justify-between">
+                    <p className="text-xs font-black uppercase text-[#331F21]">
+                        {editing ? `Editing ${editing.name}` : "New genre"}
+                    </p>
+                    {editing && (
+                        <Button type="button" variant="ghost" size="sm" onClick={cancelEdit} className="gap-1 text-xs font-bold uppercase">
+                            <X className="w-3 h-3" />
+                            Cancel
+                        </Button>
+                    )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <Input
+                        placeholder="Name, e.g. Shoegaze"
+                        value={form.name}
+                        onChange={(e) => setForm({ ...form, name: e.target.value })}
+                        className="border-2 border-[#331F21] rounded-xl"
+                    />
+                    <Input
+                        placeholder="Id (from name if blank)"
+                        value={editing ? editing.id : form.id}
+                        disabled={!!editing}
+                        onChange={(e) => setForm({ ...form, id: e.target.value })}
+                        className="border-2 border-[#331F21] rounded-xl font-mono text-xs"
+                    />
+                    {/* Two levels only: a genre with sub-genres stays top level */}
+                    <Select
+                        value={form.parentId}
+                        onValueChange={(v) => setForm({ ...form, parentId: v })}
+                        disabled={!!editing && childrenOf(editing.id).length > 0}
+                    >
+                        <SelectTrigger className="border-2 border-[#331F21] rounded-xl font-bold">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={NO_PARENT}>TOP LEVEL</SelectItem>
+                            {topLevel.filter(genre => genre.id !== editing?.id).map(genre => (
+                                <SelectItem key={genre.id} value={genre.id}>UNDER {genre.name.toUpperCase()}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <Input
+                    placeholder="Synonyms: radio-browser tags, comma separated"
+                    value={form.synonyms}
+                    onChange={(e) => setForm({ ...form, synonyms: e.target.value })}
+                    className="border-2 border-[#331F21] rounded-xl"
+                />
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_180px_auto_auto] gap-3 items-center">
+                    <Input
+                        placeholder="Exclude stations also in (genre ids)"
+                        value={form.excludes}
+                        onChange={(e) => setForm({ ...form, excludes: e.target.value })}
+                        className="border-2 border-[#331F21] rounded-xl"
+                    />
+                    <Input
+                        placeholder="Icon (lucide name)"
+                        value={form.icon}
+                        onChange={(e) => setForm({ ...form, icon: e.target.value })}
+                        className="border-2 border-[#331F21] rounded-xl"
+                    />
+                    <label className="flex items-center gap-2 text-[10px] font-black uppercase text-[#331F21]">
+                        <Switch checked={form.featured} onCheckedChange={(checked) => setForm({ ...form, featured: checked })} />
+                        Onboarding
+                    </label>
+                    <Button type="submit" disabled={saving} className="bg-[#331F21] text-white rounded-xl font-black uppercase text-xs gap-2">
+                        <Plus className="w-4 h-4" />
+                        {editing ? "Save Genre" : "Add Genre"}
+                    </Button>
+                </div>
+            </form>
+
+            <div className="bg-white border-4 border-[#331F21] rounded-2xl divide-y-2 divide-[#331F21]/10">
+                {topLevel.map(genre => renderGenre(genre))}
+            </div>
+
+            {/* --- MOODS --- */}
+            <div className="flex justify-between items-center pt-4">
+                <h2 className="text-xl font-black text-[#331F21] uppercase">Moods ({moods.length})</h2>
+                <p className="text-xs font-bold opacity-40 uppercase">Genre mixes on the Radio page</p>
+            </div>
+
+            <form onSubmit={handleAddMood} className="bg-white border-4 border-[#331F21] rounded-2xl p-6 grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-3 shadow-[4px_4px_0_#331F21]">
+                <Input
+                    placeholder="Mood name"
+                    value={moodName}
+                    onChange={(e) => setMoodName(e.target.value)}
+                    className="border-2 border-[#331F21] rounded-xl"
+                />
+                <Input
+                    placeholder="Genre ids, e.g. jazz, soul, folk"
+                    value={moodGenres}
+                    onChange={(e) => setMoodGenres(e.target.value)}
+                    className="border-2 border-[#331F21] rounded-xl"
+                />
+                <Button type="submit" disabled={saving} className="bg-[#331F21] text-white rounded-xl font-black uppercase text-xs gap-2">
+                    <Plus className="w-4 h-4" />
+                    {moodId ? "Save Mood" : "Add Mood"}
+                </Button>
+            </form>
+
+            <div className="bg-white border-4 border-[#331F21] rounded-2xl divide-y-2 divide-[#331F21]/10">
+                {moods.map(mood => (
+                    <div key={mood.id} className="flex items-center justify-between gap-4 p-4">
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setMoodId(mood.id);
+                                setMoodName(mood.name);
+                                setMoodGenres(mood.genres.join(', '));
+                            }}
+                            className="min-w-0 text-left"
+                        >
+                            <p className="font-black text-[#331F21] uppercase truncate">{mood.name}</p>
+                            <p className="text-xs font-medium text-[#331F21]/60">{mood.genres.join(', ')}</p>
+                        </button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            // "all" is the Radio page default
+                            disabled={saving || mood.id === 'all'}
+                            onClick={() => confirm(`Delete the "${mood.name}" mood?`) && run(() => deleteMood(mood.id), "Mood deleted", "Failed to delete mood")}
+                            className="text-red-500 hover:bg-red-50 shrink-0"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </Button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default GenreTaxonomyAdmin;
@@ -1,6 +1,6 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
-import { Headphones, Heart, Moon, Sun, Plus } from "lucide-react";
+import { AlarmClock, Headphones, Heart, Moon, Sun, Plus, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { UserAuth } from "@/components/UserAuth";
 import { useAudio } from "@/context/AudioContext";
@@ -13,6 +13,10 @@ import {
 } from "@/components/ui/dialog";
 import SavedStations from "@/components/SavedStations";
 import RequestStationForm from "@/components/RequestStationForm";
+import SettingsDialog from "@/components/SettingsDialog";
+import AlarmDialog from "@/components/AlarmDialog";
+import { useAlarms } from "@/hooks/useAlarms";
+import { formatAlarmTime, getNextAlarm } from "@/services/alarmClock";
 
 interface NavbarProps {
     isDarkMode: boolean;
@@ -22,9 +26,20 @@ interface NavbarProps {
 export const Navbar: React.FC<NavbarProps> = ({ isDarkMode, setIsDarkMode }) => {
     const location = useLocation();
     const navigate = useNavigate();
-    const { playStation } = useAudio();
+    const { playStation, alarmRinging } = useAudio();
     const [showSavedDialog, setShowSavedDialog] = useState(false);
     const [showSubmitDialog, setShowSubmitDialog] = useState(false);
+    const [showSettingsDialog, setShowSettingsDialog] = useState(false);
+    const [showAlarmDialog, setShowAlarmDialog] = useState(false);
+
+    // Next alarm indicator; the clock ticks so a rung alarm moves on to its next day
+    const alarms = useAlarms();
+    const [now, setNow] = useState(() => new Date());
+    useEffect(() => {
+        const interval = window.setInterval(() => setNow(new Date()), 30 * 1000);
+        return () => window.clearInterval(interval);
+    }, []);
+    const nextAlarm = getNextAlarm(alarms, now);
 
     const isActive = (path: string) => location.pathname === path;
 
@@ -92,6 +107,31 @@ export const Navbar: React.FC<NavbarProps> = ({ isDarkMode, setIsDarkMode }) =>
                             Submit Station
                         </Button>
 
+                        <Button
+                            variant="outline"
+                            onClick={() => setShowAlarmDialog(true)}
+                            className={`h-9 gap-2 px-2.5 border-2 rounded-lg transition-all hover:border-primary/50 ${alarmRinging ? 'animate-pulse border-[#331F21]' : ''}`}
+                            aria-label={nextAlarm ? `Alarms, next ${formatAlarmTime(nextAlarm.at, now)}` : "Alarms"}
+                            title="Alarms"
+                        >
+                            <AlarmClock className="w-4 h-4 text-slate-700 dark:text-foreground" />
+                            {nextAlarm && (
+                                <span className="hidden sm:inline text-xs font-bold text-[#331F21] dark:text-foreground">
+                                    {formatAlarmTime(nextAlarm.at, now)}
+                                </span>
+                            )}
+                        </Button>
+
+                        <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => setShowSettingsDialog(true)}
+                            className="border-2 rounded-lg w-9 h-9 transition-all hover:border-primary/50"
+                            aria-label="Settings"
+                        >
+                            <Settings className="w-4 h-4 text-slate-700 dark:text-foreground" />
+                        </Button>
+
                         <Button
                             variant="outline"
                             size="icon"
@@ -125,6 +165,8 @@ export const Navbar: React.FC<NavbarProps> = ({ isDarkMode, setIsDarkMode }) =>
             </Dialog>
 
             <RequestStationForm open={showSubmitDialog} onOpenChange={setShowSubmitDialog} />
+            <SettingsDialog open={showSettingsDialog} onOpenChange={setShowSettingsDialog} />
+            <AlarmDialog open={showAlarmDialog} onOpenChange={setShowAlarmDialog} />
         </header>
     );
 };
@@ -3,6 +3,7 @@ import { Mic, Music2, Disc3, Loader2, X, Play, Pause, ExternalLink, Activity } f
 import { Button } from "@/components/ui/button";
 import { identifySong, getAnalyserNode, type SongInfo } from "@/services/songIdentification";
 import { toast } from "sonner";
+import { TimeShiftBar } from "./TimeShiftBar";
 
 /**
  * Small canvas-based visualizer for song identification
@@ -124,7 +125,14 @@ interface NowPlayingProps {
   audioRef: React.RefObject<HTMLAudioElement>;
 }
 
-export const NowPlaying = ({ streamMetadata, isPlaying, stationName, audioRef }: NowPlayingProps) => {
+export const NowPlaying = (props: NowPlayingProps) => (
+  <>
+    <NowPlayingInfo {...props} />
+    <TimeShiftBar stationName={props.stationName} />
+  </>
+);
+
+const NowPlayingInfo = ({ streamMetadata, isPlaying, audioRef }: NowPlayingProps) => {
   const [isIdentifying, setIsIdentifying] = useState(false);
   const [identifiedSong, setIdentifiedSong] = useState<SongInfo | null>(null);
   const [identifyProgress, setIdentifyProgress] = useState<string>('');
@@ -1,6 +1,8 @@
-import { useEffect, useRef, useCallback, useState } from "react";
-import { toast } from "sonner";
+import { useEffect, useRef, useCallback } from "react";
 import { getAnalyserNode } from "@/services/songIdentification";
+import { PlayerMachine } from "@/services/playerMachine";
+import { attachStreamSource } from "@/services/playerMedia";
+import type { RadioStation } from "@/services/radioBrowserApi";
 
 interface RadioPlayerProps {
   isPlaying: boolean;
@@ -14,9 +16,21 @@ interface RadioPlayerProps {
   onLoadingEnd?: () => void;
 }
 
-// Connection timeout in milliseconds (5 seconds)
-const CONNECTION_TIMEOUT_MS = 5000;
-
+// This player only knows a URL; the machine wants a station
+const streamStation = (url: string): RadioStation => ({
+  stationuuid: url,
+  name: url,
+  url_resolved: url,
+  country: '',
+  countrycode: '',
+  tags: '',
+  favicon: '',
+});
+
+/**
+ * Standalone player for a bare stream URL, driven by the same PlayerMachine as AudioContext
+ * (quicker stages, no proxy handover: it plays on the element it renders).
+ */
 export const RadioPlayer = ({
   isPlaying,
   streamUrl,
@@ -28,19 +42,10 @@ export const RadioPlayer = ({
   onLoadingEnd,
   onMetadataChange,
 }: RadioPlayerProps) => {
-  const metadataIntervalRef = useRef<number | null>(null);
-  const connectionTimeoutRef = useRef<number | null>(null);
-  const isConnectingRef = useRef(false);
-  const hasConnectedRef = useRef(false);
-  const currentStreamUrlRef = useRef<string>('');
-
-  // Clear connection timeout
-  const clearConnectionTimeout = useCallback(() => {
-    if (connectionTimeoutRef.current) {
-      clearTimeout(connectionTimeoutRef.current);
-      connectionTimeoutRef.current = null;
-    }
-  }, []);
+  const machineRef = useRef<PlayerMachine<HTMLAudioElement> | null>(null);
+  // Latest callbacks for the machine listener, which outlives renders
+  const callbacksRef = useRef({ onStreamError, onStreamReady, onLoadingStart, onLoadingEnd });
+  callbacksRef.current = { onStreamError, onStreamReady, onLoadingStart, onLoadingEnd };
 
   // Try to extract metadata from the audio element
   const checkMetadata = useCallback(() => {
@@ -62,208 +67,84 @@ export const RadioPlayer = ({
     onMetadataChange?.(null);
   }, [onMetadataChange]);
 
-  // Handle volume changes
-  useEffect(() => {
-    if (audioRef.current) {
-      audioRef.current.volume = volume / 100;
-    }
-  }, [volume]);
-
-  // Handle play/pause and stream URL changes
+  // One machine for the rendered element
   useEffect(() => {
     const audio = audioRef.current;
     if (!audio) return;
 
-    // Handle successful connection
-    const handleCanPlay = () => {
-      console.log('Stream ready:', streamUrl);
-      clearConnectionTimeout();
-      isConnectingRef.current = false;
-      hasConnectedRef.current = true;
-      onLoadingEnd?.();
-      onStreamReady?.();
-      checkMetadata();
-    };
-
-    // Handle stream errors
-    const handleError = (e: Event) => {
-      console.error('Stream error for URL:', streamUrl, e);
-      if (!hasConnectedRef.current && !connectionTimeoutRef.current) {
-        clearConnectionTimeout();
-        isConnectingRef.current = false;
-        onLoadingEnd?.();
-        onStreamError?.();
+    const machine = new PlayerMachine<HTMLAudioElement>({
+      createMedia: () => audio,
+      attachSource: attachStreamSource,
+      config: { stageTimeoutMs: 3000, silenceLimit: 7, proxySessionMs: 0 },
+    });
+    machineRef.current = machine;
+
+    const unsubscribe = machine.subscribe((state, transition) => {
+      const callbacks = callbacksRef.current;
+      const wasLoading = transition.from === 'resolving' || transition.from === 'connecting';
+      if (state.status === 'resolving') {
+        callbacks.onLoadingStart?.();
+      } else if (wasLoading && (state.status === 'buffering' || state.status === 'playing')) {
+        callbacks.onLoadingEnd?.();
+        callbacks.onStreamReady?.();
+      } else if (state.status === 'failed') {
+        if (wasLoading) callbacks.onLoadingEnd?.();
+        callbacks.onStreamError?.();
+      } else if (state.status === 'idle' && wasLoading) {
+        callbacks.onLoadingEnd?.();
       }
-    };
+    });
 
-    // Handle stream stalled
-    const handleStalled = () => {
-      console.warn('Stream stalled:', streamUrl);
-    };
-
-    const handleLoadedMetadata = () => {
-      checkMetadata();
+    return () => {
+      unsubscribe();
+      machine.destroy();
+      machineRef.current = null;
     };
+  }, [audioRef]);
 
-    // Handle playing event (stream is definitely working)
-    const handlePlaying = () => {
-      console.log('Stream playing:', streamUrl);
-      clearConnectionTimeout();
-      isConnectingRef.current = false;
-      hasConnectedRef.current = true;
-      onLoadingEnd?.();
-    };
+  // Handle volume changes
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.volume = volume / 100;
+    }
+  }, [volume, audioRef]);
 
-    audio.addEventListener('error', handleError);
-    audio.addEventListener('canplay', handleCanPlay);
-    audio.addEventListener('stalled', handleStalled);
-    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
-    audio.addEventListener('playing', handlePlaying);
+  // Handle play/pause and stream URL changes
+  useEffect(() => {
+    const machine = machineRef.current;
+    if (!machine) return;
+    const state = machine.getState();
 
-    // Only change stream if URL changed or play state changed
     if (isPlaying && streamUrl) {
-      // Check if we need to load a new stream
-      if (currentStreamUrlRef.current !== streamUrl) {
-        currentStreamUrlRef.current = streamUrl;
-        hasConnectedRef.current = false;
-
-        // Define the stages
-        const STAGE_PROXY = 1;
-        const STAGE_DIRECT_ANON = 2;
-        const STAGE_DIRECT_UNRESTRICTED = 3;
-
-        let currentStage = STAGE_PROXY;
-
-        const attemptConnection = (stage: number) => {
-          if (hasConnectedRef.current || !isPlaying) return;
-
-          isConnectingRef.current = true;
-          onLoadingStart?.();
-
-          let finalUrl = streamUrl;
-
-          if (stage === STAGE_PROXY) {
-            audio.crossOrigin = 'anonymous';
-            audio.setAttribute('crossorigin', 'anonymous');
-            finalUrl = `/api/proxy?url=${encodeURIComponent(streamUrl)}`;
-            console.log('[RadioPlayer] Stage 1: Attempting Proxied Anonymous connect...');
-          } else if (stage === STAGE_DIRECT_ANON) {
-            audio.crossOrigin = 'anonymous';
-            audio.setAttribute('crossorigin', 'anonymous');
-            finalUrl = streamUrl;
-            console.log('[RadioPlayer] Stage 2: Attempting Direct Anonymous connect...');
-          } else {
-            audio.removeAttribute('crossorigin');
-            audio.crossOrigin = null;
-            finalUrl = streamUrl;
-            console.log('[RadioPlayer] Stage 3 (Final): Attempting Unrestricted connect...');
-          }
-
-          clearConnectionTimeout();
-          connectionTimeoutRef.current = window.setTimeout(() => {
-            if (!hasConnectedRef.current && isConnectingRef.current) {
-              console.warn(`[RadioPlayer] Stage ${stage} failed/timed out.`);
-
-              if (stage < STAGE_DIRECT_UNRESTRICTED) {
-                // Try next stage
-                attemptConnection(stage + 1);
-              } else {
-                // All stages failed
-                console.error('[RadioPlayer] All connection stages failed.');
-                isConnectingRef.current = false;
-                onLoadingEnd?.();
-                onStreamError?.();
-              }
-            }
-          }, 3000); // 3 seconds per stage
-
-          audio.src = finalUrl;
-          audio.load();
-          audio.play().catch(e => {
-            if (e.name === 'NotSupportedError' || e.name === 'SecurityError') {
-              console.warn(`[RadioPlayer] Stage ${stage} playback rejected.`, e.name);
-              if (stage < STAGE_DIRECT_UNRESTRICTED) {
-                attemptConnection(stage + 1);
-              }
-            }
-          });
-        };
-
-        attemptConnection(STAGE_PROXY);
-      } else {
-        // Just resume if URL is the same
-        audio.play().catch(() => { });
-      }
-
-      // Start metadata check interval if not already running
-      if (!metadataIntervalRef.current) {
-        metadataIntervalRef.current = window.setInterval(checkMetadata, 10000);
-      }
-    } else {
-      // Stop playback
-      clearConnectionTimeout();
-      isConnectingRef.current = false;
-      audio.pause();
-      onLoadingEnd?.();
-
-      if (metadataIntervalRef.current) {
-        clearInterval(metadataIntervalRef.current);
-        metadataIntervalRef.current = null;
+      if (state.status === 'idle' || state.status === 'failed' || state.station.url_resolved !== streamUrl) {
+        machine.send({ type: 'play', station: streamStation(streamUrl) });
       }
+    } else if (state.status !== 'idle') {
+      machine.send({ type: 'stop' });
     }
+  }, [isPlaying, streamUrl]);
 
-    // --- Silence Detection & Auto-Skip Logic ---
-    const silenceTimeoutRef = window.setInterval(() => {
+  // Metadata polling and silence detection while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const metadataInterval = window.setInterval(checkMetadata, 10000);
+    const silenceInterval = window.setInterval(() => {
       const analyser = getAnalyserNode();
-      if (!analyser || !isPlaying || !hasConnectedRef.current) return;
+      if (!analyser) return;
 
       const dataArray = new Uint8Array(analyser.frequencyBinCount);
       analyser.getByteTimeDomainData(dataArray);
-
-      let hasSignal = false;
-      for (let i = 0; i < dataArray.length; i++) {
-        // Offset 128 is the 'zero' for ByteTimeDomainData
-        if (Math.abs(dataArray[i] - 128) > 2) { // 2 is noise floor threshold
-          hasSignal = true;
-          break;
-        }
-      }
-
-      if (!hasSignal) {
-        // Increment silence counter (stored in a ref outside this effect if needed, 
-        // or just use a local count since setInterval is persistent)
-        if (!window.hasOwnProperty('_silenceCount')) (window as any)._silenceCount = 0;
-        (window as any)._silenceCount += 1;
-
-        if ((window as any)._silenceCount >= 7) { // 7 seconds (since interval is 1s)
-          console.warn('[RadioPlayer] 7s silence detected. Skipping station...');
-          (window as any)._silenceCount = 0;
-          onStreamError?.();
-        }
-      } else {
-        (window as any)._silenceCount = 0;
-      }
+      // Offset 128 is the 'zero' for ByteTimeDomainData; 2 is the noise floor
+      const silent = !dataArray.some(sample => Math.abs(sample - 128) > 2);
+      machineRef.current?.send({ type: 'signal', silent });
     }, 1000);
 
     return () => {
-      audio.removeEventListener('error', handleError);
-      audio.removeEventListener('canplay', handleCanPlay);
-      audio.removeEventListener('stalled', handleStalled);
-      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
-      audio.removeEventListener('playing', handlePlaying);
-      window.clearInterval(silenceTimeoutRef);
-    };
-  }, [isPlaying, streamUrl, onStreamError, onStreamReady, onLoadingStart, onLoadingEnd, checkMetadata, clearConnectionTimeout]);
-
-  // Cleanup on unmount only
-  useEffect(() => {
-    return () => {
-      clearConnectionTimeout();
-      if (metadataIntervalRef.current) {
-        clearInterval(metadataIntervalRef.current);
-      }
+      window.clearInterval(metadataInterval);
+      window.clearInterval(silenceInterval);
     };
-  }, [clearConnectionTimeout]);
+  }, [isPlaying, checkMetadata]);
 
   return <audio ref={audioRef} />;
 };
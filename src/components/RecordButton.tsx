@@ -0,0 +1,185 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { Circle, Library, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAudio } from "@/context/AudioContext";
+import RecordingsDialog from "@/components/RecordingsDialog";
+import {
+    deleteRecordingSchedule,
+    getRecordingSchedules,
+    saveRecordingSchedule,
+    subscribeToRecorder
+} from "@/services/recorder";
+
+const formatElapsed = (ms: number) => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// datetime-local wants local "YYYY-MM-DDTHH:MM"
+const toLocalInput = (at: number) => {
+    const date = new Date(at);
+    date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+    return date.toISOString().slice(0, 16);
+};
+
+interface RecordButtonProps {
+    // Styling for the trigger, to sit with the surrounding controls
+    className?: string;
+}
+
+/** Record button: start/stop now, schedule a window for the current station, and the library */
+export const RecordButton = ({ className = "" }: RecordButtonProps) => {
+    const { currentStation, recording, startRecording, stopRecording } = useAudio();
+    const schedules = useSyncExternalStore(subscribeToRecorder, getRecordingSchedules);
+    const [open, setOpen] = useState(false);
+    const [libraryOpen, setLibraryOpen] = useState(false);
+    const [splitOnTitle, setSplitOnTitle] = useState(true);
+    const [scheduleStart, setScheduleStart] = useState("");
+    const [scheduleMinutes, setScheduleMinutes] = useState("60");
+    const [now, setNow] = useState(Date.now());
+
+    // Tick the elapsed time
+    useEffect(() => {
+        if (!recording) return;
+        const interval = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(interval);
+    }, [recording]);
+
+    const handleStart = () => {
+        if (startRecording(splitOnTitle)) {
+            setNow(Date.now());
+            toast.success(splitOnTitle ? "Recording - a new file for every song" : "Recording");
+        }
+    };
+
+    const handleSchedule = (e: React.FormEvent) => {
+        e.preventDefault();
+        const startAt = new Date(scheduleStart).getTime();
+        const minutes = Number(scheduleMinutes);
+        if (!currentStation || !Number.isFinite(startAt) || !Number.isFinite(minutes) || minutes <= 0) return;
+        if (startAt + minutes * 60 * 1000 <= Date.now()) {
+            toast.error("That window is already over");
+            return;
+        }
+        saveRecordingSchedule({
+            id: crypto.randomUUID(),
+            station: currentStation,
+            startAt,
+            endAt: startAt + minutes * 60 * 1000,
+            splitOnTitle
+        });
+        setScheduleStart("");
+        toast.success(`Recording ${currentStation.name} at ${new Date(startAt).toLocaleString()}`);
+    };
+
+    return (
+        <>
+            <Popover open={open} onOpenChange={setOpen}>
+                <PopoverTrigger asChild>
+                    <Button variant="outline" className={`gap-2 ${className}`} aria-label="Record" title="Record">
+                        <Circle className={`w-4 h-4 ${recording ? 'fill-red-500 text-red-500 animate-pulse' : ''}`} />
+                        {recording && <span className="font-mono text-xs font-bold">{formatElapsed(now - recording.startedAt)}</span>}
+                    </Button>
+                </PopoverTrigger>
+                <PopoverContent className="z-[110] w-72 border-2 border-[#331F21] rounded-xl shadow-[4px_4px_0_#331F21] space-y-3">
+                    <p className="text-xs font-black uppercase tracking-wider">Record</p>
+
+                    {recording ? (
+                        <div className="space-y-2">
+                            <p className="text-xs truncate">
+                                <span className="font-bold">{recording.stationName}</span>
+                                {recording.splitOnTitle && ` · file ${recording.parts}: ${recording.partName}`}
+                            </p>
+                            <Button onClick={stopRecording} size="sm" className="w-full bg-[#331F21] hover:bg-[#4a2f32] text-white font-bold text-xs uppercase">
+                                Stop recording
+                            </Button>
+                        </div>
+                    ) : (
+                        <Button
+                            onClick={handleStart}
+                            size="sm"
+                            disabled={!currentStation}
+                            className="w-full bg-[#331F21] hover:bg-[#4a2f32] text-white font-bold text-xs uppercase"
+                        >
+                            Record now
+                        </Button>
+                    )}
+
+                    <div className="flex items-center justify-between gap-2">
+                        <Label htmlFor="record-split" className="text-xs font-bold">New file for every song</Label>
+                        <Switch id="record-split" checked={splitOnTitle} disabled={!!recording} onCheckedChange={setSplitOnTitle} />
+                    </div>
+
+                    {/* --- SCHEDULE --- */}
+                    <form onSubmit={handleSchedule} className="space-y-2 pt-3 border-t-2 border-[#331F21]/10">
+                        <p className="text-xs font-bold">Schedule {currentStation ? currentStation.name : "a station"}</p>
+                        <Input
+                            type="datetime-local"
+                            required
+                            min={toLocalInput(Date.now())}
+                            value={scheduleStart}
+                            onChange={(e) => setScheduleStart(e.target.value)}
+                            className="h-9 border-2 border-[#331F21] text-xs"
+                        />
+                        <div className="flex gap-2">
+                            <Input
+                                type="number"
+                                min={1}
+                                placeholder="Minutes"
+                                value={scheduleMinutes}
+                                onChange={(e) => setScheduleMinutes(e.target.value)}
+                                className="h-9 border-2 border-[#331F21]"
+                                aria-label="Length in minutes"
+                            />
+                            <Button
+                                type="submit"
+                                size="sm"
+                                disabled={!currentStation || !scheduleStart}
+                                className="h-9 bg-[#331F21] hover:bg-[#4a2f32] text-white font-bold text-xs"
+                            >
+                                Schedule
+                            </Button>
+                        </div>
+                        {schedules.map(schedule => (
+                            <div key={schedule.id} className="flex items-center justify-between gap-2 text-xs">
+                                <span className="truncate">
+                                    {new Date(schedule.startAt).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })} · {schedule.station.name}
+                                </span>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6 shrink-0"
+                                    onClick={() => deleteRecordingSchedule(schedule.id)}
+                                    aria-label="Cancel scheduled recording"
+                                >
+                                    <Trash2 className="w-3 h-3" />
+                                </Button>
+                            </div>
+                        ))}
+                        <p className="text-[10px] text-muted-foreground">Keep a tab open; scheduled recordings run from this browser.</p>
+                    </form>
+
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => { setLibraryOpen(true); setOpen(false); }}
+                        className="w-full gap-2 font-bold text-xs uppercase"
+                    >
+                        <Library className="w-4 h-4" />
+                        Recordings
+                    </Button>
+                </PopoverContent>
+            </Popover>
+            <RecordingsDialog open={libraryOpen} onOpenChange={setLibraryOpen} />
+        </>
+    );
+};
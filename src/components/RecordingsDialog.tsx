@@ -0,0 +1,84 @@
+import { Disc3, Download, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription
+} from "@/components/ui/dialog";
+import { useRecordings } from "@/hooks/useRecordings";
+import { deleteRecording, getRecordingFileName, type Recording } from "@/services/recorder";
+
+interface RecordingsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+const formatDuration = (ms: number) => {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+const formatSize = (bytes: number) =>
+    bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const download = (recording: Recording) => {
+    const url = URL.createObjectURL(recording.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getRecordingFileName(recording);
+    link.click();
+    // Give the download a moment to pick the blob up
+    window.setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
+
+const RecordingsDialog = ({ open, onOpenChange }: RecordingsDialogProps) => {
+    const recordings = useRecordings();
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[520px] max-h-[85vh] overflow-y-auto border-4 border-[#331F21] rounded-[2rem] shadow-[8px_8px_0_#331F21]">
+                <DialogHeader>
+                    <div className="flex items-center gap-3 mb-2">
+                        <div className="w-10 h-10 bg-[#E0CDCE] rounded-xl flex items-center justify-center border-2 border-[#331F21]">
+                            <Disc3 className="w-6 h-6 text-[#331F21]" />
+                        </div>
+                        <DialogTitle className="text-xl font-black uppercase tracking-tight">Recordings</DialogTitle>
+                    </div>
+                    <DialogDescription className="font-medium text-[#331F21]/60 dark:text-muted-foreground">
+                        Saved in this browser. Download the ones you want to keep.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <section className="space-y-2 py-2">
+                    {recordings.length === 0 ? (
+                        <p className="text-xs text-muted-foreground py-2">No recordings yet.</p>
+                    ) : recordings.map(recording => (
+                        <div key={recording.id} className="flex items-center justify-between gap-4 py-2 border-b border-[#331F21]/10 last:border-0">
+                            <div className="min-w-0">
+                                <p className="font-bold text-sm truncate">{recording.name}</p>
+                                <p className="text-xs text-muted-foreground truncate">
+                                    {recording.stationName} · {new Date(recording.startedAt).toLocaleString()} · {formatDuration(recording.durationMs)} · {formatSize(recording.size)}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-1 shrink-0">
+                                <Button variant="ghost" size="icon" onClick={() => download(recording)} aria-label="Download recording">
+                                    <Download className="w-4 h-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" onClick={() => deleteRecording(recording.id)} aria-label="Delete recording">
+                                    <Trash2 className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                </section>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default RecordingsDialog;
@@ -26,25 +26,28 @@ import {
     CommandList,
 } from "@/components/ui/command";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Radio, Loader2, Send, Check, ChevronsUpDown, X } from "lucide-react";
+import { Radio, Loader2, Send, Check, ChevronsUpDown, X, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import {
+    probeStream,
+    describeProbeProblem,
+    formatProbeSummary,
+    StreamProbeError,
+    type StreamProbeResult
+} from "@/services/streamProbe";
+import { useGenreTaxonomy } from "@/hooks/useGenreTaxonomy";
 
 interface RequestStationFormProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
 }
 
-const AVAILABLE_GENRES = [
-    "Rock", "Jazz", "Electronic", "Hip Hop", "Folk", "Punk", "Classical",
-    "Blues", "Indie", "Soul", "Metal", "Reggae", "Ambient", "World",
-    "Chillout", "Country", "Latin", "Funk", "Disco", "Pop"
-];
-
 const RequestStationForm = ({ open, onOpenChange }: RequestStationFormProps) => {
     const { user } = useAuth();
     const [loading, setLoading] = useState(false);
     const [popoverOpen, setPopoverOpen] = useState(false);
+    const availableGenres = useGenreTaxonomy().genres.map(genre => genre.name);
 
     // Form State
     const [name, setName] = useState("");
@@ -53,6 +56,35 @@ const RequestStationForm = ({ open, onOpenChange }: RequestStationFormProps) =>
     const [city, setCity] = useState("");
     const [country, setCountry] = useState("");
 
+    // Stream check
+    const [probing, setProbing] = useState(false);
+    const [probe, setProbe] = useState<StreamProbeResult | null>(null);
+    const [probeError, setProbeError] = useState<string | null>(null);
+
+    // Resolves with what this check found, so callers don't read state from an earlier render
+    const checkStream = async (streamUrl: string): Promise<{ result: StreamProbeResult | null; problem: string | null }> => {
+        if (!streamUrl.trim()) return { result: null, problem: null };
+        setProbing(true);
+        setProbeError(null);
+        try {
+            const result = await probeStream(streamUrl.trim());
+            const problem = describeProbeProblem(result);
+            setProbe(result);
+            setProbeError(problem);
+            if (!name && result.icy.name) setName(result.icy.name);
+            return { result, problem };
+        } catch (err) {
+            setProbe(null);
+            // Only a definite answer from the probe blocks submission
+            const problem = err instanceof StreamProbeError ? err.message : null;
+            if (problem) setProbeError(problem);
+            else console.warn("[Request] Stream probe unavailable:", err);
+            return { result: null, problem };
+        } finally {
+            setProbing(false);
+        }
+    };
+
     const toggleGenre = (genre: string) => {
         setSelectedGenres(prev =>
             prev.includes(genre)
@@ -76,6 +108,12 @@ const RequestStationForm = ({ open, onOpenChange }: RequestStationFormProps) =>
 
         setLoading(true);
         try {
+            const { problem } = await checkStream(url);
+            if (problem) {
+                toast.error(problem);
+                return;
+            }
+
             const { error } = await supabase
                 .from('station_requests')
                 .insert([{
@@ -100,6 +138,8 @@ const RequestStationForm = ({ open, onOpenChange }: RequestStationFormProps) =>
             setSelectedGenres([]);
             setCity("");
             setCountry("");
+            setProbe(null);
+            setProbeError(null);
         } catch (err) {
             console.error("Submission error:", err);
             toast.error("Failed to submit request. Please check the stream URL.");
@@ -142,10 +182,28 @@ const RequestStationForm = ({ open, onOpenChange }: RequestStationFormProps) =>
                                 id="stream-url"
                                 placeholder="https://example.com/stream.mp3"
                                 value={url}
-                                onChange={(e) => setUrl(e.target.value)}
+                                onChange={(e) => {
+                                    setUrl(e.target.value);
+                                    setProbe(null);
+                                    setProbeError(null);
+                                }}
+                                onBlur={() => checkStream(url)}
                                 className="border-2 border-[#331F21]"
                                 required
                             />
+                            {probing ? (
+                                <p className="text-xs font-medium text-[#331F21]/60 flex items-center gap-1">
+                                    <Loader2 className="w-3 h-3 animate-spin" /> Checking stream...
+                                </p>
+                            ) : probeError ? (
+                                <p className="text-xs font-bold text-red-600 flex items-center gap-1">
+                                    <AlertTriangle className="w-3 h-3" /> {probeError}
+                                </p>
+                            ) : probe && (
+                                <p className="text-xs font-bold text-green-700 flex items-center gap-1">
+                                    <Check className="w-3 h-3" /> {formatProbeSummary(probe)}
+                                </p>
+                            )}
                         </div>
 
                         <div className="space-y-2 col-span-2">
@@ -186,7 +244,7 @@ const RequestStationForm = ({ open, onOpenChange }: RequestStationFormProps) =>
                                             <CommandEmpty>No genre found.</CommandEmpty>
                                             <CommandGroup>
                                                 <div className="grid grid-cols-2 gap-1 p-1">
-                                                    {AVAILABLE_GENRES.map((genre) => (
+                                                    {availableGenres.map((genre) => (
                                                         <CommandItem
                                                             key={genre}
                                                             onSelect={() => toggleGenre(genre)}
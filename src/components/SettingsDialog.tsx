@@ -0,0 +1,278 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from "@/components/ui/select";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription
+} from "@/components/ui/dialog";
+import { Settings, EyeOff, Plus, RotateCcw, Shield, Radio } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/context/AuthContext";
+import { useAudio } from "@/context/AudioContext";
+import { getCountryFlag } from "@/services/radioBrowserApi";
+import {
+    contentFilterReady,
+    getEffectiveRules,
+    resetContentFilterOverrides,
+    setRuleHidden,
+    type ContentFilterKind,
+    type EffectiveFilterRule
+} from "@/services/contentFilter";
+import {
+    getReportingPreferences,
+    setReportingPreferences,
+    type ReportingPreferences
+} from "@/services/communityReporting";
+
+const TIME_SHIFT_OPTIONS = [
+    { minutes: 0, label: "Off" },
+    { minutes: 5, label: "5 minutes" },
+    { minutes: 15, label: "15 minutes" },
+    { minutes: 30, label: "30 minutes" },
+    { minutes: 60, label: "1 hour" },
+];
+
+interface SettingsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+const SettingsDialog = ({ open, onOpenChange }: SettingsDialogProps) => {
+    const { user } = useAuth();
+    const {
+        crossfadeSeconds,
+        setCrossfadeSeconds,
+        loudnessNormalization,
+        setLoudnessNormalization,
+        timeShiftMinutes,
+        setTimeShiftMinutes
+    } = useAudio();
+    const [rules, setRules] = useState<EffectiveFilterRule[]>([]);
+    const [newTag, setNewTag] = useState("");
+    const [saving, setSaving] = useState(false);
+    const [reporting, setReporting] = useState<ReportingPreferences>(getReportingPreferences);
+
+    useEffect(() => {
+        if (!open) return;
+        contentFilterReady().then(() => setRules(getEffectiveRules()));
+    }, [open, user?.id]);
+
+    const updateRule = async (kind: ContentFilterKind, value: string, hidden: boolean) => {
+        setSaving(true);
+        try {
+            await setRuleHidden(kind, value, hidden);
+        } catch (err) {
+            console.error("[Settings] Failed to save content filter:", err);
+            toast.error("Saved on this device only - couldn't sync to your account");
+        } finally {
+            setRules(getEffectiveRules());
+            setSaving(false);
+        }
+    };
+
+    const handleHideTag = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const tag = newTag.trim().toLowerCase();
+        if (!tag) return;
+        await updateRule('tag', tag, true);
+        setNewTag("");
+    };
+
+    const handleReset = async () => {
+        setSaving(true);
+        try {
+            await resetContentFilterOverrides();
+            toast.success("Content filters reset to defaults");
+        } catch (err) {
+            console.error("[Settings] Failed to reset content filter:", err);
+        } finally {
+            setRules(getEffectiveRules());
+            setSaving(false);
+        }
+    };
+
+    const renderRule = (rule: EffectiveFilterRule) => (
+        <div key={rule.key} className="flex items-center justify-between gap-4 py-2 border-b border-[#331F21]/10 last:border-0">
+            <div className="min-w-0">
+                <p className="font-bold text-sm truncate">
+                    {rule.kind === 'country' ? `${getCountryFlag(rule.value)} ${rule.value}` : rule.value}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                    {rule.reason}
+                    {rule.source === 'user' && rule.hiddenByDefault !== rule.hidden && " · changed by you"}
+                </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+                <Label htmlFor={`filter-${rule.key}`} className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+                    {rule.hidden ? "Hidden" : "Shown"}
+                </Label>
+                <Switch
+                    id={`filter-${rule.key}`}
+                    checked={rule.hidden}
+                    disabled={saving}
+                    onCheckedChange={(checked) => updateRule(rule.kind, rule.value, checked)}
+                />
+            </div>
+        </div>
+    );
+
+    const countryRules = rules.filter(rule => rule.kind === 'country');
+    const tagRules = rules.filter(rule => rule.kind === 'tag');
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[520px] max-h-[85vh] overflow-y-auto border-4 border-[#331F21] rounded-[2rem] shadow-[8px_8px_0_#331F21]">
+                <DialogHeader>
+                    <div className="flex items-center gap-3 mb-2">
+                        <div className="w-10 h-10 bg-[#E0CDCE] rounded-xl flex items-center justify-center border-2 border-[#331F21]">
+                            <Settings className="w-6 h-6 text-[#331F21]" />
+                        </div>
+                        <DialogTitle className="text-xl font-black uppercase tracking-tight">Settings</DialogTitle>
+                    </div>
+                    <DialogDescription className="font-medium text-[#331F21]/60 dark:text-muted-foreground">
+                        {user ? "Saved to your account." : "Saved on this device. Sign in to keep them everywhere."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {/* --- CONTENT FILTERS --- */}
+                <section className="space-y-4 py-2">
+                    <div className="flex items-center justify-between">
+                        <h3 className="flex items-center gap-2 text-sm font-black uppercase tracking-wider">
+                            <EyeOff className="w-4 h-4" />
+                            Content Filters
+                        </h3>
+                        <Button variant="ghost" size="sm" onClick={handleReset} disabled={saving} className="gap-1 text-xs font-bold uppercase">
+                            <RotateCcw className="w-3 h-3" />
+                            Defaults
+                        </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        Stations matching a hidden country or tag are left out of every search. Changes apply to your next search.
+                    </p>
+
+                    {countryRules.length > 0 && (
+                        <div>
+                            <p className="text-[10px] font-black uppercase tracking-widest text-muted-foreground mb-1">Countries</p>
+                            {countryRules.map(renderRule)}
+                        </div>
+                    )}
+
+                    <div>
+                        <p className="text-[10px] font-black uppercase tracking-widest text-muted-foreground mb-1">Tags</p>
+                        {tagRules.length > 0 ? tagRules.map(renderRule) : (
+                            <p className="text-xs text-muted-foreground py-2">Nothing hidden by tag.</p>
+                        )}
+                    </div>
+
+                    <form onSubmit={handleHideTag} className="flex gap-2">
+                        <Input
+                            placeholder="Hide another tag, e.g. christmas"
+                            value={newTag}
+                            onChange={(e) => setNewTag(e.target.value)}
+                            className="border-2 border-[#331F21]"
+                        />
+                        <Button type="submit" disabled={saving || !newTag.trim()} className="gap-1 bg-[#331F21] hover:bg-[#4a2f32] text-white">
+                            <Plus className="w-4 h-4" />
+                            Hide
+                        </Button>
+                    </form>
+                </section>
+
+                {/* --- PLAYBACK --- */}
+                <section className="space-y-4 py-2 border-t-2 border-[#331F21]/10">
+                    <h3 className="flex items-center gap-2 text-sm font-black uppercase tracking-wider pt-4">
+                        <Radio className="w-4 h-4" />
+                        Playback
+                    </h3>
+                    <p className="text-xs text-muted-foreground">
+                        The current station keeps playing while the next one tunes in, then fades across. Applies to this device.
+                    </p>
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-between gap-4">
+                            <Label htmlFor="crossfade" className="text-sm font-bold">Crossfade between stations</Label>
+                            <span className="text-xs font-bold text-muted-foreground">
+                                {crossfadeSeconds > 0 ? `${crossfadeSeconds}s` : "Off"}
+                            </span>
+                        </div>
+                        <Slider
+                            id="crossfade"
+                            value={[crossfadeSeconds]}
+                            onValueChange={(value) => setCrossfadeSeconds(value[0])}
+                            max={10}
+                            step={0.5}
+                        />
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <Label htmlFor="normalize-loudness" className="text-sm font-bold">Even out station volume</Label>
+                            <p className="text-xs text-muted-foreground">Learns how loud each station is, so you don't have to reach for the volume.</p>
+                        </div>
+                        <Switch
+                            id="normalize-loudness"
+                            checked={loudnessNormalization}
+                            onCheckedChange={setLoudnessNormalization}
+                        />
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                        <div>
+                            <Label className="text-sm font-bold">Pause & rewind buffer</Label>
+                            <p className="text-xs text-muted-foreground">Keeps recording the station while paused, so you can rewind and catch up.</p>
+                        </div>
+                        <Select value={String(timeShiftMinutes)} onValueChange={(value) => setTimeShiftMinutes(Number(value))}>
+                            <SelectTrigger className="w-32 shrink-0 border-2 border-[#331F21]">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {TIME_SHIFT_OPTIONS.map(option => (
+                                    <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </section>
+
+                {/* --- PRIVACY --- */}
+                <section className="space-y-4 py-2 border-t-2 border-[#331F21]/10">
+                    <h3 className="flex items-center gap-2 text-sm font-black uppercase tracking-wider pt-4">
+                        <Shield className="w-4 h-4" />
+                        Privacy
+                    </h3>
+                    <p className="text-xs text-muted-foreground">
+                        Station rankings come from the public radio-browser directory. These anonymous signals help good stations surface. Applies to this device.
+                    </p>
+                    <div className="flex items-center justify-between gap-4">
+                        <Label htmlFor="share-clicks" className="text-sm font-bold">Report stations I listen to</Label>
+                        <Switch
+                            id="share-clicks"
+                            checked={reporting.shareClicks}
+                            onCheckedChange={(checked) => setReporting(setReportingPreferences({ shareClicks: checked }))}
+                        />
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                        <Label htmlFor="vote-on-save" className="text-sm font-bold">Vote for stations I save</Label>
+                        <Switch
+                            id="vote-on-save"
+                            checked={reporting.voteOnSave}
+                            onCheckedChange={(checked) => setReporting(setReportingPreferences({ voteOnSave: checked }))}
+                        />
+                    </div>
+                </section>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default SettingsDialog;
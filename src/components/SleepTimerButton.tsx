@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { Moon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAudio } from "@/context/AudioContext";
+import { toast } from "sonner";
+
+const PRESET_MINUTES = [15, 30, 45, 60, 90];
+
+const formatRemaining = (ms: number) => {
+    const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+interface SleepTimerButtonProps {
+    // Styling for the trigger, to sit with the surrounding controls
+    className?: string;
+}
+
+/** Moon button with sleep timer presets; shows the countdown while one is set */
+export const SleepTimerButton = ({ className = "" }: SleepTimerButtonProps) => {
+    const { sleepTimer, startSleepTimer, cancelSleepTimer, streamMetadata } = useAudio();
+    const [open, setOpen] = useState(false);
+    const [customMinutes, setCustomMinutes] = useState("");
+    const [now, setNow] = useState(Date.now());
+
+    // Tick the countdown
+    useEffect(() => {
+        if (sleepTimer?.mode !== 'duration') return;
+        const interval = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => window.clearInterval(interval);
+    }, [sleepTimer]);
+
+    const label = !sleepTimer ? null
+        : sleepTimer.mode === 'song' ? "END OF SONG"
+        : formatRemaining(sleepTimer.endsAt - now);
+
+    const start = (duration: number | 'song') => {
+        startSleepTimer(duration);
+        setNow(Date.now());
+        setOpen(false);
+        toast.success(duration === 'song'
+            ? "Stopping after this song"
+            : `Stopping in ${duration} minute${duration === 1 ? '' : 's'}`);
+    };
+
+    const handleCustom = (e: React.FormEvent) => {
+        e.preventDefault();
+        const minutes = Number(customMinutes);
+        if (!Number.isFinite(minutes) || minutes <= 0) return;
+        start(minutes);
+        setCustomMinutes("");
+    };
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button variant="outline" className={`gap-2 ${className}`} aria-label="Sleep timer" title="Sleep timer">
+                    <Moon className={`w-4 h-4 ${sleepTimer ? 'fill-current' : ''}`} />
+                    {label && <span className="font-mono text-xs font-bold">{label}</span>}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="z-[110] w-64 border-2 border-[#331F21] rounded-xl shadow-[4px_4px_0_#331F21] space-y-3">
+                <p className="text-xs font-black uppercase tracking-wider">Sleep Timer</p>
+                <div className="grid grid-cols-3 gap-2">
+                    {PRESET_MINUTES.map(minutes => (
+                        <Button key={minutes} variant="outline" size="sm" onClick={() => start(minutes)} className="font-bold text-xs">
+                            {minutes}m
+                        </Button>
+                    ))}
+                </div>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => start('song')}
+                    disabled={!streamMetadata}
+                    className="w-full font-bold text-xs"
+                    title={streamMetadata ? undefined : "This station doesn't send song titles"}
+                >
+                    End of current song
+                </Button>
+                <form onSubmit={handleCustom} className="flex gap-2">
+                    <Input
+                        type="number"
+                        min={1}
+                        placeholder="Minutes"
+                        value={customMinutes}
+                        onChange={(e) => setCustomMinutes(e.target.value)}
+                        className="h-9 border-2 border-[#331F21]"
+                    />
+                    <Button type="submit" size="sm" disabled={!customMinutes} className="h-9 bg-[#331F21] hover:bg-[#4a2f32] text-white font-bold text-xs">
+                        Set
+                    </Button>
+                </form>
+                {sleepTimer && (
+                    <Button variant="ghost" size="sm" onClick={() => { cancelSleepTimer(); setOpen(false); }} className="w-full font-bold text-xs uppercase">
+                        Cancel timer
+                    </Button>
+                )}
+            </PopoverContent>
+        </Popover>
+    );
+};
@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { Link2, Loader2, Plus, Trash2, Activity } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useAuth } from "@/context/AuthContext";
+import { probeStream, describeProbeProblem, formatProbeSummary } from "@/services/streamProbe";
+import {
+    deleteStreamOverride,
+    getStreamOverrides,
+    saveStreamOverride,
+    type StreamUrlOverride
+} from "@/services/streamOverrides";
+
+type MatchType = 'uuid' | 'pattern';
+
+/** Admin editor for stream_url_overrides: fix broken radio-browser streams without a redeploy */
+const StreamOverridesAdmin = () => {
+    const { profile } = useAuth();
+    const [overrides, setOverrides] = useState<StreamUrlOverride[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [testing, setTesting] = useState(false);
+
+    // New override form
+    const [matchType, setMatchType] = useState<MatchType>('uuid');
+    const [matchValue, setMatchValue] = useState("");
+    const [replacementUrl, setReplacementUrl] = useState("");
+    const [reason, setReason] = useState("");
+    const [expiresOn, setExpiresOn] = useState("");
+
+    useEffect(() => {
+        getStreamOverrides().then(rows => {
+            setOverrides(rows);
+            setLoading(false);
+        });
+    }, []);
+
+    const handleTest = async () => {
+        if (!replacementUrl.trim()) return;
+        setTesting(true);
+        try {
+            const probe = await probeStream(replacementUrl.trim());
+            const problem = describeProbeProblem(probe);
+            if (problem) toast.error(problem);
+            else toast.success(`Stream OK: ${formatProbeSummary(probe)}`);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Stream check failed");
+        } finally {
+            setTesting(false);
+        }
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!profile) return;
+        if (!matchValue.trim() || !replacementUrl.trim() || !reason.trim()) {
+            toast.error("Match, replacement URL and reason are required");
+            return;
+        }
+
+        setSaving(true);
+        try {
+            await saveStreamOverride({
+                stationUuid: matchType === 'uuid' ? matchValue.trim() : null,
+                urlPattern: matchType === 'pattern' ? matchValue.trim() : null,
+                replacementUrl: replacementUrl.trim(),
+                reason: reason.trim(),
+                // End of the chosen day, local time
+                expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null
+            }, profile.id);
+            setOverrides(await getStreamOverrides());
+            toast.success("Override saved - applies to the next search");
+            setMatchValue("");
+            setReplacementUrl("");
+            setReason("");
+            setExpiresOn("");
+        } catch (err) {
+            console.error("[Stream Overrides] Failed to save override:", err);
+            toast.error("Failed to save override");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (override: StreamUrlOverride) => {
+        if (!override.id || !confirm("Remove this stream override?")) return;
+        setSaving(true);
+        try {
+            await deleteStreamOverride(override.id);
+            setOverrides(await getStreamOverrides());
+            toast.success("Override removed");
+        } catch (err) {
+            console.error("[Stream Overrides] Failed to delete override:", err);
+            toast.error("Failed to delete override");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const isExpired = (override: StreamUrlOverride) =>
+        !!override.expiresAt && new Date(override.expiresAt).getTime() <= Date.now();
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <h2 className="text-xl font-black text-[#331F21] uppercase flex items-center gap-3">
+                    <Link2 className="w-6 h-6" />
+                    Stream Overrides ({overrides.length})
+                </h2>
+                <p className="text-xs font-bold opacity-40 uppercase">Replace broken stream URLs</p>
+            </div>
+
+            <form onSubmit={handleAdd} className="bg-white border-4 border-[#331F21] rounded-2xl p-6 space-y-3 shadow-[4px_4px_0_#331F21]">
+                <div className="grid grid-cols-1 md:grid-cols-[160px_1fr] gap-3">
+                    <Select value={matchType} onValueChange={(v) => setMatchType(v as MatchType)}>
+                        <SelectTrigger className="border-2 border-[#331F21] rounded-xl font-bold">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="uuid">STATION UUID</SelectItem>
+                            <SelectItem value="pattern">URL PATTERN</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Input
+                        placeholder={matchType === 'uuid' ? "radio-browser stationuuid" : "e.g. *somafm.com/indiepop*"}
+                        value={matchValue}
+                        onChange={(e) => setMatchValue(e.target.value)}
+                        className="border-2 border-[#331F21] rounded-xl font-mono text-xs"
+                    />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3">
+                    <Input
+                        placeholder="Replacement stream URL"
+                        value={replacementUrl}
+                        onChange={(e) => setReplacementUrl(e.target.value)}
+                        className="border-2 border-[#331F21] rounded-xl font-mono text-xs"
+                    />
+                    <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleTest}
+                        disabled={testing || !replacementUrl.trim()}
+                        className="border-2 border-[#331F21] rounded-xl font-black uppercase text-xs gap-2"
+                    >
+                        {testing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Activity className="w-4 h-4" />}
+                        Test Stream
+                    </Button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_180px_auto] gap-3">
+                    <Input
+                        placeholder="Reason (e.g. mount moved to /live)"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        className="border-2 border-[#331F21] rounded-xl"
+                    />
+                    <Input
+                        type="date"
+                        value={expiresOn}
+                        onChange={(e) => setExpiresOn(e.target.value)}
+                        className="border-2 border-[#331F21] rounded-xl"
+                        title="Expires (optional)"
+                    />
+                    <Button type="submit" disabled={saving} className="bg-[#331F21] text-white rounded-xl font-black uppercase text-xs gap-2">
+                        <Plus className="w-4 h-4" />
+                        Add Override
+                    </Button>
+                </div>
+            </form>
+
+            {loading ? (
+                <div className="flex justify-center p-12">
+                    <Loader2 className="w-8 h-8 animate-spin text-[#331F21]" />
+                </div>
+            ) : overrides.length === 0 ? (
+                <div className="bg-white border-4 border-[#331F21] rounded-3xl p-16 flex flex-col items-center justify-center text-center opacity-40">
+                    <Link2 className="w-16 h-16 mb-4" />
+                    <p className="font-black text-xl uppercase">No overrides</p>
+                </div>
+            ) : (
+                <div className="bg-white border-4 border-[#331F21] rounded-2xl divide-y-2 divide-[#331F21]/10">
+                    {overrides.map(override => (
+                        <div key={override.id || override.urlPattern || override.stationUuid} className={cn("flex items-start justify-between gap-4 p-4", isExpired(override) && "opacity-50")}>
+                            <div className="min-w-0 space-y-1">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-[8px] font-black uppercase px-2 py-0.5 rounded bg-[#331F21]/5 border border-[#331F21]/10">
+                                        {override.stationUuid ? 'uuid' : 'pattern'}
+                                    </span>
+                                    <p className="font-mono text-xs font-bold text-[#331F21] truncate">{override.stationUuid || override.urlPattern}</p>
+                                    {isExpired(override) && (
+                                        <span className="text-[8px] font-black uppercase px-2 py-0.5 rounded bg-yellow-100 text-yellow-700">expired</span>
+                                    )}
+                                </div>
+                                <p className="font-mono text-[11px] text-[#331F21]/70 truncate">→ {override.replacementUrl}</p>
+                                <p className="text-xs font-medium text-[#331F21]/60">{override.reason}</p>
+                                <p className="text-[9px] font-bold text-[#331F21]/30 uppercase">
+                                    {override.createdBy ? `By ${override.createdBy.substring(0, 8)}...` : 'Built-in'}
+                                    {override.createdAt && ` · ${new Date(override.createdAt).toLocaleDateString()}`}
+                                    {override.expiresAt ? ` · Expires ${new Date(override.expiresAt).toLocaleDateString()}` : ' · No expiry'}
+                                </p>
+                            </div>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                disabled={saving || !override.id}
+                                onClick={() => handleDelete(override)}
+                                className="text-red-500 hover:bg-red-50 shrink-0"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StreamOverridesAdmin;
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { RotateCcw } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { useAudio } from "@/context/AudioContext";
+import { useTimeShiftStatus } from "@/hooks/useTimeShiftStatus";
+import { jumpToLive, rewindTimeShift, seekTimeShift } from "@/services/timeShift";
+
+const REWIND_SECONDS = 30;
+// Not worth showing the bar for the first moments of a station
+const MIN_BUFFER_MS = 5000;
+
+const formatDuration = (ms: number) => {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+interface TimeShiftBarProps {
+    // Only the station that's actually playing has a buffer
+    stationName: string;
+}
+
+/** Timeline of the time-shift buffer: how far behind live, where titles changed, rewind and back to live */
+export const TimeShiftBar = ({ stationName }: TimeShiftBarProps) => {
+    const { currentStation } = useAudio();
+    const status = useTimeShiftStatus();
+    // While dragging the position is ours, not the buffer's
+    const [dragValue, setDragValue] = useState<number | null>(null);
+
+    if (!status.enabled || status.bufferedMs < MIN_BUFFER_MS || currentStation?.name !== stationName) return null;
+
+    const { bufferedMs, delayMs, shifted } = status;
+    const position = dragValue ?? bufferedMs - delayMs;
+
+    return (
+        <div className="max-w-md mx-auto w-full mb-4 space-y-1">
+            {/* --- TITLE MARKERS --- */}
+            <div className="relative h-2 mx-[10px]">
+                {status.markers.map((marker, i) => (
+                    <button
+                        key={i}
+                        onClick={() => seekTimeShift(marker.agoMs)}
+                        className="absolute top-0 w-1 h-2 -ml-0.5 rounded-sm bg-[#331F21]/40 hover:bg-[#331F21]"
+                        style={{ left: `${(1 - marker.agoMs / bufferedMs) * 100}%` }}
+                        title={`${marker.title || "Untitled"} (${formatDuration(marker.agoMs)} ago)`}
+                        aria-label={`Jump to ${marker.title || "title change"}`}
+                    />
+                ))}
+            </div>
+
+            <div className="flex items-center gap-3">
+                <button
+                    onClick={() => rewindTimeShift(REWIND_SECONDS)}
+                    className="flex items-center gap-1 shrink-0 text-[10px] font-black text-[#331F21] hover:opacity-70"
+                    title={`Back ${REWIND_SECONDS} seconds`}
+                >
+                    <RotateCcw className="w-4 h-4" />
+                    {REWIND_SECONDS}
+                </button>
+                <Slider
+                    min={0}
+                    max={bufferedMs}
+                    step={1000}
+                    value={[position]}
+                    onValueChange={([value]) => setDragValue(value)}
+                    onValueCommit={([value]) => {
+                        seekTimeShift(bufferedMs - value);
+                        setDragValue(null);
+                    }}
+                    aria-label="Position in the buffer"
+                />
+                <button
+                    onClick={jumpToLive}
+                    disabled={!shifted}
+                    className="flex items-center gap-1.5 shrink-0 font-mono text-[10px] font-black text-[#331F21] disabled:cursor-default"
+                    title={shifted ? "Jump to live" : "Live"}
+                >
+                    <span className={`w-2 h-2 rounded-full ${shifted ? 'bg-[#331F21]/30' : 'bg-red-500 animate-pulse'}`} />
+                    {shifted ? `-${formatDuration(bufferedMs - position)}` : "LIVE"}
+                </button>
+            </div>
+            <p className="text-[10px] font-bold uppercase text-[#331F21]/50 text-center">
+                {status.paused ? "Paused - still recording" : `${formatDuration(bufferedMs)} buffered`}
+            </p>
+        </div>
+    );
+};
@@ -3,7 +3,22 @@ import { useLocation } from 'react-router-dom';
 import { RadioStation } from '@/services/radioBrowserApi';
 import { toast } from 'sonner';
 import { getAnalyserNode, initializeAudioTap } from "@/services/songIdentification";
-import { sanitizeStreamUrl } from "@/services/urlSanitizer";
+import { subscribeToStreamMetadata } from "@/services/streamMetadata";
+import { describeProxyError, fetchProxyError } from "@/services/proxyErrors";
+import { cancelStationClick, reportStationClick } from "@/services/communityReporting";
+import { PlayerMachine, type PlayerState } from "@/services/playerMachine";
+import { attachStreamSource, createPlayerAudio, isProxiedSource, resolvePlayableUrls } from "@/services/playerMedia";
+import { createCrossfadeMixer, type CrossfadeMixer } from "@/services/audioMixer";
+import { checkStationReachable, findPlayableIndex, getUpcomingStations } from "@/services/stationPrefetch";
+import { useSleepTimer, type SleepTimer } from "@/hooks/useSleepTimer";
+import { useAlarmClock } from "@/hooks/useAlarmClock";
+import { useLoudnessNormalization } from "@/hooks/useLoudnessNormalization";
+import { useTimeShift } from "@/hooks/useTimeShift";
+import { useRecorder } from "@/hooks/useRecorder";
+import type { ActiveRecording } from "@/services/recorder";
+import { canTimeShift, getTimeShiftMode, jumpToLive, pauseTimeShift, resumeTimeShift } from "@/services/timeShift";
+import type { Alarm } from "@/services/alarmClock";
+import { selectEffectsStation } from "@/services/audioEffects";
 
 export interface RadioState {
     station: RadioStation | null;
@@ -19,6 +34,18 @@ interface AudioContextType {
     loading: boolean;
     isConnecting: boolean;
     activeMode: 'home' | 'explore';
+    // Where the playback state machine is (connecting, stalled, ...)
+    playerState: PlayerState;
+    // Length of the crossfade between stations; 0 cuts straight over
+    crossfadeSeconds: number;
+    // Even out loudness between stations with a learned per-station gain
+    loudnessNormalization: boolean;
+    // Length of the rolling buffer that pause/rewind play from; 0 turns it off
+    timeShiftMinutes: number;
+    // Listening behind live (or paused while the stream keeps recording)
+    timeShifted: boolean;
+    recording: ActiveRecording | null;
+    sleepTimer: SleepTimer | null;
 
     // Mode States
     homeRadio: RadioState;
@@ -39,6 +66,18 @@ interface AudioContextType {
     setStations: (stations: RadioStation[], mode?: 'home' | 'explore') => void;
     handleStreamError: () => void;
     setVolume: (volume: number) => void;
+    setCrossfadeSeconds: (seconds: number) => void;
+    setLoudnessNormalization: (enabled: boolean) => void;
+    setTimeShiftMinutes: (minutes: number) => void;
+    // Record the playing station, optionally one file per song; false when it couldn't start
+    startRecording: (splitOnTitle: boolean) => boolean;
+    stopRecording: () => void;
+    // Minutes, or 'song' to stop when the current song ends
+    startSleepTimer: (duration: number | 'song') => void;
+    cancelSleepTimer: () => void;
+    // The alarm currently waking the user up (ramping in, or chiming)
+    alarmRinging: Alarm | null;
+    dismissAlarm: () => void;
 
     // Audio Element Reference
     audioRef: React.RefObject<HTMLAudioElement>;
@@ -46,6 +85,40 @@ interface AudioContextType {
 
 const AudioContext = createContext<AudioContextType | undefined>(undefined);
 
+// Serverless proxy responses are cut off at the function's max duration (Vercel default 300s).
+// Proxied streams hand over to a fresh connection shortly before that.
+const PROXY_SESSION_MS = (Number(import.meta.env.VITE_PROXY_MAX_SESSION_SECONDS) || 300) * 1000;
+const HANDOVER_LEAD_MS = 15000;
+const DEFAULT_CROSSFADE_SECONDS = 3;
+// Opt-in: the buffer writes a second of PCM to IndexedDB every second while playing
+const DEFAULT_TIME_SHIFT_MINUTES = 0;
+// The static bed sits under the stations' volume
+const STATIC_BED_LEVEL = 0.6;
+
+const isSameStream = (a: RadioStation, b: RadioStation) =>
+    a.stationuuid === b.stationuuid && a.url_resolved === b.url_resolved;
+
+const announceFailure = (state: Extract<PlayerState, { status: 'failed' }>) => {
+    if (state.reason === 'silence') {
+        toast.info("Silence detected, skipping...");
+    } else if (state.reason === 'stall') {
+        toast.info("Stream stalled, finding new station...");
+    } else {
+        const stationName = state.station.name;
+        // Proxied streams: ask the proxy why (blocked host, rate limit, DNS...)
+        fetchProxyError(state.lastError?.src || '').then(proxyError => {
+            if (proxyError) {
+                toast.error(`Connection failed for ${stationName}. ${describeProxyError(proxyError)}`);
+            } else if (state.lastError && window.location.hostname === 'localhost') {
+                // Show more info in dev
+                toast.error(`Playback failed for ${stationName}: ${state.lastError.message}. Check if /api/proxy is running.`);
+            } else {
+                toast.info("Station unavailable, skipping...");
+            }
+        });
+    }
+};
+
 export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     // Mode State
     const [activeMode, setActiveMode] = useState<'home' | 'explore'>('home');
@@ -72,7 +145,19 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     });
 
     const [volume, setVolume] = useState(75);
-    const [isConnecting, setIsConnecting] = useState(false);
+    const [crossfadeSeconds, setCrossfadeSeconds] = useState<number>(() => {
+        const saved = localStorage.getItem('crossfadeSeconds');
+        return saved !== null && !Number.isNaN(Number(saved)) ? Number(saved) : DEFAULT_CROSSFADE_SECONDS;
+    });
+    const [loudnessNormalization, setLoudnessNormalization] = useState<boolean>(() =>
+        localStorage.getItem('loudnessNormalization') !== 'false'
+    );
+    const [timeShiftMinutes, setTimeShiftMinutes] = useState<number>(() => {
+        const saved = localStorage.getItem('timeShiftMinutes');
+        return saved !== null && !Number.isNaN(Number(saved)) ? Number(saved) : DEFAULT_TIME_SHIFT_MINUTES;
+    });
+    const [playerState, setPlayerState] = useState<PlayerState>({ status: 'idle' });
+    const isConnecting = playerState.status === 'resolving' || playerState.status === 'connecting';
 
     // Pointer to active/audible radio
     const activeRadio = activeMode === 'home' ? homeRadio : exploreRadio;
@@ -82,65 +167,80 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     const location = useLocation();
 
     const metadataIntervalRef = useRef<number | null>(null);
-    const connectionTimeoutRef = useRef<number | null>(null);
-    const hardTimeoutRef = useRef<number | null>(null);
-    const stallTimeoutRef = useRef<number | null>(null);
-    const hasConnectedRef = useRef(false);
-    const isConnectingRef = useRef(false);
-    const currentStreamUrlRef = useRef<string>('');
-
-    // Refs for Stability
-    const isPlayingRef = useRef(isPlaying);
-    isPlayingRef.current = isPlaying;
-    const stationsRef = useRef(stations);
-    stationsRef.current = stations;
-    const currentStationRef = useRef(currentStation);
-    currentStationRef.current = currentStation;
-
-    const clearTimeouts = useCallback(() => {
-        if (connectionTimeoutRef.current) {
-            clearTimeout(connectionTimeoutRef.current);
-            connectionTimeoutRef.current = null;
-        }
-        if (hardTimeoutRef.current) {
-            clearTimeout(hardTimeoutRef.current);
-            hardTimeoutRef.current = null;
-        }
-        if (stallTimeoutRef.current) {
-            clearTimeout(stallTimeoutRef.current);
-            stallTimeoutRef.current = null;
+    const machineRef = useRef<PlayerMachine<HTMLAudioElement> | null>(null);
+    const mixerRef = useRef<CrossfadeMixer | null>(null);
+
+    // The machine outlives renders; it always reaches the latest nextStation through this ref
+    const nextStationRef = useRef<() => void>(() => { });
+    // A ringing alarm handles its own failures (fallback chime) instead of skipping
+    const alarmFailureRef = useRef<() => boolean>(() => false);
+    const stopPlaybackRef = useRef<() => void>(() => { });
+
+    const getMachine = useCallback(() => {
+        if (!machineRef.current) {
+            mixerRef.current = createCrossfadeMixer();
+            machineRef.current = new PlayerMachine<HTMLAudioElement>({
+                createMedia: createPlayerAudio,
+                attachSource: attachStreamSource,
+                resolveCandidates: resolvePlayableUrls,
+                needsHandover: isProxiedSource,
+                // A handover or crossfade swapped in a new element: move the tap graph and the ref over
+                onMediaChange: (media) => {
+                    initializeAudioTap(media);
+                    audioRef.current = media;
+                },
+                mixer: mixerRef.current,
+                config: { proxySessionMs: PROXY_SESSION_MS, handoverLeadMs: HANDOVER_LEAD_MS }
+            });
+            audioRef.current = machineRef.current.getMedia();
         }
+        return machineRef.current;
     }, []);
 
-    const forceSkip = useCallback((reason: string) => {
-        console.warn(`[AudioContext] Force skip triggered: ${reason}`);
-        if (audioRef.current) {
-            audioRef.current.pause();
-            audioRef.current.src = "";
-            audioRef.current.load(); // Forces cleanup of pending requests
+    // Mirror the machine into React state and react to its outcomes
+    useEffect(() => {
+        const machine = getMachine();
+        setPlayerState(machine.getState());
+        return machine.subscribe((state, transition) => {
+            setPlayerState(state);
+            if (state.status === 'playing' && transition.from !== 'playing') {
+                // Count the listen with radio-browser (debounced, once per station per session)
+                reportStationClick(state.station);
+            }
+            if (state.status === 'failed') {
+                if (alarmFailureRef.current()) return;
+                // Paused in the time-shift buffer: the listener didn't ask for another station
+                if (getTimeShiftMode().paused) {
+                    toast.info(`${state.station.name} dropped while paused`);
+                    stopPlaybackRef.current();
+                    return;
+                }
+                announceFailure(state);
+                nextStationRef.current();
+            }
+        });
+    }, [getMachine]);
+
+    const setMetadataForMode = useCallback((mode: 'home' | 'explore', metaString: string | null) => {
+        if (mode === 'home') {
+            setHomeRadio(prev => prev.streamMetadata === metaString ? prev : { ...prev, streamMetadata: metaString });
+        } else {
+            setExploreRadio(prev => prev.streamMetadata === metaString ? prev : { ...prev, streamMetadata: metaString });
         }
-        clearTimeouts();
-        setIsConnecting(false);
-        isConnectingRef.current = false;
-        toast.info(reason === 'timeout' ? "Station taking too long, skipping..." : "Stream stalled, finding new station...");
-        nextStation();
-    }, [clearTimeouts]);
+    }, []);
 
+    // Fallback for the rare browsers/streams that populate the Media Session themselves
     const checkMetadata = useCallback(() => {
         if (!audioRef.current) return;
         if ('mediaSession' in navigator && navigator.mediaSession.metadata) {
             const meta = navigator.mediaSession.metadata;
             if (meta.title || meta.artist) {
                 const metaString = meta.artist ? `${meta.artist} - ${meta.title}` : meta.title;
-                if (activeMode === 'home') {
-                    setHomeRadio(prev => ({ ...prev, streamMetadata: metaString }));
-                } else {
-                    setExploreRadio(prev => ({ ...prev, streamMetadata: metaString }));
-                }
+                setMetadataForMode(activeMode, metaString);
                 return;
             }
         }
-    }, [activeMode]);
+    }, [activeMode, setMetadataForMode]);
 
     const setIsPlayingActive = useCallback((val: boolean) => {
         if (activeMode === 'home') {
@@ -150,226 +250,158 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         }
     }, [activeMode]);
 
-    const setStationIndexActive = useCallback((idx: number) => {
-        if (activeMode === 'home') {
-            setHomeRadio(prev => ({ ...prev, currentStationIndex: idx }));
-        } else {
-            setExploreRadio(prev => ({ ...prev, currentStationIndex: idx }));
-        }
-    }, [activeMode]);
-
-    // Initialize Audio Object Once
+    // Handle Playback Logic
     useEffect(() => {
-        if (!audioRef.current) {
-            audioRef.current = new Audio();
-            audioRef.current.volume = volume / 100;
-            audioRef.current.preload = "none";
-            // Set crossOrigin to anonymous by default so visualizers can access data
-            audioRef.current.crossOrigin = "anonymous";
-        }
-
-        const audio = audioRef.current;
-
-        const handleCanPlay = () => {
-            clearTimeouts();
-            setIsConnecting(false);
-            isConnectingRef.current = false;
-            hasConnectedRef.current = true;
-            checkMetadata();
-        };
-
-        const handlePlaying = () => {
-            clearTimeouts();
-            setIsConnecting(false);
-            isConnectingRef.current = false;
-            hasConnectedRef.current = true;
-        };
-
-        const handleWaiting = () => {
-            // Only trigger stall detection if we had already successfully connected once
-            if (hasConnectedRef.current && !stallTimeoutRef.current) {
-                stallTimeoutRef.current = window.setTimeout(() => {
-                    forceSkip('stall');
-                }, 5000);
-            }
-        };
+        const machine = getMachine();
+        const state = machine.getState();
 
-        const handleStalled = () => {
-            if (hasConnectedRef.current && !stallTimeoutRef.current) {
-                stallTimeoutRef.current = window.setTimeout(() => {
-                    forceSkip('stall');
-                }, 5000);
-            }
-        };
-
-        const handleError = (e: any) => {
-            const audio = audioRef.current;
-            const error = audio?.error;
-            const errorMsg = error ? `Error ${error.code}: ${error.message}` : 'Unknown stream error';
-            console.error('[AudioContext] Stream error:', e, errorMsg);
-
-            if (!hasConnectedRef.current) {
-                clearTimeouts();
-                setIsConnecting(false);
-                isConnectingRef.current = false;
-
-                // Show more info in dev
-                if (window.location.hostname === 'localhost') {
-                    toast.error(`Playback failed for ${currentStationRef.current?.name}: ${errorMsg}. Check if /api/proxy is running.`);
-                } else {
-                    toast.error(`Connection failed for ${currentStationRef.current?.name}. The stream might be offline.`);
-                }
+        if (isPlaying && currentStation) {
+            // Paused (idle), failed or a different station: start over. Otherwise it's already on its way.
+            if (state.status === 'idle' || state.status === 'failed' || !isSameStream(state.station, currentStation)) {
+                cancelStationClick();
+                machine.send({ type: 'play', station: currentStation });
             }
-        };
-
-        audio.addEventListener('canplay', handleCanPlay);
-        audio.addEventListener('playing', handlePlaying);
-        audio.addEventListener('waiting', handleWaiting);
-        audio.addEventListener('stalled', handleStalled);
-        audio.addEventListener('error', handleError);
+        } else if (state.status !== 'idle') {
+            cancelStationClick();
+            machine.send({ type: 'stop' });
+        }
+    }, [isPlaying, currentStation, getMachine]);
 
+    useEffect(() => {
+        if (!isPlaying) return;
+        metadataIntervalRef.current = window.setInterval(checkMetadata, 10000);
         return () => {
-            audio.removeEventListener('canplay', handleCanPlay);
-            audio.removeEventListener('playing', handlePlaying);
-            audio.removeEventListener('waiting', handleWaiting);
-            audio.removeEventListener('stalled', handleStalled);
-            audio.removeEventListener('error', handleError);
+            if (metadataIntervalRef.current) clearInterval(metadataIntervalRef.current);
+            metadataIntervalRef.current = null;
         };
-    }, [checkMetadata, clearTimeouts, volume, forceSkip]);
-
-    const attemptConnection = useCallback((stage: number, streamUrl: string) => {
-        const audio = audioRef.current;
-        if (!audio || hasConnectedRef.current || !isPlaying) return;
-
-        setIsConnecting(true);
-        isConnectingRef.current = true;
+    }, [isPlaying, checkMetadata]);
 
-        // 1. Sanitize the URL (handles Shoutcast ; and Mixed Content/Proxying)
-        // For manual stations, we force proxying to ensure CORS/Mixed Content compatibility
-        // We also check for 'local-' prefix in uuid as a fallback for manually added/imported stations
-        const isManual = currentStationRef.current?.isManual || currentStationRef.current?.stationuuid?.startsWith('local-');
-        const sanitizedUrl = sanitizeStreamUrl(streamUrl, isManual);
-        let finalUrl = sanitizedUrl;
+    // ICY "now playing" via the proxy's SSE channel
+    const metadataStreamUrl = isPlaying && 'url' in playerState ? playerState.url : undefined;
+    useEffect(() => {
+        if (!metadataStreamUrl) return;
+        const mode = activeMode;
+        setMetadataForMode(mode, null);
+        return subscribeToStreamMetadata(metadataStreamUrl, (title) => setMetadataForMode(mode, title));
+    }, [metadataStreamUrl, activeMode, setMetadataForMode]);
 
-        const STAGE_STANDARD = 1;
-        const STAGE_DIRECT_UNRESTRICTED = 2;
+    // Handle Volume
+    useEffect(() => {
+        getMachine().getMedia().volume = volume / 100;
+        mixerRef.current?.setStaticVolume(volume * STATIC_BED_LEVEL / 100);
+    }, [volume, getMachine]);
 
-        if (stage === STAGE_STANDARD) {
-            audio.crossOrigin = 'anonymous';
-            finalUrl = sanitizedUrl;
-        } else {
-            // Last resort: If anonymous access fails, try unrestricted (might break visualizer)
-            // CRITICAL: If it's a manual station, we MUST keep it proxied or it will fail CORS/Mixed Content
-            console.warn(`[AudioContext] Attempting stage ${stage} connection (unrestricted cross-origin) for:`, sanitizedUrl);
-            audio.removeAttribute('crossorigin');
-            audio.crossOrigin = null;
-            finalUrl = sanitizedUrl; // Keep sanitized (proxied) URL
-        }
+    // Crossfade length applies from the next station change
+    useEffect(() => {
+        getMachine().configure({ crossfadeMs: crossfadeSeconds * 1000 });
+        localStorage.setItem('crossfadeSeconds', String(crossfadeSeconds));
+    }, [crossfadeSeconds, getMachine]);
 
-        clearTimeouts();
+    useEffect(() => {
+        localStorage.setItem('loudnessNormalization', String(loudnessNormalization));
+    }, [loudnessNormalization]);
+    useLoudnessNormalization({ enabled: loudnessNormalization, playerState, crossfadeMs: crossfadeSeconds * 1000 });
 
-        // Start Hard Timeout (20 seconds) if this is the first stage
-        if (stage === STAGE_STANDARD) {
-            hardTimeoutRef.current = window.setTimeout(() => {
-                if (!hasConnectedRef.current && isPlaying) {
-                    forceSkip('timeout');
-                }
-            }, 20000);
+    useEffect(() => {
+        localStorage.setItem('timeShiftMinutes', String(timeShiftMinutes));
+    }, [timeShiftMinutes]);
+    const { timeShifted, timeShiftPaused, heardTitle } = useTimeShift({
+        minutes: timeShiftMinutes,
+        playerState,
+        streamMetadata,
+        onPauseExpired: () => {
+            toast.info("Paused longer than the rewind buffer, stream stopped");
+            setIsPlayingActive(false);
         }
+    });
 
-        connectionTimeoutRef.current = window.setTimeout(() => {
-            if (!hasConnectedRef.current && isConnectingRef.current) {
-                if (stage < STAGE_DIRECT_UNRESTRICTED) {
-                    attemptConnection(stage + 1, streamUrl);
-                } else {
-                    toast.info("Station unavailable, skipping...");
-                    nextStation();
-                }
-            }
-        }, 12000); // 12s per stage
-
-        audio.src = finalUrl;
-        audio.load();
-        audio.play().catch(e => {
-            if (e.name === 'NotSupportedError' || e.name === 'SecurityError') {
-                if (stage < STAGE_DIRECT_UNRESTRICTED) {
-                    attemptConnection(stage + 1, streamUrl);
-                }
-            }
-        });
-    }, [clearTimeouts, isConnecting, isPlaying]);
-
-    // Handle Playback Logic
+    // Prefetch: check the next stations in the queue while this one plays, flagging dead ones for nextStation to skip
     useEffect(() => {
-        if (isPlaying && currentStation) {
-            if (currentStreamUrlRef.current !== currentStation.url_resolved) {
-                currentStreamUrlRef.current = currentStation.url_resolved;
-                hasConnectedRef.current = false;
-                if (audioRef.current) initializeAudioTap(audioRef.current);
-                attemptConnection(1, currentStation.url_resolved);
-            } else {
-                audioRef.current?.play().catch(() => { });
+        if (!isPlaying || stations.length < 2) return;
+        const mode = activeMode;
+        const upcoming = getUpcomingStations(stations, currentStationIndex);
+        let cancelled = false;
+
+        (async () => {
+            for (const station of upcoming) {
+                const reachability = await checkStationReachable(station);
+                if (cancelled) return;
+                if (reachability !== 'offline') continue;
+                console.log(`[Prefetch] ${station.name} is offline, it will be skipped`);
+                const markOffline = (prev: RadioState): RadioState => ({
+                    ...prev,
+                    stations: prev.stations.map(s => s.stationuuid === station.stationuuid ? { ...s, isOffline: true } : s)
+                });
+                if (mode === 'home') setHomeRadio(markOffline);
+                else setExploreRadio(markOffline);
             }
+        })();
 
-            if (!metadataIntervalRef.current) {
-                metadataIntervalRef.current = window.setInterval(checkMetadata, 10000);
-            }
-        } else {
-            clearTimeouts();
-            setIsConnecting(false);
-            audioRef.current?.pause();
-            if (metadataIntervalRef.current) {
-                clearInterval(metadataIntervalRef.current);
-                metadataIntervalRef.current = null;
-            }
-        }
-    }, [isPlaying, currentStation, attemptConnection, checkMetadata, clearTimeouts]);
-
-    // Handle Volume
-    useEffect(() => {
-        if (audioRef.current) audioRef.current.volume = volume / 100;
-    }, [volume]);
+        return () => { cancelled = true; };
+    }, [isPlaying, stations, currentStationIndex, activeMode]);
 
     // Route Listener
     useEffect(() => {
         if (location.pathname === '/onboarding') setIsPlayingActive(false);
     }, [location.pathname, setIsPlayingActive]);
 
-    // Silence Detection
+    // EQ follows the station: its saved override, or the user's default
+    const currentStationId = currentStation?.stationuuid ?? null;
     useEffect(() => {
-        const silenceTimeoutRef = window.setInterval(() => {
+        selectEffectsStation(currentStationId);
+    }, [currentStationId]);
+
+    const getOutputGain = useCallback(() => audioRef.current ? initializeAudioTap(audioRef.current).gain : null, []);
+    const { sleepTimer, sleepFading, startSleepTimer, cancelSleepTimer } = useSleepTimer({
+        isPlaying,
+        streamMetadata,
+        getOutputGain,
+        // A real stop: pausing into the time-shift buffer would keep recording all night
+        pause: () => setIsPlayingActive(false)
+    });
+
+    const { alarmRinging, dismissAlarm, handleAlarmFailure } = useAlarmClock({
+        playerState,
+        getOutputGain,
+        playStation: (station) => playStation(station, 'home'),
+        playQueue: (queue) => {
+            setHomeRadio(prev => ({ ...prev, stations: queue, currentStationIndex: 0, station: queue[0], isPlaying: true }));
+            setExploreRadio(prev => ({ ...prev, isPlaying: false }));
+            setActiveMode('home');
+        },
+        stop: () => setIsPlayingActive(false)
+    });
+    alarmFailureRef.current = handleAlarmFailure;
+
+    const { recording, startRecording, stopRecording } = useRecorder({
+        playerState,
+        streamMetadata,
+        playStation: (station) => playStation(station, 'home')
+    });
+
+    // Silence Detection: the machine fails the station after enough silent seconds while playing
+    // (not while the sleep timer is deliberately fading it out, or while the output is the time-shift buffer)
+    useEffect(() => {
+        if (!isPlaying || sleepFading || timeShifted) return;
+        const machine = getMachine();
+        const interval = window.setInterval(() => {
             const analyser = getAnalyserNode();
-            if (!analyser || !isPlaying || !hasConnectedRef.current) return;
+            if (!analyser) return;
 
             const dataArray = new Uint8Array(analyser.frequencyBinCount);
             analyser.getByteTimeDomainData(dataArray);
-
-            let hasSignal = false;
-            for (let i = 0; i < dataArray.length; i++) {
-                if (Math.abs(dataArray[i] - 128) > 2) {
-                    hasSignal = true;
-                    break;
-                }
-            }
-
-            if (!hasSignal) {
-                if (!window.hasOwnProperty('_silenceCount')) (window as any)._silenceCount = 0;
-                (window as any)._silenceCount += 1;
-                if ((window as any)._silenceCount >= 10) {
-                    (window as any)._silenceCount = 0;
-                    nextStation();
-                    toast.info("Silence detected, skipping...");
-                }
-            } else {
-                (window as any)._silenceCount = 0;
-            }
+            // 128 is zero for byte time-domain data; 2 is the noise floor
+            const silent = !dataArray.some(sample => Math.abs(sample - 128) > 2);
+            machine.send({ type: 'signal', silent });
         }, 1000);
 
-        return () => window.clearInterval(silenceTimeoutRef);
-    }, [isPlaying, stations, currentStationIndex]);
+        return () => window.clearInterval(interval);
+    }, [isPlaying, sleepFading, timeShifted, getMachine]);
 
     const playStation = (station: RadioStation, mode?: 'home' | 'explore') => {
         const targetMode = mode || activeMode;
+        // Picking the station again (or an alarm starting it) means now, not the buffer
+        jumpToLive();
         if (targetMode === 'home') {
             setHomeRadio(prev => ({ ...prev, station, isPlaying: true }));
             setExploreRadio(prev => ({ ...prev, isPlaying: false }));
@@ -383,6 +415,12 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
     const togglePlay = (mode?: 'home' | 'explore') => {
         const targetMode = mode || activeMode;
+        // With a time-shift buffer, pause holds the stream (still recording) and play picks up where it left off
+        if (targetMode === activeMode && isPlaying && (timeShiftPaused || canTimeShift())) {
+            if (timeShiftPaused) resumeTimeShift();
+            else pauseTimeShift();
+            return;
+        }
         if (targetMode === 'home') {
             setHomeRadio(prev => ({ ...prev, isPlaying: !prev.isPlaying }));
             if (!homeRadio.isPlaying) setExploreRadio(e => ({ ...e, isPlaying: false }));
@@ -397,7 +435,7 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         const targetMode = mode || activeMode;
         const radio = targetMode === 'home' ? homeRadio : exploreRadio;
         if (radio.stations.length > 0) {
-            const nextIdx = (radio.currentStationIndex + 1) % radio.stations.length;
+            const nextIdx = findPlayableIndex(radio.stations, radio.currentStationIndex, 1);
             const nextStation = radio.stations[nextIdx];
             if (targetMode === 'home') {
                 setHomeRadio(prev => ({ ...prev, currentStationIndex: nextIdx, station: nextStation, isPlaying: true }));
@@ -407,11 +445,14 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         }
     };
 
+    nextStationRef.current = () => nextStation();
+    stopPlaybackRef.current = () => setIsPlayingActive(false);
+
     const prevStation = (mode?: 'home' | 'explore') => {
         const targetMode = mode || activeMode;
         const radio = targetMode === 'home' ? homeRadio : exploreRadio;
         if (radio.stations.length > 0) {
-            const prevIdx = (radio.currentStationIndex - 1 + radio.stations.length) % radio.stations.length;
+            const prevIdx = findPlayableIndex(radio.stations, radio.currentStationIndex, -1);
             const prevStation = radio.stations[prevIdx];
             if (targetMode === 'home') {
                 setHomeRadio(prev => ({ ...prev, currentStationIndex: prevIdx, station: prevStation, isPlaying: true }));
@@ -430,25 +471,48 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         }
     };
 
+    // What the listener hears: paused and the buffered title while time-shifted
+    const heardMetadata = timeShifted && heardTitle !== undefined ? heardTitle : streamMetadata;
+    const presentRadio = (radio: RadioState, mode: 'home' | 'explore'): RadioState =>
+        mode === activeMode && timeShifted
+            ? { ...radio, isPlaying: radio.isPlaying && !timeShiftPaused, streamMetadata: heardMetadata }
+            : radio;
+
     return (
         <AudioContext.Provider value={{
             currentStation,
-            isPlaying,
+            isPlaying: isPlaying && !timeShiftPaused,
             volume,
             stations,
             loading: isConnecting,
             isConnecting,
-            streamMetadata,
+            playerState,
+            streamMetadata: heardMetadata,
             playStation,
             togglePlay,
             nextStation,
             prevStation,
             setVolume,
+            crossfadeSeconds,
+            setCrossfadeSeconds,
+            loudnessNormalization,
+            setLoudnessNormalization,
+            timeShiftMinutes,
+            setTimeShiftMinutes,
+            timeShifted,
+            recording,
+            startRecording,
+            stopRecording,
+            sleepTimer,
+            startSleepTimer,
+            cancelSleepTimer,
+            alarmRinging,
+            dismissAlarm,
             setStations: setStationsMode,
             currentStationIndex,
             activeMode,
-            homeRadio,
-            exploreRadio,
+            homeRadio: presentRadio(homeRadio, 'home'),
+            exploreRadio: presentRadio(exploreRadio, 'explore'),
             handleStreamError: () => nextStation(),
             audioRef
         }}>
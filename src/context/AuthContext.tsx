@@ -1,6 +1,9 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { loadContentFilterPolicy } from '@/services/contentFilter';
+import { loadAlarms } from '@/services/alarmClock';
+import { loadAudioEffects } from '@/services/audioEffects';
 
 interface Profile {
     id: string;
@@ -58,6 +61,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         return () => subscription.unsubscribe();
     }, []);
 
+    // Searches filter through the signed-in user's content policy (or the guest one); alarms follow the account too
+    const userId = user?.id ?? null;
+    useEffect(() => {
+        if (loading) return;
+        loadContentFilterPolicy(userId);
+        loadAlarms(userId);
+        loadAudioEffects(userId);
+    }, [userId, loading]);
+
     const fetchProfile = async (userId: string) => {
         try {
             const { data, error } = await supabase
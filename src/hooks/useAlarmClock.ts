@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import type { RadioStation } from '@/services/radioBrowserApi';
+import type { PlayerState } from '@/services/playerMachine';
+import {
+    alarmsReady,
+    describeAlarmSource,
+    fetchMoodQueue,
+    getAlarms,
+    getNextAlarm,
+    saveAlarm,
+    startAlarmChime,
+    type Alarm
+} from '@/services/alarmClock';
+
+interface AlarmClockOptions {
+    playerState: PlayerState;
+    // The output gain of the tap graph (after every station channel)
+    getOutputGain: () => GainNode | null;
+    playStation: (station: RadioStation) => void;
+    playQueue: (stations: RadioStation[]) => void;
+    stop: () => void;
+}
+
+// Polling rather than one long timeout: keeps working across sleep and clock changes
+const CHECK_INTERVAL_MS = 15 * 1000;
+// An alarm missed by more than this (computer asleep) is skipped rather than rung late
+const MISSED_GRACE_MS = 5 * 60 * 1000;
+const TOAST_ID = 'alarm-clock';
+
+/**
+ * Rings alarms from the shared player: starts the station (or mood queue) silently,
+ * ramps the output gain up once it plays, and falls back to a synthesized chime
+ * when the stream can't connect. Lives in AudioProvider so it runs on every page.
+ */
+export const useAlarmClock = (options: AlarmClockOptions) => {
+    const [ringing, setRinging] = useState<Alarm | null>(null);
+    const ringingRef = useRef<Alarm | null>(null);
+    // The player has left idle for this alarm, and later connected and started the ramp
+    const startedRef = useRef(false);
+    const rampedRef = useRef(false);
+    const rampDoneRef = useRef<number | undefined>(undefined);
+    // The station the alarm started, so whatever was playing before doesn't count as connected
+    const expectedStationRef = useRef<string | null>(null);
+    const stopChimeRef = useRef<(() => void) | null>(null);
+    const lastCheckRef = useRef(new Date());
+
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+
+    const rampGain = useCallback((target: number, seconds: number) => {
+        const gain = optionsRef.current.getOutputGain();
+        if (!gain) return null;
+        const now = gain.context.currentTime;
+        gain.gain.cancelScheduledValues(now);
+        gain.gain.setValueAtTime(gain.gain.value, now);
+        gain.gain.linearRampToValueAtTime(target, now + seconds);
+        return gain;
+    }, []);
+
+    const finish = useCallback(() => {
+        stopChimeRef.current?.();
+        stopChimeRef.current = null;
+        window.clearTimeout(rampDoneRef.current);
+        ringingRef.current = null;
+        expectedStationRef.current = null;
+        startedRef.current = false;
+        rampedRef.current = false;
+        setRinging(null);
+        toast.dismiss(TOAST_ID);
+    }, []);
+
+    /** Stop the alarm: silences the chime, or stops the station it woke up to */
+    const dismissAlarm = useCallback(() => {
+        if (!ringingRef.current) return;
+        optionsRef.current.stop();
+        rampGain(1, 0);
+        finish();
+    }, [finish, rampGain]);
+
+    const startChime = useCallback((alarm: Alarm) => {
+        console.log('[Alarm] Station unavailable, falling back to the chime');
+        optionsRef.current.stop();
+        const gain = rampGain(0, 0);
+        if (!gain) return;
+        const audioContext = gain.context as AudioContext;
+        if (audioContext.state === 'suspended') audioContext.resume().catch(() => { });
+        rampGain(1, alarm.rampSeconds);
+        stopChimeRef.current?.();
+        stopChimeRef.current = startAlarmChime(audioContext, gain);
+        rampedRef.current = true;
+    }, [rampGain]);
+
+    const ring = useCallback(async (alarm: Alarm) => {
+        console.log(`[Alarm] Ringing ${alarm.time}: ${describeAlarmSource(alarm.source)}`);
+        if (alarm.days.length === 0) {
+            saveAlarm({ ...alarm, enabled: false }).catch(err => console.warn('[Alarm] Could not disable one-off alarm:', err));
+        }
+
+        finish();
+        ringingRef.current = alarm;
+        setRinging(alarm);
+        toast(`Alarm: ${describeAlarmSource(alarm.source)}`, {
+            id: TOAST_ID,
+            duration: Infinity,
+            action: { label: 'Stop', onClick: () => dismissAlarm() }
+        });
+
+        // Silent until the stream actually plays, then ramp up
+        rampGain(0, 0);
+        if (alarm.source.kind === 'station') {
+            expectedStationRef.current = alarm.source.station.stationuuid;
+            optionsRef.current.playStation(alarm.source.station);
+            return;
+        }
+        const queue = await fetchMoodQueue(alarm.source.moodId).catch(() => [] as RadioStation[]);
+        if (ringingRef.current !== alarm) return;
+        if (queue.length === 0) return startChime(alarm);
+        expectedStationRef.current = queue[0].stationuuid;
+        optionsRef.current.playQueue(queue);
+    }, [dismissAlarm, finish, rampGain, startChime]);
+
+    // Due alarms: anything scheduled between the previous check and now
+    useEffect(() => {
+        const check = () => {
+            const now = new Date();
+            const since = lastCheckRef.current;
+            lastCheckRef.current = now;
+            const due = getNextAlarm(getAlarms(), since);
+            if (!due || due.at > now) return;
+            if (now.getTime() - due.at.getTime() > MISSED_GRACE_MS) {
+                console.log('[Alarm] Missed while asleep, skipping:', due.alarm.time);
+                return;
+            }
+            ring(due.alarm);
+        };
+        alarmsReady();
+        const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+        return () => window.clearInterval(interval);
+    }, [ring]);
+
+    // Connected: ramp up from silence, and the station is just playing once it's done.
+    // Paused by hand before that: put the gain back.
+    const { playerState } = options;
+    useEffect(() => {
+        const alarm = ringingRef.current;
+        if (!alarm || rampedRef.current) return;
+        if (playerState.status === 'idle') {
+            if (!startedRef.current) return;
+            rampGain(1, 0);
+            finish();
+            return;
+        }
+        if (playerState.station.stationuuid !== expectedStationRef.current) return;
+        startedRef.current = true;
+        if (playerState.status !== 'playing') return;
+
+        rampedRef.current = true;
+        rampGain(1, alarm.rampSeconds);
+        rampDoneRef.current = window.setTimeout(finish, alarm.rampSeconds * 1000);
+    }, [playerState, ringing, finish, rampGain]);
+
+    /** For the provider's failure handler: true when the alarm took over (chime) instead of skipping */
+    const handleAlarmFailure = useCallback((): boolean => {
+        const alarm = ringingRef.current;
+        if (!alarm || rampedRef.current) return false;
+        startChime(alarm);
+        return true;
+    }, [startChime]);
+
+    return { alarmRinging: ringing, dismissAlarm, handleAlarmFailure };
+};
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getAlarms, subscribeToAlarms, type Alarm } from '@/services/alarmClock';
+
+/** The current user's alarms, re-rendering on every change */
+export const useAlarms = (): Alarm[] => useSyncExternalStore(subscribeToAlarms, getAlarms);
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getActiveEffects, subscribeToAudioEffects, type AudioEffectsSettings } from '@/services/audioEffects';
+
+/** The effects settings being heard right now, re-rendering on every change */
+export const useAudioEffects = (): AudioEffectsSettings => useSyncExternalStore(subscribeToAudioEffects, getActiveEffects);
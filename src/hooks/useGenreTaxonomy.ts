@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { DEFAULT_TAXONOMY, genreTaxonomyReady, type GenreTaxonomy } from '@/services/genreTaxonomy';
+
+/** The shared genre taxonomy; renders with the built-in copy until Supabase answers */
+export const useGenreTaxonomy = (): GenreTaxonomy => {
+    const { data } = useQuery({
+        queryKey: ['genre-taxonomy'],
+        queryFn: genreTaxonomyReady,
+        staleTime: 1000 * 60 * 30, // 30 minutes
+    });
+    return data || DEFAULT_TAXONOMY;
+};
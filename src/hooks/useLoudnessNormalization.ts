@@ -0,0 +1,103 @@
+import { useEffect } from 'react';
+import type { PlayerState } from '@/services/playerMachine';
+import {
+    SILENCE_GATE_LUFS,
+    TARGET_LUFS,
+    getLoudnessOffset,
+    meanSquareToLufs,
+    offsetForLoudness,
+    readLoudnessBlock,
+    saveLoudnessOffset,
+    setNormalizationGain
+} from '@/services/loudness';
+
+interface LoudnessNormalizationOptions {
+    enabled: boolean;
+    playerState: PlayerState;
+    // While the previous station is still fading out the mix isn't this station's alone
+    crossfadeMs: number;
+}
+
+const BLOCK_MS = 100;
+// Short-term loudness window (EBU R128 uses 3 s)
+const SHORT_TERM_BLOCKS = 30;
+// How fast the running estimate follows the short-term loudness
+const ESTIMATE_SMOOTHING = 0.02;
+// Gain glides: quick for the first measurement, slow afterwards so songs don't pump
+const FIRST_GLIDE_S = 0.5;
+const FOLLOW_GLIDE_S = 3;
+// Smaller changes aren't worth moving the gain for
+const MIN_CHANGE_DB = 0.5;
+const SAVE_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Keeps perceived volume constant across stations: applies a station's learned offset
+ * as soon as it plays, measures its loudness (first seconds, then continuously) and
+ * stores the refined offset. Lives in AudioProvider so it follows every station change.
+ */
+export const useLoudnessNormalization = ({ enabled, playerState, crossfadeMs }: LoudnessNormalizationOptions) => {
+    const playing = playerState.status === 'playing';
+    const stationId = playerState.status === 'idle' ? null : playerState.station.stationuuid;
+
+    // Off: back to unity
+    useEffect(() => {
+        if (!enabled) setNormalizationGain(0, FIRST_GLIDE_S / 3);
+    }, [enabled]);
+
+    // Known station: its offset right away, before it's really heard; unknown: unity until measured
+    useEffect(() => {
+        if (!enabled || !stationId) return;
+        setNormalizationGain(getLoudnessOffset(stationId) ?? 0, FIRST_GLIDE_S / 3);
+    }, [enabled, stationId]);
+
+    useEffect(() => {
+        if (!enabled || !playing || !stationId) return;
+
+        const stored = getLoudnessOffset(stationId);
+        let offset = stored ?? 0;
+        // Running loudness estimate in LUFS; a stored offset tells us roughly where we were
+        let estimate: number | null = stored === null ? null : TARGET_LUFS - stored;
+        let dirty = false;
+        const blocks: number[] = [];
+
+        const measure = () => {
+            const block = readLoudnessBlock();
+            if (block === null || meanSquareToLufs(block) < SILENCE_GATE_LUFS) return;
+            blocks.push(block);
+            if (blocks.length > SHORT_TERM_BLOCKS) blocks.shift();
+            if (blocks.length < SHORT_TERM_BLOCKS) return;
+
+            const shortTerm = meanSquareToLufs(blocks.reduce((sum, value) => sum + value, 0) / blocks.length);
+            const first = estimate === null;
+            estimate = first ? shortTerm : estimate + (shortTerm - estimate) * ESTIMATE_SMOOTHING;
+
+            const target = offsetForLoudness(estimate);
+            if (!first && Math.abs(target - offset) < MIN_CHANGE_DB) return;
+            if (first) console.log(`[Loudness] ${shortTerm.toFixed(1)} LUFS, applying ${target.toFixed(1)} dB`);
+            offset = target;
+            dirty = true;
+            setNormalizationGain(offset, first ? FIRST_GLIDE_S : FOLLOW_GLIDE_S);
+            if (first) save();
+        };
+
+        const save = () => {
+            if (!dirty) return;
+            saveLoudnessOffset(stationId, offset);
+            dirty = false;
+        };
+
+        let measureInterval: number | undefined;
+        // Wait out the crossfade before the mix is this station's alone
+        const settle = window.setTimeout(() => {
+            measureInterval = window.setInterval(measure, BLOCK_MS);
+        }, crossfadeMs);
+        const saveInterval = window.setInterval(save, SAVE_INTERVAL_MS);
+
+        return () => {
+            window.clearTimeout(settle);
+            window.clearInterval(measureInterval);
+            window.clearInterval(saveInterval);
+            save();
+        };
+    }, [enabled, playing, stationId, crossfadeMs]);
+};
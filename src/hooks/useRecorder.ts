@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { toast } from 'sonner';
+import type { RadioStation } from '@/services/radioBrowserApi';
+import type { PlayerState } from '@/services/playerMachine';
+import {
+    deleteRecordingSchedule,
+    getActiveRecording,
+    getRecordingSchedules,
+    splitRecording,
+    startRecording as startCapture,
+    stopRecording,
+    subscribeToRecorder,
+    type RecordingSchedule
+} from '@/services/recorder';
+import { holdLock } from '@/services/webLocks';
+
+interface RecorderOptions {
+    playerState: PlayerState;
+    // The live title (not the time-shifted one): the recording is of the live mix
+    streamMetadata: string | null;
+    playStation: (station: RadioStation) => void;
+}
+
+// Same polling approach as alarms: survives sleep and clock changes
+const CHECK_INTERVAL_MS = 15 * 1000;
+// Held by the one tab that runs scheduled windows; the next tab takes over when it closes
+const SCHEDULER_LOCK = 'radio-recording-scheduler';
+
+/**
+ * Runs recordings from the shared player: splits files on title changes, stops when
+ * the station changes, and starts/stops scheduled windows (tuning in first if needed).
+ * Lives in AudioProvider so recording carries on across pages; with several tabs open,
+ * only one of them runs the schedules.
+ */
+export const useRecorder = ({ playerState, streamMetadata, playStation }: RecorderOptions) => {
+    const recording = useSyncExternalStore(subscribeToRecorder, getActiveRecording);
+    // A schedule whose window opened, waiting for its station to play
+    const pendingRef = useRef<RecordingSchedule | null>(null);
+    // Schedules already started once: stopping one by hand doesn't restart it
+    const startedRef = useRef(new Set<string>());
+
+    const stateRef = useRef({ playerState, streamMetadata, playStation });
+    stateRef.current = { playerState, streamMetadata, playStation };
+
+    /** Record the playing station now; false (with a toast) when it can't */
+    const startRecording = useCallback((splitOnTitle: boolean): boolean => {
+        const { playerState: state, streamMetadata: title } = stateRef.current;
+        if (state.status !== 'playing') {
+            toast.error("Play a station first to record it");
+            return false;
+        }
+        if (!startCapture({ station: state.station, title, splitOnTitle })) {
+            toast.error("Recording isn't supported in this browser");
+            return false;
+        }
+        return true;
+    }, []);
+
+    // Only title changes split; a new recording already starts under the current title
+    useEffect(() => {
+        if (getActiveRecording()?.splitOnTitle && streamMetadata) splitRecording(streamMetadata);
+    }, [streamMetadata]);
+
+    // A recording belongs to its station: another station (or stopping) ends it
+    const stationId = playerState.status === 'idle' ? null : playerState.station.stationuuid;
+    useEffect(() => {
+        const current = getActiveRecording();
+        if (current && current.stationId !== stationId) stopRecording();
+    }, [stationId]);
+
+    // The scheduled station is on air: start recording it
+    const startPending = useCallback(() => {
+        const schedule = pendingRef.current;
+        const { playerState: state, streamMetadata: title } = stateRef.current;
+        if (!schedule || state.status !== 'playing' || state.station.stationuuid !== schedule.station.stationuuid) return;
+        pendingRef.current = null;
+        startedRef.current.add(schedule.id);
+        const started = startCapture({ station: state.station, title, splitOnTitle: schedule.splitOnTitle, scheduleId: schedule.id });
+        if (started) toast.success(`Recording ${schedule.station.name}`);
+        else toast.error(`Couldn't start the scheduled recording of ${schedule.station.name}`);
+    }, []);
+
+    // Scheduled windows, in whichever tab holds the scheduler lock (every tab without Web Locks)
+    useEffect(() => {
+        const check = () => {
+            const now = Date.now();
+            for (const schedule of getRecordingSchedules()) {
+                if (now >= schedule.endAt) {
+                    if (getActiveRecording()?.scheduleId === schedule.id) stopRecording();
+                    if (pendingRef.current?.id === schedule.id) pendingRef.current = null;
+                    startedRef.current.delete(schedule.id);
+                    deleteRecordingSchedule(schedule.id);
+                } else if (now >= schedule.startAt && !startedRef.current.has(schedule.id) && pendingRef.current?.id !== schedule.id) {
+                    console.log(`[Recorder] Scheduled recording of ${schedule.station.name} starting`);
+                    pendingRef.current = schedule;
+                    const { playerState: state } = stateRef.current;
+                    if (state.status === 'idle' || state.station.stationuuid !== schedule.station.stationuuid) {
+                        stateRef.current.playStation(schedule.station);
+                    } else {
+                        startPending();
+                    }
+                }
+            }
+        };
+        const abort = new AbortController();
+        let release: (() => void) | null = null;
+        let interval: number | undefined;
+        holdLock(SCHEDULER_LOCK, abort.signal).then(released => {
+            release = released;
+            if (abort.signal.aborted) return release?.();
+            check();
+            interval = window.setInterval(check, CHECK_INTERVAL_MS);
+        });
+        return () => {
+            abort.abort();
+            window.clearInterval(interval);
+            release?.();
+        };
+    }, [startPending]);
+
+    useEffect(() => {
+        startPending();
+    }, [playerState, startPending]);
+
+    return { recording, startRecording, stopRecording };
+};
@@ -0,0 +1,10 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getRecordings, recordingsReady, subscribeToRecorder, type Recording } from '@/services/recorder';
+
+/** The recordings library (newest first), loading it from IndexedDB on first use */
+export const useRecordings = (): Recording[] => {
+    useEffect(() => {
+        recordingsReady();
+    }, []);
+    return useSyncExternalStore(subscribeToRecorder, getRecordings);
+};
@@ -3,6 +3,7 @@ import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/context/AuthContext';
 import { toast } from 'sonner';
 import { RadioStation } from '@/services/radioBrowserApi';
+import { reportStationVote } from '@/services/communityReporting';
 
 export const useSavedLibrary = () => {
     const { user } = useAuth();
@@ -61,6 +62,10 @@ export const useSavedLibrary = () => {
             queryClient.setQueryData(['saved-stations', user?.id], context?.previous);
             toast.error("Failed to save station");
         },
+        onSuccess: (_data, station) => {
+            // Saving is an endorsement; pass it on to radio-browser unless the user opted out
+            reportStationVote(station);
+        },
         onSettled: () => {
             // Optimistic update is enough, invalidating immediately causes a 'flash' of refetching
             // queryClient.invalidateQueries({ queryKey: ['saved-stations', user?.id] });
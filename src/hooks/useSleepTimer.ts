@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// 'song' waits for the stream's now-playing title to change away from `title`
+export type SleepTimer =
+    | { mode: 'duration'; endsAt: number }
+    | { mode: 'song'; title: string | null };
+
+interface SleepTimerOptions {
+    isPlaying: boolean;
+    streamMetadata: string | null;
+    // The output gain of the tap graph (after every station channel)
+    getOutputGain: () => GainNode | null;
+    pause: () => void;
+}
+
+// Fade length at the end of a timed sleep
+const FADE_MS = 60 * 1000;
+// After "end of current song" the next one has already begun: fade it out quicker
+const SONG_FADE_MS = 10 * 1000;
+// Bringing the sound back when a fading timer is cancelled
+const RESTORE_MS = 1000;
+
+/**
+ * Sleep timer for the shared player: fades the output gain to silence and pauses.
+ * Lives in AudioProvider so it keeps counting across page navigation.
+ */
+export const useSleepTimer = ({ isPlaying, streamMetadata, getOutputGain, pause }: SleepTimerOptions) => {
+    const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null);
+    const [sleepFading, setSleepFading] = useState(false);
+    // The gain was left at zero for the pause to land on; put it back once playback stopped
+    const gainDownRef = useRef(false);
+
+    const isPlayingRef = useRef(isPlaying);
+    isPlayingRef.current = isPlaying;
+    const pauseRef = useRef(pause);
+    pauseRef.current = pause;
+
+    const rampGain = useCallback((target: number, ms: number) => {
+        const gain = getOutputGain();
+        if (!gain) return;
+        const now = gain.context.currentTime;
+        gain.gain.cancelScheduledValues(now);
+        gain.gain.setValueAtTime(gain.gain.value, now);
+        gain.gain.linearRampToValueAtTime(target, now + ms / 1000);
+    }, [getOutputGain]);
+
+    const startSleepTimer = useCallback((duration: number | 'song') => {
+        if (gainDownRef.current || sleepFading) rampGain(1, RESTORE_MS);
+        gainDownRef.current = false;
+        setSleepFading(false);
+        setSleepTimer(duration === 'song'
+            ? { mode: 'song', title: streamMetadata }
+            : { mode: 'duration', endsAt: Date.now() + duration * 60 * 1000 });
+    }, [rampGain, sleepFading, streamMetadata]);
+
+    const cancelSleepTimer = useCallback(() => {
+        if (sleepFading) rampGain(1, RESTORE_MS);
+        gainDownRef.current = false;
+        setSleepFading(false);
+        setSleepTimer(null);
+    }, [rampGain, sleepFading]);
+
+    // Timed: start the fade a minute out, pause at the end
+    useEffect(() => {
+        if (!sleepTimer || sleepTimer.mode !== 'duration') return;
+        const remaining = Math.max(0, sleepTimer.endsAt - Date.now());
+
+        const fadeTimeout = window.setTimeout(() => {
+            if (!isPlayingRef.current) return;
+            console.log('[SleepTimer] Fading out');
+            rampGain(0, Math.min(FADE_MS, remaining));
+            gainDownRef.current = true;
+            setSleepFading(true);
+        }, Math.max(0, remaining - FADE_MS));
+
+        const endTimeout = window.setTimeout(() => {
+            console.log('[SleepTimer] Time is up, pausing');
+            setSleepTimer(null);
+            setSleepFading(false);
+            if (isPlayingRef.current) pauseRef.current();
+            else if (gainDownRef.current) rampGain(1, 0);
+        }, remaining);
+
+        return () => {
+            window.clearTimeout(fadeTimeout);
+            window.clearTimeout(endTimeout);
+        };
+    }, [sleepTimer, rampGain]);
+
+    // End of song: a new title means the next song started; wind down from there
+    useEffect(() => {
+        if (!sleepTimer || sleepTimer.mode !== 'song' || !streamMetadata) return;
+        if (sleepTimer.title === null) {
+            // Set before the first title came in: that one is the current song
+            setSleepTimer({ mode: 'song', title: streamMetadata });
+        } else if (streamMetadata !== sleepTimer.title) {
+            setSleepTimer({ mode: 'duration', endsAt: Date.now() + SONG_FADE_MS });
+        }
+    }, [sleepTimer, streamMetadata]);
+
+    useEffect(() => {
+        if (isPlaying || !gainDownRef.current) return;
+        gainDownRef.current = false;
+        rampGain(1, 0);
+    }, [isPlaying, rampGain]);
+
+    return { sleepTimer, sleepFading, startSleepTimer, cancelSleepTimer };
+};
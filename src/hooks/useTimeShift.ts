@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import type { PlayerState } from '@/services/playerMachine';
+import {
+    configureTimeShift,
+    getTimeShiftMode,
+    getTimeShiftStatus,
+    recordTimeShiftTitle,
+    resetTimeShift,
+    setTimeShiftCapturing,
+    subscribeToTimeShift
+} from '@/services/timeShift';
+
+interface TimeShiftOptions {
+    // Window length; 0 turns time-shift off
+    minutes: number;
+    playerState: PlayerState;
+    streamMetadata: string | null;
+    // Paused longer than the window: the caller stops the stream rather than record on
+    onPauseExpired: () => void;
+}
+
+// How often the heard title is checked while listening behind live
+const HEARD_TITLE_INTERVAL_MS = 1000;
+
+/**
+ * Feeds the time-shift buffer from the shared player: records while the stream is on,
+ * starts over on every new station, marks title changes, and gives up the stream once a
+ * pause outlasts the window. Reports whether the listener is behind live (or paused) and
+ * which title they're actually hearing. Lives in AudioProvider.
+ */
+export const useTimeShift = ({ minutes, playerState, streamMetadata, onPauseExpired }: TimeShiftOptions) => {
+    const mode = useSyncExternalStore(subscribeToTimeShift, getTimeShiftMode);
+    const [heardTitle, setHeardTitle] = useState<string | null | undefined>(undefined);
+
+    const streamMetadataRef = useRef(streamMetadata);
+    streamMetadataRef.current = streamMetadata;
+    const onPauseExpiredRef = useRef(onPauseExpired);
+    onPauseExpiredRef.current = onPauseExpired;
+
+    useEffect(() => {
+        configureTimeShift(minutes);
+    }, [minutes]);
+
+    const { status } = playerState;
+    const stationId = status === 'idle' ? null : playerState.station.stationuuid;
+    useEffect(() => {
+        setTimeShiftCapturing(status === 'playing' || status === 'buffering' || status === 'stalled');
+    }, [status]);
+
+    // A new station (or none): the old recording is no use
+    useEffect(() => {
+        resetTimeShift();
+        recordTimeShiftTitle(streamMetadataRef.current);
+    }, [stationId]);
+
+    useEffect(() => {
+        recordTimeShiftTitle(streamMetadata);
+    }, [streamMetadata]);
+
+    useEffect(() => {
+        if (mode.expired) onPauseExpiredRef.current();
+    }, [mode.expired]);
+
+    useEffect(() => {
+        if (!mode.shifted) {
+            setHeardTitle(undefined);
+            return;
+        }
+        const check = () => setHeardTitle(getTimeShiftStatus().heardTitle);
+        check();
+        const interval = window.setInterval(check, HEARD_TITLE_INTERVAL_MS);
+        return () => window.clearInterval(interval);
+    }, [mode]);
+
+    return { timeShifted: mode.shifted, timeShiftPaused: mode.paused, heardTitle };
+};
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { getTimeShiftStatus, subscribeToTimeShift, type TimeShiftStatus } from '@/services/timeShift';
+
+const TICK_MS = 500;
+
+/** Time-shift buffer and position, refreshed on a tick (the buffer grows continuously) */
+export const useTimeShiftStatus = (): TimeShiftStatus => {
+    const [status, setStatus] = useState(getTimeShiftStatus);
+
+    useEffect(() => {
+        const update = () => setStatus(getTimeShiftStatus());
+        const interval = window.setInterval(update, TICK_MS);
+        const unsubscribe = subscribeToTimeShift(update);
+        return () => {
+            window.clearInterval(interval);
+            unsubscribe();
+        };
+    }, []);
+
+    return status;
+};
@@ -7,14 +7,24 @@ import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/context/AuthContext";
 import { supabase } from "@/lib/supabase";
 import { Button } from "@/components/ui/button";
-import { LayoutDashboard, Users, Radio, Check, X, ArrowLeft, Globe, Loader2, Trash2, RotateCcw, Search, ExternalLink, Play, Zap, Music, MessageSquare } from "lucide-react";
+import { LayoutDashboard, Users, Radio, Check, X, ArrowLeft, Globe, Loader2, Trash2, RotateCcw, Search, ExternalLink, Play, Zap, Music, MessageSquare, Activity } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import AdminTagPicker from "@/components/AdminTagPicker";
+import ContentFilterAdmin from "@/components/ContentFilterAdmin";
+import StreamOverridesAdmin from "@/components/StreamOverridesAdmin";
+import GenreTaxonomyAdmin from "@/components/GenreTaxonomyAdmin";
 import * as radioBrowserApi from "@/services/radioBrowserApi";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { probeStream, describeProbeProblem, formatProbeSummary, type StreamProbeResult } from "@/services/streamProbe";
+
+interface ProbeState {
+    loading: boolean;
+    result?: StreamProbeResult;
+    error?: string;
+}
 
 const Admin = () => {
     const { profile, loading: authLoading } = useAuth();
@@ -49,6 +59,8 @@ const Admin = () => {
     const [editValue, setEditValue] = useState("");
     const [totalUsers, setTotalUsers] = useState(0);
     const [loading, setLoading] = useState(true);
+    // Stream probe results keyed by URL, so an edited URL gets re-tested
+    const [probes, setProbes] = useState<Record<string, ProbeState>>({});
 
     // Search State
     const [searchQuery, setSearchQuery] = useState("");
@@ -126,11 +138,24 @@ const Admin = () => {
         }
     };
 
+    const handleProbe = async (url: string) => {
+        setProbes(prev => ({ ...prev, [url]: { loading: true } }));
+        try {
+            const result = await probeStream(url);
+            setProbes(prev => ({ ...prev, [url]: { loading: false, result, error: describeProbeProblem(result) || undefined } }));
+        } catch (err) {
+            setProbes(prev => ({ ...prev, [url]: { loading: false, error: err instanceof Error ? err.message : "Probe failed" } }));
+        }
+    };
+
     const handleModeration = async (requestId: string, status: 'approved' | 'rejected') => {
         try {
             const moderatedRequest = [...requests, ...history, ...searchResults].find(r => r.id === requestId);
             if (!moderatedRequest) throw new Error("Station request not found");
 
+            const probe = probes[moderatedRequest.url];
+            if (status === 'approved' && probe?.error && !confirm(`Stream check failed: ${probe.error}\n\nApprove anyway?`)) return;
+
             let updatedUrl = moderatedRequest.url;
             if (status === 'approved') {
                 if (moderatedRequest.url.includes('internet-radio.com/proxy/') && !moderatedRequest.url.includes('?mp=/stream')) {
@@ -832,7 +857,7 @@ const Admin = () => {
                     </div>
                 ) : (
                     <Tabs defaultValue="moderation" className="space-y-8 animate-in fade-in duration-500">
-                        <TabsList className="bg-[#331F21]/5 p-1 border-2 border-[#331F21] rounded-xl h-auto">
+                        <TabsList className="bg-[#331F21]/5 p-1 border-2 border-[#331F21] rounded-xl h-auto flex-wrap">
                             <TabsTrigger
                                 value="moderation"
                                 className="rounded-lg px-8 py-2 font-black uppercase text-xs data-[state=active]:bg-[#331F21] data-[state=active]:text-white"
@@ -851,6 +876,24 @@ const Admin = () => {
                             >
                                 Station Feedback
                             </TabsTrigger>
+                            <TabsTrigger
+                                value="filters"
+                                className="rounded-lg px-8 py-2 font-black uppercase text-xs data-[state=active]:bg-[#331F21] data-[state=active]:text-white"
+                            >
+                                Content Filters
+                            </TabsTrigger>
+                            <TabsTrigger
+                                value="overrides"
+                                className="rounded-lg px-8 py-2 font-black uppercase text-xs data-[state=active]:bg-[#331F21] data-[state=active]:text-white"
+                            >
+                                Stream Overrides
+                            </TabsTrigger>
+                            <TabsTrigger
+                                value="genres"
+                                className="rounded-lg px-8 py-2 font-black uppercase text-xs data-[state=active]:bg-[#331F21] data-[state=active]:text-white"
+                            >
+                                Genres
+                            </TabsTrigger>
                         </TabsList>
 
                         <TabsContent value="moderation" className="mt-0">
@@ -911,6 +954,29 @@ const Admin = () => {
                                                                     </button>
                                                                 </div>
                                                             )}
+                                                            <div className="flex items-center gap-2 mt-2">
+                                                                <Button
+                                                                    size="sm"
+                                                                    variant="ghost"
+                                                                    className="h-7 px-2 border-2 border-[#331F21] text-[10px] font-black uppercase gap-1"
+                                                                    disabled={probes[req.url]?.loading}
+                                                                    onClick={() => handleProbe(req.url)}
+                                                                >
+                                                                    {probes[req.url]?.loading
+                                                                        ? <Loader2 className="w-3 h-3 animate-spin" />
+                                                                        : <Activity className="w-3 h-3" />}
+                                                                    Test Stream
+                                                                </Button>
+                                                                {probes[req.url] && !probes[req.url].loading && (
+                                                                    <span className={cn(
+                                                                        "text-[10px] font-bold uppercase",
+                                                                        probes[req.url].error ? "text-red-600" : "text-green-700"
+                                                                    )}>
+                                                                        {probes[req.url].error || formatProbeSummary(probes[req.url].result!)}
+                                                                        {probes[req.url].result?.icy.name && ` · ${probes[req.url].result!.icy.name}`}
+                                                                    </span>
+                                                                )}
+                                                            </div>
                                                         </div>
                                                         <div className="flex gap-2 ml-6">
                                                             <Button
@@ -1237,6 +1303,18 @@ const Admin = () => {
                                 )}
                             </div>
                         </TabsContent>
+
+                        <TabsContent value="filters" className="mt-0">
+                            <ContentFilterAdmin />
+                        </TabsContent>
+
+                        <TabsContent value="overrides" className="mt-0">
+                            <StreamOverridesAdmin />
+                        </TabsContent>
+
+                        <TabsContent value="genres" className="mt-0">
+                            <GenreTaxonomyAdmin />
+                        </TabsContent>
                     </Tabs>
                 )}
 
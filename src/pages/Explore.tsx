@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from "react-router-dom";
-import { Headphones, Search, ArrowLeft, Play, Heart, Map, X, Sun, Moon, Plus } from "lucide-react";
+import { Headphones, Search, ArrowLeft, Play, Heart, Map, X, Sun, Moon, Plus, SlidersHorizontal, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -9,8 +9,13 @@ import {
   getCountryFlag,
   getStationsByCountry,
   getStationsByState,
-  genreTagMap
+  advancedSearch,
+  type AdvancedSearchFilters
 } from "@/services/radioBrowserApi";
+import { dedupeStations } from "@/services/stationDedupe";
+import { stationMatchesGenre } from "@/services/genreTaxonomy";
+import { useGenreTaxonomy } from "@/hooks/useGenreTaxonomy";
+import { ExploreFilterPanel } from "@/components/ExploreFilterPanel";
 import { MapboxMoonlight } from "@/components/MapboxMoonlight";
 import { FloatingPlayer } from "@/components/FloatingPlayer";
 import { Navbar } from "@/components/Navbar";
@@ -30,6 +35,14 @@ import { useAudio } from "@/context/AudioContext";
 import { useSavedLibrary } from "@/hooks/useSavedLibrary";
 import { toast } from 'sonner';
 
+const SEARCH_PAGE_SIZE = 60;
+
+const DEFAULT_FILTERS: AdvancedSearchFilters = {
+  tags: [],
+  lastCheckOk: true,
+  sort: 'votes',
+};
+
 const Explore = () => {
   const navigate = useNavigate();
   const { playStation, setStations } = useAudio();
@@ -38,9 +51,17 @@ const Explore = () => {
   const [loading, setLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedGenre, setSelectedGenre] = useState<string>('all');
+  const genreOptions = useGenreTaxonomy().genres.filter(g => !g.parentId);
   const [showMap, setShowMap] = useState(true);
   const [hasActiveSearch, setHasActiveSearch] = useState(false);
 
+  // Advanced search (filter panel) state; null filters = not in advanced mode
+  const [showFilters, setShowFilters] = useState(false);
+  const [activeFilters, setActiveFilters] = useState<AdvancedSearchFilters | null>(null);
+  const [nextOffset, setNextOffset] = useState(0);
+  const [hasMoreResults, setHasMoreResults] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+
   // Dark mode state
   const [isDarkMode, setIsDarkMode] = useState(() => {
     const saved = localStorage.getItem('darkMode');
@@ -54,7 +75,50 @@ const Explore = () => {
     localStorage.setItem('darkMode', JSON.stringify(isDarkMode));
   }, [isDarkMode]);
 
+  const runAdvancedSearch = async (filters: AdvancedSearchFilters, offset: number) => {
+    const result = await advancedSearch({
+      ...filters,
+      name: searchQuery.trim() || undefined,
+      offset,
+      limit: SEARCH_PAGE_SIZE
+    });
+    setNextOffset(result.offset + result.limit);
+    setHasMoreResults(result.hasMore);
+    return result.stations;
+  };
+
+  const handleApplyFilters = async (filters: AdvancedSearchFilters) => {
+    setLoading(true);
+    setActiveFilters(filters);
+    // Genre dropdown filters client-side; the panel's tags replace it
+    setSelectedGenre('all');
+    const results = await runAdvancedSearch(filters, 0);
+    setLocalStations(results);
+    setHasActiveSearch(true);
+    if (results.length === 0) toast.error("No stations match these filters.");
+    setLoading(false);
+  };
+
+  const handleLoadMore = async () => {
+    if (!activeFilters) return;
+    setLoadingMore(true);
+    const results = await runAdvancedSearch(activeFilters, nextOffset);
+    setLocalStations(prev => dedupeStations([...prev, ...results]));
+    setLoadingMore(false);
+  };
+
+  const handleResetFilters = () => {
+    setActiveFilters(null);
+    setHasMoreResults(false);
+    setLocalStations([]);
+    setHasActiveSearch(false);
+  };
+
   const handleSearch = async () => {
+    if (activeFilters) {
+      handleApplyFilters(activeFilters);
+      return;
+    }
     if (!searchQuery.trim()) return;
     setLoading(true);
 
@@ -65,16 +129,7 @@ const Explore = () => {
     ]);
 
     // Merge results, prioritizing local ones
-    const combined = [...localResults];
-    globalResults.forEach(station => {
-      const isAlreadyLocal = localResults.some(l =>
-        l.stationuuid === station.stationuuid ||
-        l.name.toLowerCase().trim() === station.name.toLowerCase().trim()
-      );
-      if (!isAlreadyLocal) {
-        combined.push(station);
-      }
-    });
+    const combined = dedupeStations([...localResults, ...globalResults]);
 
     setLocalStations(combined);
     setHasActiveSearch(true);
@@ -86,15 +141,24 @@ const Explore = () => {
     setSelectedGenre('all');
     setLocalStations([]);
     setHasActiveSearch(false);
+    setActiveFilters(null);
+    setHasMoreResults(false);
   };
 
   const handleResetMap = () => {
     setLocalStations([]);
     setHasActiveSearch(false);
+    setActiveFilters(null);
+    setHasMoreResults(false);
     toast.info("Map reset to Global View");
   };
 
   const handleRegionSelect = async (countryCode: string, stateName?: string) => {
+    if (activeFilters) {
+      // Keep the panel's filters and narrow them to the clicked region
+      handleApplyFilters({ ...activeFilters, countrycode: countryCode, state: stateName });
+      return;
+    }
     setLoading(true);
     let globalResults: RadioStation[] = [];
     let localResults: RadioStation[] = [];
@@ -113,16 +177,7 @@ const Explore = () => {
     }
 
     // Merge results, prioritizing local ones
-    const combined = [...localResults];
-    globalResults.forEach(station => {
-      const isAlreadyLocal = localResults.some(l =>
-        l.stationuuid === station.stationuuid ||
-        l.name.toLowerCase().trim() === station.name.toLowerCase().trim()
-      );
-      if (!isAlreadyLocal) {
-        combined.push(station);
-      }
-    });
+    const combined = dedupeStations([...localResults, ...globalResults]);
 
     if (combined.length > 0) {
       setLocalStations(combined);
@@ -135,11 +190,7 @@ const Explore = () => {
 
   const filteredStations = selectedGenre === 'all'
     ? stations
-    : stations.filter(s => {
-      const targetTags = genreTagMap[selectedGenre] || [selectedGenre];
-      const stationTags = (s.tags || '').toLowerCase();
-      return targetTags.some(t => stationTags.includes(t.toLowerCase()));
-    });
+    : stations.filter(s => stationMatchesGenre(s.tags, selectedGenre));
 
   const handleStationClick = (station: RadioStation) => {
     setStations(filteredStations, 'explore');
@@ -188,11 +239,19 @@ const Explore = () => {
               </SelectTrigger>
               <SelectContent className="rounded-xl border-2">
                 <SelectItem value="all">ALL GENRES</SelectItem>
-                {['Rock', 'Jazz', 'Electronic', 'Hip Hop', 'Folk', 'Punk', 'Classical', 'Blues', 'Indie', 'Soul'].map(g => (
-                  <SelectItem key={g} value={g.toLowerCase()}>{g.toUpperCase()}</SelectItem>
+                {genreOptions.map(g => (
+                  <SelectItem key={g.id} value={g.id}>{g.name.toUpperCase()}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
+            <Button
+              variant={showFilters || activeFilters ? "default" : "outline"}
+              onClick={() => setShowFilters(!showFilters)}
+              className="h-12 rounded-xl gap-2 border-2"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              FILTERS
+            </Button>
             {(hasActiveSearch || selectedGenre !== 'all' || searchQuery) && (
               <Button onClick={handleClearSearch} variant="destructive" className="h-12 rounded-xl gap-2 shadow-lg">
                 <X className="w-5 h-5" />
@@ -201,6 +260,14 @@ const Explore = () => {
             )}
           </div>
         </div>
+        {showFilters && (
+          <ExploreFilterPanel
+            filters={activeFilters || DEFAULT_FILTERS}
+            onApply={handleApplyFilters}
+            onReset={handleResetFilters}
+            loading={loading}
+          />
+        )}
       </div>
 
       {/* Main Content */}
@@ -274,6 +341,20 @@ const Explore = () => {
             </div>
           ))}
         </div>
+
+        {activeFilters && hasMoreResults && (
+          <div className="flex justify-center mt-10">
+            <Button
+              variant="outline"
+              onClick={handleLoadMore}
+              disabled={loadingMore}
+              className="gap-2 rounded-full border-2 px-8 shadow-soft"
+            >
+              {loadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+              LOAD MORE STATIONS
+            </Button>
+          </div>
+        )}
       </div>
 
       <FloatingPlayer isDarkMode={isDarkMode} />
@@ -1,25 +1,14 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { Music, Radio, Disc, Headphones, Mic2, Globe, Piano, Guitar, Drumstick, Heart, Zap, Users } from "lucide-react";
+import { Music, Radio, Disc, Headphones, Mic2, Globe, Piano, Guitar, Drumstick, Heart, Zap, Users, type LucideIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useAuth } from "@/context/AuthContext";
 import { supabase } from "@/lib/supabase";
+import { useGenreTaxonomy } from "@/hooks/useGenreTaxonomy";
 
-const genres = [
-  { id: 'rock', name: 'Rock', icon: Guitar },
-  { id: 'jazz', name: 'Jazz', icon: Piano },
-  { id: 'electronic', name: 'Electronic/Dance', icon: Zap },
-  { id: 'hip-hop', name: 'Hip Hop', icon: Mic2 },
-  { id: 'folk', name: 'Folk/Americana', icon: Music },
-  { id: 'punk', name: 'Punk', icon: Guitar },
-  { id: 'classical', name: 'Classical', icon: Piano },
-  { id: 'blues', name: 'Blues', icon: Guitar },
-  { id: 'indie', name: 'Indie/Alternative', icon: Disc },
-  { id: 'soul', name: 'Soul/R&B', icon: Heart },
-  { id: 'metal', name: 'Metal', icon: Drumstick },
-  { id: 'reggae', name: 'Reggae/Ska', icon: Radio },
-];
+// Icon names stored on the taxonomy (genre_taxonomy.icon); anything else falls back to Music
+const genreIcons: Record<string, LucideIcon> = { Music, Radio, Disc, Headphones, Mic2, Globe, Piano, Guitar, Drumstick, Heart, Zap };
 
 const artistsByGenre: Record<string, string[]> = {
   'rock': ['The Beatles', 'Led Zeppelin', 'Queen', 'Pink Floyd', 'David Bowie', 'The Rolling Stones'],
@@ -41,6 +30,7 @@ const Onboarding = () => {
   const [selectedGenres, setSelectedGenres] = useState<string[]>([]);
   const [selectedArtists, setSelectedArtists] = useState<string[]>([]);
   const [customArtist, setCustomArtist] = useState('');
+  const genres = useGenreTaxonomy().genres.filter(genre => genre.featured);
 
   const toggleGenre = (genreId: string) => {
     setSelectedGenres(prev =>
@@ -133,7 +123,7 @@ const Onboarding = () => {
           </div>
           <div className="grid grid-cols-4 gap-4">
             {genres.map(genre => {
-              const Icon = genre.icon;
+              const Icon = (genre.icon && genreIcons[genre.icon]) || Music;
               const isSelected = selectedGenres.includes(genre.id);
               return (
                 <button
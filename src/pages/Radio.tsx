@@ -1,16 +1,22 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { Slider } from "@/components/ui/slider";
-import { ChevronLeft, ChevronRight, Play, Pause, Heart, Loader, Volume2, Radio as RadioIcon, MapPin, X, Headphones, Sun, Moon } from "lucide-react";
+import { ChevronLeft, ChevronRight, Play, Pause, Heart, Loader, Volume2, Radio as RadioIcon, MapPin, X, Headphones, Sun, Moon, Shuffle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { RadioInterface } from "@/components/RadioInterface";
 import { searchStationsByGenres, type RadioStation, getCountryFlag, regionToCountries } from "@/services/radioBrowserApi";
 import { getApprovedLocalStations } from "@/services/localStationService";
+import { dedupeStations, isSameStation } from "@/services/stationDedupe";
+import { genreTaxonomyReady, getMoodGenres } from "@/services/genreTaxonomy";
+import { useGenreTaxonomy } from "@/hooks/useGenreTaxonomy";
+import { RANKING_STRATEGIES, getRankingStrategy, randomSeed, type GeoPoint, type RankingStrategyId } from "@/services/ranking";
 import { toast } from "sonner";
 import { StationFeedbackModal } from "@/components/StationFeedbackModal";
-import { StaticAudioPlayer } from "@/components/StaticAudioPlayer";
 import { RadioPlayer } from "@/components/RadioPlayer";
 import { NowPlaying } from "@/components/NowPlaying";
+import { SleepTimerButton } from "@/components/SleepTimerButton";
+import { EqualizerButton } from "@/components/EqualizerButton";
+import { RecordButton } from "@/components/RecordButton";
 import SavedStations from "@/components/SavedStations";
 import { UserAuth } from "@/components/UserAuth";
 import { Navbar } from "@/components/Navbar";
@@ -34,18 +40,6 @@ import {
 import { useAudio } from "@/context/AudioContext";
 import { useSavedLibrary } from "@/hooks/useSavedLibrary";
 
-const moodToGenres: Record<string, string[]> = {
-  all: ['rock', 'jazz', 'electronic', 'folk', 'classical', 'blues', 'indie', 'soul'],
-  upbeat: ['electronic', 'hip-hop', 'rock', 'reggae'],
-  'dinner-party': ['jazz', 'soul', 'classical', 'folk'],
-  'nostalgic-evening': ['blues', 'jazz', 'folk', 'soul'],
-  'focus-work': ['classical', 'electronic', 'jazz'],
-  'chill-vibes': ['indie', 'folk', 'soul', 'jazz'],
-  'energetic': ['rock', 'metal', 'electronic', 'hip-hop'],
-};
-
-
-
 const Radio = () => {
   const navigate = useNavigate();
   const {
@@ -71,7 +65,14 @@ const Radio = () => {
   } = useAudio();
 
   const [mood, setMood] = useState<string>('all');
+  const { moods } = useGenreTaxonomy();
   const [region, setRegion] = useState<string>('all');
+  // Station ordering: strategy persists, the seed is rolled per visit (or on "reshuffle")
+  const [rankingStrategy, setRankingStrategy] = useState<RankingStrategyId>(
+    () => getRankingStrategy(localStorage.getItem('rankingStrategy') as RankingStrategyId).id
+  );
+  const [rankingSeed, setRankingSeed] = useState(randomSeed);
+  const [userLocation, setUserLocation] = useState<GeoPoint | null>(null);
   // Use the global hook for saved library sync
   const { isStationSaved, saveStation, removeStation } = useSavedLibrary();
   const { user } = useAuth();
@@ -102,6 +103,20 @@ const Radio = () => {
     localStorage.setItem('darkMode', String(isDarkMode));
   }, [isDarkMode]);
 
+  useEffect(() => {
+    localStorage.setItem('rankingStrategy', rankingStrategy);
+    if (rankingStrategy !== 'closest' || userLocation || !navigator.geolocation) return;
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => setUserLocation({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      (error) => {
+        console.warn('[Radio] Location unavailable for ranking:', error.message);
+        toast.error("Couldn't get your location - using Indie Shuffle instead");
+      },
+      { maximumAge: 30 * 60 * 1000, timeout: 10000 }
+    );
+  }, [rankingStrategy, userLocation]);
+
   const [activeTab, setActiveTab] = useState("player");
   const [offlineStations, setOfflineStations] = useState<Set<string>>(new Set());
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
@@ -186,13 +201,14 @@ const Radio = () => {
     const fetchStations = async () => {
       // setLoading(true); // Handled by context now
       setOfflineStations(new Set());
+      await genreTaxonomyReady();
 
       // PRIORITY: Determine which genres to use - CLEAR LOGIC
       let genresToFetch: string[];
 
       if (mood !== 'all') {
         // If a specific mood is selected, use ONLY those genres (ignore stored preferences)
-        genresToFetch = moodToGenres[mood] || [];
+        genresToFetch = getMoodGenres(mood);
         console.log(`Using mood genres ONLY (${mood}):`, genresToFetch);
       } else if (userPreferences.length > 0) {
         // If mood is 'all' but user has saved preferences, use ONLY those
@@ -200,30 +216,20 @@ const Radio = () => {
         console.log('Using user preferences EXCLUSIVELY:', genresToFetch);
       } else {
         // Fallback to default broad mix ONLY if no preferences
-        genresToFetch = moodToGenres.all;
+        genresToFetch = getMoodGenres('all');
         console.log('Using default genres (no preferences):', genresToFetch);
       }
 
       // Fetch both local curated stations and global ones
       const [localData, globalData] = await Promise.all([
         getApprovedLocalStations(genresToFetch),
-        searchStationsByGenres(genresToFetch)
+        searchStationsByGenres(genresToFetch, { strategy: rankingStrategy, seed: rankingSeed, origin: userLocation })
       ]);
 
-      // Merge results - PRIORITIZE local/curated stations by putting them first
-      let data = [...localData];
-
-      // Add global stations that aren't already represented by a local curated one
-      // We check both uuid AND name to catch manual submissions that have different IDs in global registry
-      globalData.forEach((gStation) => {
-        const isAlreadyLocal = localData.some(l =>
-          l.stationuuid === gStation.stationuuid ||
-          l.name.toLowerCase().trim() === gStation.name.toLowerCase().trim()
-        );
-        if (!isAlreadyLocal) {
-          data.push(gStation);
-        }
-      });
+      // Merge results - PRIORITIZE local/curated stations by putting them first.
+      // Global duplicates of a curated station (different uuid, http/https, "KEXP 90.3" vs "KEXP")
+      // fold into it, contributing their metadata and stream URLs as alternates.
+      let data = dedupeStations([...localData, ...globalData]);
 
       // Filter by region if selected
       if (region !== 'all') {
@@ -249,10 +255,7 @@ const Radio = () => {
         // CRITICAL: Handle data staleness. If it's a local station, 
         // find its latest data in our fetched results.
         if (stationToPlay.stationuuid?.startsWith('local-')) {
-          const freshLocal = localData.find(l =>
-            l.stationuuid === stationToPlay.stationuuid ||
-            l.name.toLowerCase().trim() === stationToPlay.name.toLowerCase().trim()
-          );
+          const freshLocal = localData.find(l => isSameStation(l, stationToPlay));
           if (freshLocal) {
             console.log(`[Radio] Refreshing stale data for: ${stationToPlay.name}`);
             stationToPlay = freshLocal;
@@ -260,7 +263,7 @@ const Radio = () => {
         }
 
         // Remove it if it already exists in the list (avoid duplicates)
-        data = data.filter(s => s.url_resolved !== stationToPlay.url_resolved);
+        data = data.filter(s => !isSameStation(s, stationToPlay));
         data = [stationToPlay, ...data];
 
         // Play it immediately
@@ -279,7 +282,7 @@ const Radio = () => {
       }
     };
     fetchStations();
-  }, [mood, region, userPreferences, preferencesLoaded]);
+  }, [mood, region, userPreferences, preferencesLoaded, rankingStrategy, rankingSeed, userLocation]);
 
   const handlePlayPause = () => {
     togglePlay('home');
@@ -465,13 +468,9 @@ const Radio = () => {
                           <span className="truncate max-w-[80px]">MOOD</span>
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="all">All Moods</SelectItem>
-                          <SelectItem value="upbeat">Upbeat</SelectItem>
-                          <SelectItem value="dinner-party">Dinner Party</SelectItem>
-                          <SelectItem value="nostalgic-evening">Nostalgic</SelectItem>
-                          <SelectItem value="focus-work">Focus</SelectItem>
-                          <SelectItem value="chill-vibes">Chill</SelectItem>
-                          <SelectItem value="energetic">Energetic</SelectItem>
+                          {moods.map(option => (
+                            <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
 
@@ -556,6 +555,37 @@ const Radio = () => {
               className="w-full"
             />
 
+            <div className="flex items-center gap-2">
+              <Select value={rankingStrategy} onValueChange={(value) => setRankingStrategy(value as RankingStrategyId)}>
+                <SelectTrigger className="h-9 w-48 px-3 border-2 border-[#331F21] dark:border-[#1a202c] bg-[#F9F9FB] dark:bg-[#D3E1E6] rounded-md font-bold text-xs text-[#331F21] dark:text-[#1a202c] shadow-[2px_2px_0_#331F21] dark:shadow-[2px_2px_0_#1a202c]">
+                  <span className="truncate">ORDER: {getRankingStrategy(rankingStrategy).label.toUpperCase()}</span>
+                </SelectTrigger>
+                <SelectContent>
+                  {RANKING_STRATEGIES.map(strategy => (
+                    <SelectItem key={strategy.id} value={strategy.id}>
+                      <div className="flex flex-col">
+                        <span className="font-bold">{strategy.label}</span>
+                        <span className="text-[10px] text-muted-foreground">{strategy.description}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setRankingSeed(randomSeed())}
+                className="h-9 w-9 border-2 border-[#331F21] dark:border-[#1a202c] bg-[#F9F9FB] dark:bg-[#D3E1E6] rounded-md text-[#331F21] dark:text-[#1a202c] shadow-[2px_2px_0_#331F21] dark:shadow-[2px_2px_0_#1a202c]"
+                aria-label="Reshuffle stations"
+                title="Reshuffle"
+              >
+                <Shuffle className="w-4 h-4" />
+              </Button>
+              <SleepTimerButton className="h-9 px-3 border-2 border-[#331F21] dark:border-[#1a202c] bg-[#F9F9FB] dark:bg-[#D3E1E6] rounded-md text-[#331F21] dark:text-[#1a202c] shadow-[2px_2px_0_#331F21] dark:shadow-[2px_2px_0_#1a202c]" />
+              <EqualizerButton className="h-9 px-3 border-2 border-[#331F21] dark:border-[#1a202c] bg-[#F9F9FB] dark:bg-[#D3E1E6] rounded-md text-[#331F21] dark:text-[#1a202c] shadow-[2px_2px_0_#331F21] dark:shadow-[2px_2px_0_#1a202c]" />
+              <RecordButton className="h-9 px-3 border-2 border-[#331F21] dark:border-[#1a202c] bg-[#F9F9FB] dark:bg-[#D3E1E6] rounded-md text-[#331F21] dark:text-[#1a202c] shadow-[2px_2px_0_#331F21] dark:shadow-[2px_2px_0_#1a202c]" />
+            </div>
+
             <button
               onClick={() => setShowFeedbackModal(true)}
               className="text-[10px] font-black uppercase text-[#331F21]/40 hover:text-[#331F21] transition-colors underline decoration-2 underline-offset-4"
@@ -564,9 +594,6 @@ const Radio = () => {
             </button>
           </div>
 
-          {/* Static Audio Player - plays during loading */}
-          <StaticAudioPlayer isPlaying={isConnecting} volume={volume * 0.6} />
-
           {/* Location Map Dialog */}
           <Dialog open={showMapDialog} onOpenChange={setShowMapDialog}>
             <DialogContent className="max-w-2xl bg-[#F9F9FB] dark:bg-card border-4 border-[#331F21] dark:border-border">
@@ -0,0 +1,211 @@
+/**
+ * Alarm clock schedules: wake up to a saved station or a mood queue at a local time,
+ * optionally repeating on given weekdays. Stored in user_preferences.alarms when
+ * signed in, localStorage for guests. Playback itself is driven by useAlarmClock.
+ */
+
+import { supabase } from "@/lib/supabase";
+import { searchStationsByGenres, type RadioStation } from "./radioBrowserApi";
+import { genreTaxonomyReady, getMoodGenres } from "./genreTaxonomy";
+
+export type AlarmSource =
+    | { kind: 'station'; station: RadioStation }
+    | { kind: 'mood'; moodId: string; moodName: string };
+
+export interface Alarm {
+    id: string;
+    // Local wall-clock time, "HH:MM"
+    time: string;
+    // 0 = Sunday ... 6 = Saturday; empty rings once, then disables itself
+    days: number[];
+    source: AlarmSource;
+    // Volume ramp from silence to the normal level
+    rampSeconds: number;
+    enabled: boolean;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const DEFAULT_RAMP_SECONDS = 60;
+
+const LOCAL_ALARMS_KEY = 'alarms';
+
+let alarms: Alarm[] = [];
+let currentUserId: string | null = null;
+let alarmsPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const normalizeAlarms = (raw: unknown): Alarm[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.filter((alarm): alarm is Alarm =>
+        !!alarm && typeof alarm.id === 'string' && /^\d{2}:\d{2}$/.test(alarm.time) && !!alarm.source
+    ).map(alarm => ({
+        ...alarm,
+        days: Array.isArray(alarm.days) ? alarm.days.filter(day => day >= 0 && day <= 6) : [],
+        rampSeconds: Number.isFinite(Number(alarm.rampSeconds)) ? Number(alarm.rampSeconds) : DEFAULT_RAMP_SECONDS,
+        enabled: alarm.enabled !== false,
+    }));
+};
+
+const fetchAlarms = async (userId: string | null): Promise<Alarm[]> => {
+    if (userId) {
+        try {
+            const { data } = await supabase
+                .from('user_preferences')
+                .select('alarms')
+                .eq('user_id', userId)
+                .single();
+            if (data?.alarms) return normalizeAlarms(data.alarms);
+        } catch (err) {
+            console.warn('[Alarm] Could not load cloud alarms:', err);
+        }
+    }
+    try {
+        return normalizeAlarms(JSON.parse(localStorage.getItem(LOCAL_ALARMS_KEY) || '[]'));
+    } catch {
+        return [];
+    }
+};
+
+/** (Re)load the given user's alarms. Call on sign in/out. */
+export const loadAlarms = (userId: string | null): Promise<void> => {
+    currentUserId = userId;
+    alarmsPromise = fetchAlarms(userId).then(loaded => {
+        if (currentUserId !== userId) return; // Superseded by a newer load
+        alarms = loaded;
+        console.log(`[Alarm] Loaded ${loaded.length} alarm(s)`);
+        notify();
+    });
+    return alarmsPromise;
+};
+
+export const alarmsReady = (): Promise<void> => alarmsPromise || loadAlarms(currentUserId);
+
+export const getAlarms = (): Alarm[] => alarms;
+
+/** Called whenever the alarm list changes; returns an unsubscribe */
+export const subscribeToAlarms = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+const persistAlarms = async () => {
+    localStorage.setItem(LOCAL_ALARMS_KEY, JSON.stringify(alarms));
+    if (!currentUserId) return;
+    const { error } = await supabase
+        .from('user_preferences')
+        .upsert({
+            user_id: currentUserId,
+            alarms,
+            updated_at: new Date().toISOString()
+        });
+    if (error) throw error;
+};
+
+/** Insert or update by id */
+export const saveAlarm = async (alarm: Alarm): Promise<void> => {
+    alarms = alarms.some(existing => existing.id === alarm.id)
+        ? alarms.map(existing => existing.id === alarm.id ? alarm : existing)
+        : [...alarms, alarm];
+    notify();
+    await persistAlarms();
+};
+
+export const deleteAlarm = async (id: string): Promise<void> => {
+    alarms = alarms.filter(alarm => alarm.id !== id);
+    notify();
+    await persistAlarms();
+};
+
+// --- SCHEDULING ---
+
+/** The first time this alarm rings strictly after `from`, or null if it's off */
+export const getNextOccurrence = (alarm: Alarm, from: Date): Date | null => {
+    if (!alarm.enabled) return null;
+    const [hours, minutes] = alarm.time.split(':').map(Number);
+
+    // A week ahead always contains the next matching weekday
+    for (let offset = 0; offset <= 7; offset++) {
+        const candidate = new Date(from);
+        candidate.setDate(from.getDate() + offset);
+        candidate.setHours(hours, minutes, 0, 0);
+        if (candidate <= from) continue;
+        if (alarm.days.length === 0 || alarm.days.includes(candidate.getDay())) return candidate;
+    }
+    return null;
+};
+
+export const getNextAlarm = (list: Alarm[], from: Date): { alarm: Alarm; at: Date } | null => {
+    let next: { alarm: Alarm; at: Date } | null = null;
+    for (const alarm of list) {
+        const at = getNextOccurrence(alarm, from);
+        if (at && (!next || at < next.at)) next = { alarm, at };
+    }
+    return next;
+};
+
+/** "Daily", "Weekdays", "Mon, Wed" or "Once" */
+export const describeAlarmDays = (days: number[]): string => {
+    if (days.length === 0) return 'Once';
+    if (days.length === 7) return 'Daily';
+    const sorted = [...days].sort();
+    if (sorted.join() === '1,2,3,4,5') return 'Weekdays';
+    if (sorted.join() === '0,6') return 'Weekends';
+    return sorted.map(day => WEEKDAY_LABELS[day]).join(', ');
+};
+
+/** "Today 07:30", "Tomorrow 07:30" or "Mon 07:30" */
+export const formatAlarmTime = (at: Date, now: Date = new Date()): string => {
+    const time = `${String(at.getHours()).padStart(2, '0')}:${String(at.getMinutes()).padStart(2, '0')}`;
+    const tomorrow = new Date(now);
+    tomorrow.setDate(now.getDate() + 1);
+    if (at.toDateString() === now.toDateString()) return `Today ${time}`;
+    if (at.toDateString() === tomorrow.toDateString()) return `Tomorrow ${time}`;
+    return `${WEEKDAY_LABELS[at.getDay()]} ${time}`;
+};
+
+export const describeAlarmSource = (source: AlarmSource): string =>
+    source.kind === 'station' ? source.station.name : `${source.moodName} mix`;
+
+/** The station queue a mood alarm wakes up to */
+export const fetchMoodQueue = async (moodId: string): Promise<RadioStation[]> => {
+    await genreTaxonomyReady();
+    return searchStationsByGenres(getMoodGenres(moodId));
+};
+
+// --- FALLBACK CHIME ---
+
+// Bell partials relative to the fundamental, with their relative loudness
+const CHIME_PARTIALS: [number, number][] = [[1, 1], [2.76, 0.4], [5.4, 0.15]];
+const CHIME_NOTES = [880, 659.25, 523.25];
+const CHIME_INTERVAL_MS = 2500;
+
+/**
+ * Synthesized wake-up chime for when the station won't connect: no file and no
+ * network needed. Plays into `output` every few seconds until the returned stop is called.
+ */
+export const startAlarmChime = (audioContext: AudioContext, output: AudioNode): (() => void) => {
+    const ring = () => {
+        const start = audioContext.currentTime;
+        CHIME_NOTES.forEach((frequency, i) => {
+            const noteStart = start + i * 0.35;
+            CHIME_PARTIALS.forEach(([ratio, level]) => {
+                const oscillator = audioContext.createOscillator();
+                const envelope = audioContext.createGain();
+                oscillator.frequency.value = frequency * ratio;
+                envelope.gain.setValueAtTime(0.0001, noteStart);
+                envelope.gain.exponentialRampToValueAtTime(0.3 * level, noteStart + 0.01);
+                envelope.gain.exponentialRampToValueAtTime(0.0001, noteStart + 1.8);
+                oscillator.connect(envelope);
+                envelope.connect(output);
+                oscillator.start(noteStart);
+                oscillator.stop(noteStart + 1.9);
+            });
+        });
+    };
+
+    ring();
+    const interval = window.setInterval(ring, CHIME_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+};
@@ -0,0 +1,240 @@
+/**
+ * Effects chain for the tap graph: 10-band EQ -> compressor -> stereo width.
+ * Settings are the user's default plus optional per-station overrides, stored in
+ * user_preferences.audio_effects when signed in, localStorage for guests.
+ */
+
+import { supabase } from "@/lib/supabase";
+
+export type EqPresetId = 'flat' | 'bass-boost' | 'vocal' | 'late-night' | 'custom';
+
+export interface AudioEffectsSettings {
+    enabled: boolean;
+    preset: EqPresetId;
+    // dB per band of EQ_BANDS
+    gains: number[];
+    compressor: boolean;
+    // 0 = mono, 1 = as broadcast, 2 = extra wide
+    stereoWidth: number;
+}
+
+interface StoredEffects {
+    default: AudioEffectsSettings;
+    stations: Record<string, AudioEffectsSettings>;
+}
+
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_RANGE_DB = 12;
+
+export const EQ_PRESETS: { id: Exclude<EqPresetId, 'custom'>; name: string; gains: number[]; compressor: boolean }[] = [
+    { id: 'flat', name: 'Flat', gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0], compressor: false },
+    { id: 'bass-boost', name: 'Bass Boost', gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0], compressor: false },
+    { id: 'vocal', name: 'Vocal', gains: [-3, -2, -1, 0, 2, 4, 4, 3, 1, 0], compressor: false },
+    // Quiet listening: tame the low end and even out loud/soft passages
+    { id: 'late-night', name: 'Late Night', gains: [-4, -3, -2, 0, 0, 1, 2, 1, 0, -1], compressor: true },
+];
+
+export const DEFAULT_EFFECTS: AudioEffectsSettings = {
+    enabled: false,
+    preset: 'flat',
+    gains: EQ_PRESETS[0].gains,
+    compressor: false,
+    stereoWidth: 1,
+};
+
+const LOCAL_EFFECTS_KEY = 'audioEffects';
+
+let stored: StoredEffects = { default: DEFAULT_EFFECTS, stations: {} };
+let active: AudioEffectsSettings = DEFAULT_EFFECTS;
+let currentUserId: string | null = null;
+// The station playing now, whose override (if any) is the active one
+let currentStationId: string | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const normalizeSettings = (raw: unknown): AudioEffectsSettings => {
+    const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<AudioEffectsSettings>;
+    const gains = Array.isArray(value.gains) && value.gains.length === EQ_BANDS.length
+        ? value.gains.map(gain => Math.max(-EQ_RANGE_DB, Math.min(EQ_RANGE_DB, Number(gain) || 0)))
+        : DEFAULT_EFFECTS.gains;
+    return {
+        enabled: !!value.enabled,
+        preset: value.preset || 'custom',
+        gains,
+        compressor: !!value.compressor,
+        stereoWidth: Number.isFinite(value.stereoWidth) ? Math.max(0, Math.min(2, value.stereoWidth!)) : 1,
+    };
+};
+
+const normalizeStored = (raw: unknown): StoredEffects => {
+    const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<StoredEffects>;
+    const stations: Record<string, AudioEffectsSettings> = {};
+    Object.entries(value.stations || {}).forEach(([id, settings]) => { stations[id] = normalizeSettings(settings); });
+    return { default: value.default ? normalizeSettings(value.default) : DEFAULT_EFFECTS, stations };
+};
+
+// --- AUDIO GRAPH ---
+
+interface EffectsChain {
+    input: AudioNode;
+    output: AudioNode;
+    bands: BiquadFilterNode[];
+    compressor: DynamicsCompressorNode;
+    // Stereo width matrix: straight and crossed channel gains
+    direct: GainNode[];
+    cross: GainNode[];
+}
+
+let chain: EffectsChain | null = null;
+
+const applyToChain = (settings: AudioEffectsSettings) => {
+    if (!chain) return;
+    const now = chain.compressor.context.currentTime;
+    const on = settings.enabled;
+
+    chain.bands.forEach((band, i) => band.gain.setTargetAtTime(on ? settings.gains[i] : 0, now, 0.05));
+
+    // Ratio 1 with a 0 dB threshold leaves the signal untouched
+    const compress = on && settings.compressor;
+    chain.compressor.threshold.setTargetAtTime(compress ? -24 : 0, now, 0.05);
+    chain.compressor.ratio.setTargetAtTime(compress ? 4 : 1, now, 0.05);
+
+    // L' = L(1+w)/2 + R(1-w)/2, and the mirror for R'
+    const width = on ? settings.stereoWidth : 1;
+    chain.direct.forEach(gain => gain.gain.setTargetAtTime((1 + width) / 2, now, 0.05));
+    chain.cross.forEach(gain => gain.gain.setTargetAtTime((1 - width) / 2, now, 0.05));
+};
+
+/** Build the chain once for the shared AudioContext; the tap graph routes every station through it */
+export const createEffectsChain = (audioContext: AudioContext): { input: AudioNode; output: AudioNode } => {
+    const bands = EQ_BANDS.map((frequency, i) => {
+        const band = audioContext.createBiquadFilter();
+        band.type = i === 0 ? 'lowshelf' : i === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking';
+        band.frequency.value = frequency;
+        band.Q.value = 1.4;
+        band.gain.value = 0;
+        return band;
+    });
+    bands.slice(1).forEach((band, i) => bands[i].connect(band));
+
+    const compressor = audioContext.createDynamicsCompressor();
+    compressor.threshold.value = 0;
+    compressor.knee.value = 30;
+    compressor.ratio.value = 1;
+    compressor.attack.value = 0.003;
+    compressor.release.value = 0.25;
+    // Upmix mono to both channels here: the splitter below reads channels discretely,
+    // so a mono station would otherwise only reach the left speaker
+    compressor.channelCount = 2;
+    compressor.channelCountMode = 'explicit';
+    compressor.channelInterpretation = 'speakers';
+    bands[bands.length - 1].connect(compressor);
+
+    const splitter = audioContext.createChannelSplitter(2);
+    const merger = audioContext.createChannelMerger(2);
+    const direct = [0, 1].map(() => audioContext.createGain());
+    const cross = [0, 1].map(() => audioContext.createGain());
+    compressor.connect(splitter);
+    [0, 1].forEach(channel => {
+        splitter.connect(direct[channel], channel);
+        direct[channel].connect(merger, 0, channel);
+        splitter.connect(cross[channel], channel);
+        cross[channel].connect(merger, 0, 1 - channel);
+    });
+
+    chain = { input: bands[0], output: merger, bands, compressor, direct, cross };
+    applyToChain(active);
+    return { input: chain.input, output: chain.output };
+};
+
+// --- SETTINGS ---
+
+/** The settings in effect for a station: its own override, or the user's default */
+export const getEffectsFor = (stationId: string | null): AudioEffectsSettings =>
+    (stationId && stored.stations[stationId]) || stored.default;
+
+export const hasStationEffects = (stationId: string | null): boolean =>
+    !!stationId && !!stored.stations[stationId];
+
+export const getActiveEffects = (): AudioEffectsSettings => active;
+
+/** Change what is heard right now without saving (live slider drags) */
+export const previewAudioEffects = (settings: AudioEffectsSettings) => {
+    active = settings;
+    applyToChain(settings);
+    notify();
+};
+
+/** Called whenever the active or stored settings change; returns an unsubscribe */
+export const subscribeToAudioEffects = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+const fetchStored = async (userId: string | null): Promise<StoredEffects> => {
+    if (userId) {
+        try {
+            const { data } = await supabase
+                .from('user_preferences')
+                .select('audio_effects')
+                .eq('user_id', userId)
+                .single();
+            if (data?.audio_effects) return normalizeStored(data.audio_effects);
+        } catch (err) {
+            console.warn('[Effects] Could not load cloud settings:', err);
+        }
+    }
+    try {
+        return normalizeStored(JSON.parse(localStorage.getItem(LOCAL_EFFECTS_KEY) || '{}'));
+    } catch {
+        return { default: DEFAULT_EFFECTS, stations: {} };
+    }
+};
+
+/** (Re)load the given user's settings. Call on sign in/out. */
+export const loadAudioEffects = async (userId: string | null): Promise<void> => {
+    currentUserId = userId;
+    const loaded = await fetchStored(userId);
+    if (currentUserId !== userId) return; // Superseded by a newer load
+    stored = loaded;
+    previewAudioEffects(getEffectsFor(currentStationId));
+};
+
+/** Switch to a station's override, or back to the default when it has none */
+export const selectEffectsStation = (stationId: string | null) => {
+    currentStationId = stationId;
+    previewAudioEffects(getEffectsFor(stationId));
+};
+
+const persistStored = async () => {
+    localStorage.setItem(LOCAL_EFFECTS_KEY, JSON.stringify(stored));
+    if (!currentUserId) return;
+    const { error } = await supabase
+        .from('user_preferences')
+        .upsert({
+            user_id: currentUserId,
+            audio_effects: stored,
+            updated_at: new Date().toISOString()
+        });
+    if (error) throw error;
+};
+
+/** Save as the default, or as an override for one station when `stationId` is given */
+export const saveAudioEffects = async (changed: AudioEffectsSettings, stationId: string | null): Promise<void> => {
+    // A fresh object, so subscribers re-render even when only where it's saved changed
+    const settings = { ...changed };
+    stored = stationId
+        ? { ...stored, stations: { ...stored.stations, [stationId]: settings } }
+        : { ...stored, default: settings };
+    previewAudioEffects(settings);
+    await persistStored();
+};
+
+/** Drop a station's override; it goes back to the default */
+export const clearStationEffects = async (stationId: string): Promise<void> => {
+    const { [stationId]: _removed, ...stations } = stored.stations;
+    stored = { ...stored, stations };
+    previewAudioEffects(stored.default);
+    await persistStored();
+};
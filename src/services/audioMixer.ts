@@ -0,0 +1,88 @@
+/**
+ * Browser mixer for the player state machine: equal-power fades on each element's
+ * channel gain in the tap graph, plus the looping static bed that fills the gap
+ * while a station connects.
+ */
+
+import type { MixerSource, PlayerMixer } from "./playerMachine";
+import { initializeAudioTap } from "./songIdentification";
+
+const STATIC_BED_SRC = '/sounds/static.wav';
+// Points per fade curve; plenty for a smooth ramp of a few seconds
+const CURVE_STEPS = 64;
+
+export interface CrossfadeMixer extends PlayerMixer<HTMLAudioElement> {
+    // 0-1, relative to the element volume of the stations
+    setStaticVolume(volume: number): void;
+}
+
+/**
+ * Equal-power ramp (quarter sine/cosine) from the gain's current value, so a fade
+ * interrupted halfway carries on from where it was instead of jumping.
+ */
+const rampEqualPower = (param: AudioParam, target: 0 | 1, ms: number, now: number) => {
+    const current = Math.min(1, Math.max(0, param.value));
+    param.cancelScheduledValues(now);
+    if (ms <= 0 || current === target) {
+        param.setValueAtTime(target, now);
+        return;
+    }
+
+    // Angle on the quarter circle: gain = sin(angle) fading in, cos(angle) fading out
+    const start = target === 1 ? Math.asin(current) : Math.acos(current);
+    const curve = new Float32Array(CURVE_STEPS);
+    for (let i = 0; i < CURVE_STEPS; i++) {
+        const angle = start + (Math.PI / 2 - start) * (i / (CURVE_STEPS - 1));
+        curve[i] = target === 1 ? Math.sin(angle) : Math.cos(angle);
+    }
+    param.setValueCurveAtTime(curve, now, ms / 1000);
+};
+
+export const createCrossfadeMixer = (): CrossfadeMixer => {
+    let bed: HTMLAudioElement | null = null;
+    let bedVolume = 0.5;
+    let bedStopTimer: number | undefined;
+
+    const getBed = () => {
+        if (!bed) {
+            bed = new Audio(STATIC_BED_SRC);
+            bed.loop = true;
+            bed.volume = bedVolume;
+        }
+        return bed;
+    };
+
+    const fade = (source: MixerSource<HTMLAudioElement>, target: 0 | 1, ms: number) => {
+        const element = source === 'static' ? getBed() : source;
+        // The bed bypasses the station chain: it's filler, not part of what's on air
+        const { audioContext, channel } = initializeAudioTap(element, { direct: source === 'static' });
+        if (audioContext.state === 'suspended') audioContext.resume().catch(() => { });
+        if (channel) rampEqualPower(channel.gain, target, ms, audioContext.currentTime);
+
+        if (source !== 'static') return;
+        window.clearTimeout(bedStopTimer);
+        if (target === 1) {
+            element.play().catch(error => console.warn('[Mixer] Could not play static bed:', error));
+        } else {
+            bedStopTimer = window.setTimeout(() => {
+                element.pause();
+                element.currentTime = 0;
+            }, ms);
+        }
+    };
+
+    return {
+        prepare: (media) => {
+            const { audioContext, channel } = initializeAudioTap(media);
+            if (channel) rampEqualPower(channel.gain, 0, 0, audioContext.currentTime);
+        },
+        crossfade: (from, to, ms) => {
+            if (from) fade(from, 0, ms);
+            if (to) fade(to, 1, ms);
+        },
+        setStaticVolume: (volume) => {
+            bedVolume = Math.min(Math.max(volume, 0), 1);
+            if (bed) bed.volume = bedVolume;
+        },
+    };
+};
@@ -0,0 +1,98 @@
+/**
+ * Contribute listening signals back to radio-browser: a click (/url/{uuid}) when a
+ * station actually starts playing and a vote (/vote/{uuid}) when one is saved.
+ * radio-browser ranks stations by these counts, and so does our own curation.
+ * Both go straight through the mirror failover (never the query cache) and can be
+ * switched off per device in Settings.
+ */
+
+import { fetchFromMirrors, type RadioStation } from "./radioBrowserApi";
+
+export interface ReportingPreferences {
+    shareClicks: boolean;
+    voteOnSave: boolean;
+}
+
+const STORAGE_KEY = 'communityReporting';
+const DEFAULT_PREFERENCES: ReportingPreferences = { shareClicks: true, voteOnSave: true };
+
+// Skipping past a station within this window doesn't count as a listen
+const CLICK_DEBOUNCE_MS = 5000;
+
+// Only real radio-browser entries; curated ("local-") and shared-link ("param-") stations have no uuid there
+const RADIO_BROWSER_UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const clickedThisSession = new Set<string>();
+const votedThisSession = new Set<string>();
+let pendingClick: { uuid: string; timer: number } | null = null;
+
+export const getReportingPreferences = (): ReportingPreferences => {
+    try {
+        return { ...DEFAULT_PREFERENCES, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+    } catch {
+        return DEFAULT_PREFERENCES;
+    }
+};
+
+export const setReportingPreferences = (patch: Partial<ReportingPreferences>): ReportingPreferences => {
+    const next = { ...getReportingPreferences(), ...patch };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    if (!next.shareClicks && pendingClick) {
+        clearTimeout(pendingClick.timer);
+        pendingClick = null;
+    }
+    return next;
+};
+
+const isReportable = (station: RadioStation | null | undefined): station is RadioStation =>
+    !!station && !station.isManual && RADIO_BROWSER_UUID.test(station.stationuuid);
+
+/**
+ * Count a listen once the station has kept playing for a few seconds.
+ * Each station is reported at most once per session; switching stations
+ * before the debounce fires cancels the pending report.
+ */
+export const reportStationClick = (station: RadioStation | null | undefined) => {
+    if (!isReportable(station) || !getReportingPreferences().shareClicks) return;
+    const uuid = station.stationuuid;
+    if (clickedThisSession.has(uuid) || pendingClick?.uuid === uuid) return;
+
+    if (pendingClick) clearTimeout(pendingClick.timer);
+    pendingClick = {
+        uuid,
+        timer: window.setTimeout(() => {
+            pendingClick = null;
+            clickedThisSession.add(uuid);
+            fetchFromMirrors(`/url/${uuid}`)
+                .then(() => console.log(`[Community] Click reported for ${station.name}`))
+                .catch(err => {
+                    // Allow a retry next time it plays
+                    clickedThisSession.delete(uuid);
+                    console.warn('[Community] Click report failed:', err);
+                });
+        }, CLICK_DEBOUNCE_MS)
+    };
+};
+
+/** Stop a pending click report, e.g. when the listener skips right away */
+export const cancelStationClick = (uuid?: string) => {
+    if (!pendingClick || (uuid && pendingClick.uuid !== uuid)) return;
+    clearTimeout(pendingClick.timer);
+    pendingClick = null;
+};
+
+export const reportStationVote = async (station: RadioStation) => {
+    if (!isReportable(station) || !getReportingPreferences().voteOnSave) return;
+    if (votedThisSession.has(station.stationuuid)) return;
+    votedThisSession.add(station.stationuuid);
+
+    try {
+        const result = await fetchFromMirrors(`/vote/${station.stationuuid}`);
+        // radio-browser answers { ok: false } when this IP voted for the station recently
+        if (result?.ok === false) console.log(`[Community] Vote not counted for ${station.name}: ${result.message}`);
+        else console.log(`[Community] Voted for ${station.name}`);
+    } catch (err) {
+        votedThisSession.delete(station.stationuuid);
+        console.warn('[Community] Vote failed:', err);
+    }
+};
@@ -0,0 +1,236 @@
+/**
+ * Content filter policy: which stations every search hides, and why.
+ * Admins define global rules (content_filter_rules table); each user can show
+ * something hidden by default or hide extra tags/countries. Overrides live in
+ * user_preferences.content_filter when signed in, localStorage for guests.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { RadioStation } from "./radioBrowserApi";
+
+export type ContentFilterKind = 'country' | 'tag';
+
+export interface ContentFilterRule {
+    id?: string;
+    kind: ContentFilterKind;
+    value: string;
+    reason: string;
+    hiddenByDefault: boolean;
+}
+
+export interface ContentFilterOverrides {
+    // Rule keys ("tag:talk", "country:RU") the user chose to see / hide
+    show: string[];
+    hide: string[];
+}
+
+export interface EffectiveFilterRule extends ContentFilterRule {
+    key: string;
+    hidden: boolean;
+    // Whether the current state comes from the global default or the user's choice
+    source: 'default' | 'user';
+}
+
+const LOCAL_OVERRIDES_KEY = 'contentFilterOverrides';
+
+// Used until the rules table answers (and if Supabase isn't configured).
+// Only the countries were ever filtered; the tag rules are shown by default and
+// listed so users can choose to hide them
+const FALLBACK_RULES: ContentFilterRule[] = [
+    ...['RU', 'IL'].map(value => ({ kind: 'country' as const, value, reason: 'Hidden by platform policy', hiddenByDefault: true })),
+    ...['metal', 'heavy metal', 'death metal', 'black metal', 'thrash', 'hardcore', 'grindcore', 'power metal']
+        .map(value => ({ kind: 'tag' as const, value, reason: 'Heavy music', hiddenByDefault: false })),
+    ...['news', 'talk', 'sports'].map(value => ({ kind: 'tag' as const, value, reason: 'Spoken word rather than music', hiddenByDefault: false })),
+    { kind: 'tag', value: 'religious', reason: 'Religious programming', hiddenByDefault: false },
+];
+
+let globalRules: ContentFilterRule[] = FALLBACK_RULES;
+let overrides: ContentFilterOverrides = { show: [], hide: [] };
+let currentUserId: string | null = null;
+let policyPromise: Promise<void> | null = null;
+
+export const ruleKey = (kind: ContentFilterKind, value: string) =>
+    `${kind}:${kind === 'country' ? value.toUpperCase() : value.toLowerCase().trim()}`;
+
+const parseKey = (key: string): { kind: ContentFilterKind; value: string } | null => {
+    const [kind, ...rest] = key.split(':');
+    if ((kind !== 'country' && kind !== 'tag') || rest.length === 0) return null;
+    return { kind, value: rest.join(':') };
+};
+
+const normalizeOverrides = (raw: unknown): ContentFilterOverrides => {
+    const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<ContentFilterOverrides>;
+    return {
+        show: Array.isArray(value.show) ? value.show.filter(k => typeof k === 'string') : [],
+        hide: Array.isArray(value.hide) ? value.hide.filter(k => typeof k === 'string') : [],
+    };
+};
+
+const fetchGlobalRules = async (): Promise<ContentFilterRule[]> => {
+    try {
+        const { data, error } = await supabase
+            .from('content_filter_rules')
+            .select('id, kind, value, reason, hidden_by_default')
+            .order('kind')
+            .order('value');
+        if (error) throw error;
+        if (!data) return FALLBACK_RULES;
+        return data.map(row => ({
+            id: row.id,
+            kind: row.kind as ContentFilterKind,
+            value: row.value,
+            reason: row.reason,
+            hiddenByDefault: row.hidden_by_default !== false
+        }));
+    } catch (err) {
+        console.warn('[Content Filter] Could not load global rules, using built-in defaults:', err);
+        return FALLBACK_RULES;
+    }
+};
+
+const fetchOverrides = async (userId: string | null): Promise<ContentFilterOverrides> => {
+    if (userId) {
+        try {
+            const { data } = await supabase
+                .from('user_preferences')
+                .select('content_filter')
+                .eq('user_id', userId)
+                .single();
+            if (data?.content_filter) return normalizeOverrides(data.content_filter);
+        } catch (err) {
+            console.warn('[Content Filter] Could not load cloud overrides:', err);
+        }
+    }
+    try {
+        return normalizeOverrides(JSON.parse(localStorage.getItem(LOCAL_OVERRIDES_KEY) || '{}'));
+    } catch {
+        return { show: [], hide: [] };
+    }
+};
+
+/** (Re)load global rules and the given user's overrides. Call on sign in/out. */
+export const loadContentFilterPolicy = (userId: string | null): Promise<void> => {
+    currentUserId = userId;
+    policyPromise = Promise.all([fetchGlobalRules(), fetchOverrides(userId)]).then(([rules, userOverrides]) => {
+        if (currentUserId !== userId) return; // Superseded by a newer load
+        globalRules = rules;
+        overrides = userOverrides;
+        console.log(`[Content Filter] Policy loaded: ${rules.length} rules, ${overrides.show.length} shown, ${overrides.hide.length} hidden by user`);
+    });
+    return policyPromise;
+};
+
+/** Resolves once a policy has been loaded (loading the guest policy if nobody asked yet) */
+export const contentFilterReady = (): Promise<void> => policyPromise || loadContentFilterPolicy(currentUserId);
+
+/** Every rule that applies to the current user, including ones they added themselves */
+export const getEffectiveRules = (): EffectiveFilterRule[] => {
+    const rules: EffectiveFilterRule[] = globalRules.map(rule => {
+        const key = ruleKey(rule.kind, rule.value);
+        const userChoice = overrides.show.includes(key) ? false : overrides.hide.includes(key) ? true : null;
+        return {
+            ...rule,
+            key,
+            hidden: userChoice ?? rule.hiddenByDefault,
+            source: userChoice === null ? 'default' : 'user'
+        };
+    });
+
+    const known = new Set(rules.map(rule => rule.key));
+    overrides.hide.filter(key => !known.has(key)).forEach(key => {
+        const parsed = parseKey(key);
+        if (parsed) rules.push({ ...parsed, key, reason: 'Hidden by you', hiddenByDefault: false, hidden: true, source: 'user' });
+    });
+    return rules;
+};
+
+const getHiddenSets = () => {
+    const hiddenCountries = new Set<string>();
+    const hiddenTags = new Set<string>();
+    getEffectiveRules().filter(rule => rule.hidden).forEach(rule => {
+        if (rule.kind === 'country') hiddenCountries.add(rule.value.toUpperCase());
+        else hiddenTags.add(rule.value.toLowerCase().trim());
+    });
+    return { hiddenCountries, hiddenTags };
+};
+
+export const isCountryHidden = (countryCode: string): boolean =>
+    getHiddenSets().hiddenCountries.has((countryCode || '').toUpperCase());
+
+export const isTagHidden = (tag: string): boolean =>
+    getHiddenSets().hiddenTags.has((tag || '').toLowerCase().trim());
+
+/**
+ * The single place station lists are filtered by the policy.
+ * `allowedTags` are tags the user asked for outright (e.g. the genre they picked):
+ * a tag rule doesn't hide those, country rules still do.
+ */
+export const applyContentFilter = (stations: RadioStation[], allowedTags: string[] = []): RadioStation[] => {
+    const { hiddenCountries, hiddenTags } = getHiddenSets();
+    allowedTags.forEach(tag => hiddenTags.delete(tag.toLowerCase().trim()));
+    if (hiddenCountries.size === 0 && hiddenTags.size === 0) return stations;
+
+    return stations.filter(station => {
+        if (hiddenCountries.has((station.countrycode || '').toUpperCase())) return false;
+        if (hiddenTags.size === 0 || !station.tags) return true;
+        return !station.tags.toLowerCase().split(',').some(tag => hiddenTags.has(tag.trim()));
+    });
+};
+
+const persistOverrides = async () => {
+    localStorage.setItem(LOCAL_OVERRIDES_KEY, JSON.stringify(overrides));
+    if (!currentUserId) return;
+    const { error } = await supabase
+        .from('user_preferences')
+        .upsert({
+            user_id: currentUserId,
+            content_filter: overrides,
+            updated_at: new Date().toISOString()
+        });
+    if (error) throw error;
+};
+
+/** Show or hide a rule for the current user. Back to the default state drops the override. */
+export const setRuleHidden = async (kind: ContentFilterKind, value: string, hidden: boolean): Promise<void> => {
+    const key = ruleKey(kind, value);
+    const globalRule = globalRules.find(rule => ruleKey(rule.kind, rule.value) === key);
+    const isDefault = globalRule ? globalRule.hiddenByDefault === hidden : !hidden;
+
+    overrides = {
+        show: overrides.show.filter(k => k !== key).concat(!isDefault && !hidden ? [key] : []),
+        hide: overrides.hide.filter(k => k !== key).concat(!isDefault && hidden ? [key] : []),
+    };
+    await persistOverrides();
+};
+
+export const resetContentFilterOverrides = async (): Promise<void> => {
+    overrides = { show: [], hide: [] };
+    await persistOverrides();
+};
+
+// --- ADMIN ---
+
+export const getGlobalRules = (): ContentFilterRule[] => globalRules;
+
+export const saveGlobalRule = async (rule: ContentFilterRule, userId: string): Promise<void> => {
+    const { error } = await supabase
+        .from('content_filter_rules')
+        .upsert({
+            kind: rule.kind,
+            value: rule.kind === 'country' ? rule.value.toUpperCase() : rule.value.toLowerCase().trim(),
+            reason: rule.reason,
+            hidden_by_default: rule.hiddenByDefault,
+            created_by: userId
+        }, { onConflict: 'kind,value' });
+    if (error) throw error;
+    await loadContentFilterPolicy(currentUserId);
+};
+
+export const deleteGlobalRule = async (id: string): Promise<void> => {
+    const { error } = await supabase
+        .from('content_filter_rules')
+        .delete()
+        .eq('id', id);
+    if (error) throw error;
+    await loadContentFilterPolicy(currentUserId);
+};
@@ -0,0 +1,285 @@
+/**
+ * Single source of truth for genres: a parent/child tree where each genre lists
+ * the radio-browser tags that mean it (synonyms) and the genres whose stations
+ * it drops (exclusions), plus the mood → genre mixes used on the Radio page.
+ * Served from Supabase (genre_taxonomy / genre_moods) so admins can edit it;
+ * the built-in copy below is used until that loads, or if it can't.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { RadioStation } from "./radioBrowserApi";
+
+export interface GenreNode {
+    id: string;
+    name: string;
+    parentId: string | null;
+    // radio-browser tags that mean this genre (children's tags are implied)
+    synonyms: string[];
+    // Stations that also match one of these genres are dropped when browsing this one
+    excludes: string[];
+    // Offered as a first-class choice in onboarding
+    featured: boolean;
+    // lucide icon name used by onboarding
+    icon?: string | null;
+    sortOrder: number;
+}
+
+export interface GenreMood {
+    id: string;
+    name: string;
+    genres: string[];
+    sortOrder: number;
+}
+
+export interface GenreTaxonomy {
+    genres: GenreNode[];
+    moods: GenreMood[];
+}
+
+const genre = (
+    id: string, name: string, synonyms: string[],
+    options: Partial<Pick<GenreNode, 'parentId' | 'excludes' | 'featured' | 'icon'>> = {}
+): Omit<GenreNode, 'sortOrder'> => ({ id, name, synonyms, parentId: null, excludes: [], featured: false, icon: null, ...options });
+
+export const DEFAULT_TAXONOMY: GenreTaxonomy = {
+    genres: [
+        genre('rock', 'Rock', ['rock', 'classic rock', 'rock and roll'], { featured: true, icon: 'Guitar' }),
+        genre('hard-rock', 'Hard Rock', ['hard rock'], { parentId: 'rock' }),
+        genre('garage-rock', 'Garage Rock', ['garage rock'], { parentId: 'rock' }),
+        genre('grunge', 'Grunge', ['grunge'], { parentId: 'rock' }),
+        genre('shoegaze', 'Shoegaze', ['shoegaze'], { parentId: 'rock' }),
+        genre('noise-rock', 'Noise Rock', ['noise rock', 'no wave'], { parentId: 'rock' }),
+        genre('math-rock', 'Math Rock', ['math rock'], { parentId: 'rock' }),
+        genre('jazz', 'Jazz', ['jazz', 'smooth jazz', 'bebop', 'swing'], { featured: true, icon: 'Piano' }),
+        genre('electronic', 'Electronic/Dance', ['electronic', 'techno', 'house', 'edm', 'dance', 'trance'], { featured: true, icon: 'Zap' }),
+        genre('ambient', 'Ambient', ['ambient'], { parentId: 'electronic' }),
+        genre('chillout', 'Chillout', ['chillout', 'chill out', 'downtempo', 'lounge'], { parentId: 'electronic' }),
+        genre('hip-hop', 'Hip Hop', ['hip hop', 'hip-hop', 'hiphop', 'rap'], { featured: true, icon: 'Mic2' }),
+        genre('folk', 'Folk/Americana', ['folk', 'americana', 'acoustic', 'singer-songwriter', 'singer songwriter'], { featured: true, icon: 'Music' }),
+        genre('punk', 'Punk', ['punk', 'anarcho-punk', 'riot grrrl'], { featured: true, icon: 'Guitar' }),
+        genre('post-punk', 'Post-Punk', ['post-punk'], { parentId: 'punk' }),
+        genre('emo', 'Emo', ['emo', 'midwest emo', 'screamo'], { parentId: 'punk' }),
+        genre('hardcore', 'Hardcore', ['hardcore', 'post-hardcore'], { parentId: 'punk' }),
+        genre('classical', 'Classical', ['classical', 'orchestra', 'symphony', 'baroque', 'opera'], { featured: true, icon: 'Piano' }),
+        genre('blues', 'Blues', ['blues', 'delta blues', 'chicago blues'], { featured: true, icon: 'Guitar' }),
+        genre('indie', 'Indie/Alternative', ['indie', 'indie rock', 'indie pop', 'alternative', 'alt rock', 'alternative rock'], { featured: true, icon: 'Disc' }),
+        // Jazz takes priority for stations tagged both
+        genre('soul', 'Soul/R&B', ['soul', 'r&b', 'rnb', 'rhythm and blues', 'motown'], { featured: true, icon: 'Heart', excludes: ['jazz'] }),
+        genre('funk', 'Funk', ['funk'], { parentId: 'soul' }),
+        genre('disco', 'Disco', ['disco'], { parentId: 'soul' }),
+        genre('metal', 'Metal', ['metal', 'heavy metal'], { featured: true, icon: 'Drumstick' }),
+        genre('reggae', 'Reggae/Ska', ['reggae', 'ska', 'dub', 'dancehall'], { featured: true, icon: 'Radio' }),
+        genre('country', 'Country', ['country', 'bluegrass', 'western']),
+        genre('world', 'World', ['world', 'world music']),
+        genre('latin', 'Latin', ['latin', 'salsa', 'cumbia', 'reggaeton']),
+        genre('pop', 'Pop', ['pop']),
+    ].map((node, i) => ({ ...node, sortOrder: i * 10 })),
+    moods: [
+        { id: 'all', name: 'All Moods', genres: ['rock', 'jazz', 'electronic', 'folk', 'classical', 'blues', 'indie', 'soul'] },
+        { id: 'upbeat', name: 'Upbeat', genres: ['electronic', 'hip-hop', 'rock', 'reggae'] },
+        { id: 'dinner-party', name: 'Dinner Party', genres: ['jazz', 'soul', 'classical', 'folk'] },
+        { id: 'nostalgic-evening', name: 'Nostalgic', genres: ['blues', 'jazz', 'folk', 'soul'] },
+        { id: 'focus-work', name: 'Focus', genres: ['classical', 'electronic', 'jazz'] },
+        { id: 'chill-vibes', name: 'Chill', genres: ['indie', 'folk', 'soul', 'jazz'] },
+        { id: 'energetic', name: 'Energetic', genres: ['rock', 'metal', 'electronic', 'hip-hop'] },
+    ].map((mood, i) => ({ ...mood, sortOrder: i }))
+};
+
+// --- TAG NORMALIZATION ---
+
+/** Lowercase and unify punctuation/spacing; no synonym lookup */
+export const cleanTag = (tag: string): string =>
+    (tag || '').toLowerCase().trim().replace(/[&]/g, 'and').replace(/[-_]/g, ' ').replace(/\s+/g, ' ');
+
+// --- INDEX ---
+
+interface TaxonomyIndex {
+    byId: Map<string, GenreNode>;
+    children: Map<string, GenreNode[]>;
+    // cleaned synonym -> genre id
+    synonyms: Map<string, string>;
+}
+
+const buildIndex = (value: GenreTaxonomy): TaxonomyIndex => {
+    const byId = new Map(value.genres.map(node => [node.id, node]));
+    const children = new Map<string, GenreNode[]>();
+    const synonyms = new Map<string, string>();
+
+    value.genres.forEach(node => {
+        if (node.parentId && byId.has(node.parentId)) {
+            children.set(node.parentId, [...(children.get(node.parentId) || []), node]);
+        }
+        [node.id, ...node.synonyms].forEach(synonym => {
+            const key = cleanTag(synonym);
+            const owner = synonyms.get(key);
+            if (owner && owner !== node.id) {
+                console.warn(`[Genre Taxonomy] "${synonym}" is claimed by both ${owner} and ${node.id}; keeping ${owner}`);
+                return;
+            }
+            synonyms.set(key, node.id);
+        });
+    });
+    return { byId, children, synonyms };
+};
+
+let taxonomy: GenreTaxonomy = DEFAULT_TAXONOMY;
+let index = buildIndex(taxonomy);
+let loadPromise: Promise<GenreTaxonomy> | null = null;
+
+/**
+ * Normalize a single tag for comparison. Known synonyms resolve to their genre
+ * id ("Hip-Hop", "rap" -> "hip-hop"); anything else is just cleaned up.
+ */
+export const normalizeTag = (tag: string): string => {
+    const cleaned = cleanTag(tag);
+    return index.synonyms.get(cleaned) || cleaned;
+};
+
+/** Split a radio-browser comma-separated tag string into normalized tags */
+export const normalizeTagList = (tags: string): string[] =>
+    (tags || '').split(',').map(normalizeTag).filter(Boolean);
+
+// --- QUERIES ---
+
+export const getGenreTaxonomy = (): GenreTaxonomy => taxonomy;
+
+export const getGenre = (id: string): GenreNode | undefined => index.byId.get(id);
+
+export const getTopLevelGenres = (): GenreNode[] => taxonomy.genres.filter(node => !node.parentId || !index.byId.has(node.parentId));
+
+export const getFeaturedGenres = (): GenreNode[] => taxonomy.genres.filter(node => node.featured);
+
+export const getChildGenres = (id: string): GenreNode[] => index.children.get(id) || [];
+
+/** The genre and everything below it */
+export const getGenreWithDescendants = (id: string): string[] => {
+    const result: string[] = [];
+    const visit = (genreId: string) => {
+        if (result.includes(genreId)) return; // Guard against cycles in admin-edited data
+        result.push(genreId);
+        getChildGenres(genreId).forEach(child => visit(child.id));
+    };
+    visit(id);
+    return result;
+};
+
+/** Every radio-browser tag worth searching for this genre (its own and its children's) */
+export const getGenreSearchTags = (id: string): string[] => {
+    if (!index.byId.has(id)) return [id];
+    const tags = getGenreWithDescendants(id).flatMap(genreId => {
+        const node = index.byId.get(genreId)!;
+        return node.synonyms.length > 0 ? node.synonyms : [node.id];
+    });
+    return [...new Set(tags)];
+};
+
+/** Does a station's tag string belong to this genre (or one of its children)? */
+export const stationMatchesGenre = (tags: string, genreId: string): boolean => {
+    const accepted = new Set(getGenreWithDescendants(genreId));
+    return normalizeTagList(tags).some(tag => accepted.has(tag));
+};
+
+/** Apply the genre's exclusion rules to stations found while browsing it */
+export const applyGenreExclusions = (stations: RadioStation[], genreId: string): RadioStation[] => {
+    const excludes = getGenre(genreId)?.excludes || [];
+    if (excludes.length === 0) return stations;
+    const filtered = stations.filter(station => !excludes.some(excluded => stationMatchesGenre(station.tags, excluded)));
+    console.log(`[Genre Taxonomy] ${genreId} excludes ${excludes.join(', ')}: ${stations.length} -> ${filtered.length}`);
+    return filtered;
+};
+
+export const getMoods = (): GenreMood[] => taxonomy.moods;
+
+export const getMoodGenres = (moodId: string): string[] =>
+    taxonomy.moods.find(mood => mood.id === moodId)?.genres || [];
+
+// --- LOADING ---
+
+const fetchTaxonomy = async (): Promise<GenreTaxonomy> => {
+    const [genresResult, moodsResult] = await Promise.all([
+        supabase.from('genre_taxonomy').select('*').order('sort_order'),
+        supabase.from('genre_moods').select('*').order('sort_order')
+    ]);
+    if (genresResult.error) throw genresResult.error;
+    if (moodsResult.error) throw moodsResult.error;
+    if (!genresResult.data?.length) return DEFAULT_TAXONOMY;
+
+    return {
+        genres: genresResult.data.map(row => ({
+            id: row.id,
+            name: row.name,
+            parentId: row.parent_id,
+            synonyms: row.synonyms || [],
+            excludes: row.excludes || [],
+            featured: !!row.featured,
+            icon: row.icon,
+            sortOrder: row.sort_order ?? 0
+        })),
+        moods: moodsResult.data?.length
+            ? moodsResult.data.map(row => ({ id: row.id, name: row.name, genres: row.genres || [], sortOrder: row.sort_order ?? 0 }))
+            : DEFAULT_TAXONOMY.moods
+    };
+};
+
+export const loadGenreTaxonomy = (): Promise<GenreTaxonomy> => {
+    loadPromise = fetchTaxonomy()
+        .then(loaded => {
+            taxonomy = loaded;
+            index = buildIndex(loaded);
+            console.log(`[Genre Taxonomy] Loaded ${loaded.genres.length} genres, ${loaded.moods.length} moods`);
+            return taxonomy;
+        })
+        .catch(err => {
+            console.warn('[Genre Taxonomy] Could not load taxonomy, using built-in one:', err);
+            return taxonomy;
+        });
+    return loadPromise;
+};
+
+export const genreTaxonomyReady = (): Promise<GenreTaxonomy> => loadPromise || loadGenreTaxonomy();
+
+// --- ADMIN ---
+
+export const saveGenre = async (node: GenreNode): Promise<void> => {
+    const { error } = await supabase
+        .from('genre_taxonomy')
+        .upsert({
+            id: node.id,
+            name: node.name,
+            parent_id: node.parentId,
+            synonyms: node.synonyms,
+            excludes: node.excludes,
+            featured: node.featured,
+            icon: node.icon || null,
+            sort_order: node.sortOrder,
+            updated_at: new Date().toISOString()
+        });
+    if (error) throw error;
+    await loadGenreTaxonomy();
+};
+
+export const deleteGenre = async (id: string): Promise<void> => {
+    const { error } = await supabase
+        .from('genre_taxonomy')
+        .delete()
+        .eq('id', id);
+    if (error) throw error;
+    await loadGenreTaxonomy();
+};
+
+export const saveMood = async (mood: GenreMood): Promise<void> => {
+    const { error } = await supabase
+        .from('genre_moods')
+        .upsert({ id: mood.id, name: mood.name, genres: mood.genres, sort_order: mood.sortOrder });
+    if (error) throw error;
+    await loadGenreTaxonomy();
+};
+
+export const deleteMood = async (id: string): Promise<void> => {
+    const { error } = await supabase
+        .from('genre_moods')
+        .delete()
+        .eq('id', id);
+    if (error) throw error;
+    await loadGenreTaxonomy();
+};
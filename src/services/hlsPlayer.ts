@@ -0,0 +1,388 @@
+/**
+ * HLS (.m3u8) live playback via Media Source Extensions.
+ * Only Safari plays HLS natively; everywhere else we parse the playlists ourselves,
+ * fetch segments through /api/proxy and append them to a SourceBuffer on the SAME
+ * <audio> element, so the initializeAudioTap graph (visualizer, silence detection) keeps working.
+ */
+
+import { demuxTransportStream, detectSegmentContainer, skipId3 } from "./tsDemuxer";
+
+export interface HlsVariant {
+    uri: string;
+    bandwidth: number;
+    codecs?: string;
+}
+
+export interface HlsSegment {
+    uri: string;
+    duration: number;
+    sequence: number;
+}
+
+export interface HlsMediaPlaylist {
+    targetDuration: number;
+    mediaSequence: number;
+    segments: HlsSegment[];
+    initSegmentUri?: string;
+    endList: boolean;
+}
+
+// Radio rarely benefits from more than this; keeps mobile data in check
+const MAX_PREFERRED_BANDWIDTH = 256000;
+const LIVE_EDGE_SEGMENTS = 3;
+const BACK_BUFFER_SECONDS = 30;
+const MAX_SEGMENT_FAILURES = 3;
+
+export const isHlsUrl = (url: string): boolean => {
+    if (!url) return false;
+    try {
+        return new URL(url.trim(), window.location.href).pathname.toLowerCase().endsWith('.m3u8');
+    } catch {
+        return false;
+    }
+};
+
+export const canPlayHlsNatively = (audio: HTMLAudioElement): boolean =>
+    audio.canPlayType('application/vnd.apple.mpegurl') !== '';
+
+export const isHlsSupported = (): boolean =>
+    typeof window !== 'undefined' && 'MediaSource' in window;
+
+// --- PLAYLIST PARSING ---
+
+const parseAttributes = (line: string): Record<string, string> => {
+    const attrs: Record<string, string> = {};
+    for (const match of line.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+        attrs[match[1]] = match[2].replace(/^"|"$/g, '');
+    }
+    return attrs;
+};
+
+const resolveUri = (uri: string, baseUrl: string) => new URL(uri, baseUrl).toString();
+
+export const isMasterPlaylist = (text: string): boolean => text.includes('#EXT-X-STREAM-INF');
+
+export const parseMasterPlaylist = (text: string, baseUrl: string): HlsVariant[] => {
+    const lines = text.split(/\r?\n/).map(l => l.trim());
+    const variants: HlsVariant[] = [];
+
+    lines.forEach((line, i) => {
+        if (!line.startsWith('#EXT-X-STREAM-INF:')) return;
+        const uri = lines.slice(i + 1).find(l => l && !l.startsWith('#'));
+        if (!uri) return;
+        const attrs = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+        variants.push({
+            uri: resolveUri(uri, baseUrl),
+            bandwidth: parseInt(attrs['BANDWIDTH'] || '0', 10),
+            codecs: attrs['CODECS'],
+        });
+    });
+
+    return variants;
+};
+
+export const parseMediaPlaylist = (text: string, baseUrl: string): HlsMediaPlaylist => {
+    const playlist: HlsMediaPlaylist = { targetDuration: 6, mediaSequence: 0, segments: [], endList: false };
+    let pendingDuration = 0;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+            playlist.targetDuration = parseFloat(line.split(':')[1]) || playlist.targetDuration;
+        } else if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+            playlist.mediaSequence = parseInt(line.split(':')[1], 10) || 0;
+        } else if (line.startsWith('#EXT-X-MAP:')) {
+            const uri = parseAttributes(line.slice('#EXT-X-MAP:'.length))['URI'];
+            if (uri) playlist.initSegmentUri = resolveUri(uri, baseUrl);
+        } else if (line.startsWith('#EXTINF:')) {
+            pendingDuration = parseFloat(line.slice('#EXTINF:'.length)) || 0;
+        } else if (line === '#EXT-X-ENDLIST') {
+            playlist.endList = true;
+        } else if (!line.startsWith('#')) {
+            playlist.segments.push({
+                uri: resolveUri(line, baseUrl),
+                duration: pendingDuration,
+                sequence: playlist.mediaSequence + playlist.segments.length,
+            });
+            pendingDuration = 0;
+        }
+    }
+
+    return playlist;
+};
+
+/**
+ * Best audio rendition for radio: highest bandwidth under the cap, else the lowest available
+ */
+export const selectVariant = (variants: HlsVariant[]): HlsVariant | null => {
+    if (variants.length === 0) return null;
+    const sorted = [...variants].sort((a, b) => a.bandwidth - b.bandwidth);
+    const withinCap = sorted.filter(v => v.bandwidth <= MAX_PREFERRED_BANDWIDTH);
+    return withinCap.length > 0 ? withinCap[withinCap.length - 1] : sorted[0];
+};
+
+const mimeForCodecs = (codecs?: string): string => {
+    const audioCodec = codecs?.split(',').map(c => c.trim()).find(c => c.startsWith('mp4a') || c === 'opus' || c === 'flac');
+    return `audio/mp4; codecs="${audioCodec || 'mp4a.40.2'}"`;
+};
+
+const proxied = (url: string) => `/api/proxy?url=${encodeURIComponent(url)}`;
+
+// --- PLAYER ---
+
+/**
+ * Drives a single HLS live stream into an <audio> element.
+ * Fatal errors are surfaced through MediaSource.endOfStream(), which fires the
+ * element's own 'error' event so the existing connection-stage logic handles them.
+ */
+export class HlsPlayer {
+    private mediaSource: MediaSource | null = null;
+    private sourceBuffer: SourceBuffer | null = null;
+    private objectUrl: string | null = null;
+    private abortController = new AbortController();
+    private reloadTimer: number | null = null;
+    private mediaPlaylistUrl = '';
+    private codecs?: string;
+    private initSegmentUri?: string;
+    private lastSequence = -1;
+    private queue: HlsSegment[] = [];
+    private pumping = false;
+    private segmentFailures = 0;
+    private destroyed = false;
+
+    constructor(private readonly audio: HTMLAudioElement, private readonly url: string) { }
+
+    /**
+     * Point the audio element at a MediaSource and start loading.
+     * Caller still calls audio.play() as usual.
+     */
+    attach() {
+        this.mediaSource = new MediaSource();
+        this.objectUrl = URL.createObjectURL(this.mediaSource);
+        this.mediaSource.addEventListener('sourceopen', () => {
+            this.start().catch(error => this.fail('network', error));
+        }, { once: true });
+        this.audio.src = this.objectUrl;
+    }
+
+    destroy() {
+        this.destroyed = true;
+        this.abortController.abort();
+        if (this.reloadTimer) window.clearTimeout(this.reloadTimer);
+        this.reloadTimer = null;
+        this.queue = [];
+        if (this.objectUrl) URL.revokeObjectURL(this.objectUrl);
+        this.objectUrl = null;
+        this.sourceBuffer = null;
+        this.mediaSource = null;
+    }
+
+    private async fetchText(url: string): Promise<string> {
+        const response = await fetch(proxied(url), { signal: this.abortController.signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+        return response.text();
+    }
+
+    private async fetchBytes(url: string): Promise<Uint8Array> {
+        const response = await fetch(proxied(url), { signal: this.abortController.signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+        return new Uint8Array(await response.arrayBuffer());
+    }
+
+    private async start() {
+        const text = await this.fetchText(this.url);
+
+        if (isMasterPlaylist(text)) {
+            const variant = selectVariant(parseMasterPlaylist(text, this.url));
+            if (!variant) throw new Error('Master playlist has no variants');
+            console.log(`[HLS] Selected variant ${variant.bandwidth}bps:`, variant.uri);
+            this.mediaPlaylistUrl = variant.uri;
+            this.codecs = variant.codecs;
+            await this.loadMediaPlaylist(await this.fetchText(variant.uri));
+        } else {
+            this.mediaPlaylistUrl = this.url;
+            await this.loadMediaPlaylist(text);
+        }
+    }
+
+    private async reloadMediaPlaylist() {
+        if (this.destroyed) return;
+        try {
+            await this.loadMediaPlaylist(await this.fetchText(this.mediaPlaylistUrl));
+        } catch (error) {
+            if (this.destroyed) return;
+            console.warn('[HLS] Playlist reload failed, retrying:', error);
+            this.scheduleReload(2);
+        }
+    }
+
+    private async loadMediaPlaylist(text: string) {
+        if (this.destroyed) return;
+        const playlist = parseMediaPlaylist(text, this.mediaPlaylistUrl);
+        this.initSegmentUri = playlist.initSegmentUri;
+
+        // Join live streams near the edge instead of replaying the whole window
+        const fresh = this.lastSequence === -1
+            ? playlist.segments.slice(-LIVE_EDGE_SEGMENTS)
+            : playlist.segments.filter(s => s.sequence > this.lastSequence);
+
+        if (fresh.length > 0) {
+            this.lastSequence = fresh[fresh.length - 1].sequence;
+            this.queue.push(...fresh);
+            this.pump();
+        }
+
+        if (!playlist.endList) {
+            // Poll at target duration, or sooner if the server hasn't published anything new
+            this.scheduleReload(fresh.length > 0 ? playlist.targetDuration : playlist.targetDuration / 2);
+        }
+    }
+
+    private scheduleReload(seconds: number) {
+        if (this.destroyed) return;
+        if (this.reloadTimer) window.clearTimeout(this.reloadTimer);
+        this.reloadTimer = window.setTimeout(() => this.reloadMediaPlaylist(), Math.max(1, seconds) * 1000);
+    }
+
+    private async pump() {
+        if (this.pumping) return;
+        this.pumping = true;
+
+        try {
+            while (this.queue.length > 0 && !this.destroyed) {
+                const segment = this.queue.shift()!;
+                try {
+                    const bytes = await this.fetchBytes(segment.uri);
+                    await this.appendSegment(bytes);
+                    this.segmentFailures = 0;
+                } catch (error) {
+                    if (this.destroyed) return;
+                    if (error instanceof Error && error.message.startsWith('Unsupported')) {
+                        this.fail('decode', error);
+                        return;
+                    }
+                    this.segmentFailures += 1;
+                    console.warn(`[HLS] Segment ${segment.sequence} failed (${this.segmentFailures}/${MAX_SEGMENT_FAILURES}):`, error);
+                    if (this.segmentFailures >= MAX_SEGMENT_FAILURES) {
+                        this.fail('network', error);
+                        return;
+                    }
+                }
+            }
+        } finally {
+            this.pumping = false;
+        }
+    }
+
+    private async appendSegment(bytes: Uint8Array) {
+        let mime: string;
+        let payload: Uint8Array;
+
+        switch (detectSegmentContainer(bytes)) {
+            case 'ts': {
+                const demuxed = demuxTransportStream(bytes);
+                if (!demuxed) throw new Error('Unsupported MPEG-TS audio stream');
+                mime = demuxed.format === 'aac' ? 'audio/aac' : 'audio/mpeg';
+                payload = demuxed.data;
+                break;
+            }
+            case 'aac':
+                mime = 'audio/aac';
+                payload = bytes.subarray(skipId3(bytes));
+                break;
+            case 'mp3':
+                mime = 'audio/mpeg';
+                payload = bytes.subarray(skipId3(bytes));
+                break;
+            case 'fmp4':
+                mime = mimeForCodecs(this.codecs);
+                payload = bytes;
+                break;
+            default:
+                throw new Error('Unsupported HLS segment container');
+        }
+
+        const sourceBuffer = await this.ensureSourceBuffer(mime);
+        if (!sourceBuffer) return;
+
+        await this.trimBackBuffer(sourceBuffer);
+        await this.appendBuffer(sourceBuffer, payload);
+    }
+
+    private async ensureSourceBuffer(mime: string): Promise<SourceBuffer | null> {
+        if (this.sourceBuffer) return this.sourceBuffer;
+        if (!this.mediaSource || this.mediaSource.readyState !== 'open') return null;
+
+        if (!MediaSource.isTypeSupported(mime)) {
+            throw new Error(`Unsupported codec for MSE: ${mime}`);
+        }
+
+        console.log('[HLS] Creating SourceBuffer:', mime);
+        const sourceBuffer = this.mediaSource.addSourceBuffer(mime);
+        // Raw ADTS/MP3 carry no timestamps; sequence mode lays segments end to end
+        sourceBuffer.mode = 'sequence';
+        this.sourceBuffer = sourceBuffer;
+
+        if (this.initSegmentUri) {
+            await this.appendBuffer(sourceBuffer, await this.fetchBytes(this.initSegmentUri));
+        }
+        return sourceBuffer;
+    }
+
+    private async trimBackBuffer(sourceBuffer: SourceBuffer) {
+        const { buffered, currentTime } = this.audio;
+        if (buffered.length === 0 || currentTime - buffered.start(0) < BACK_BUFFER_SECONDS * 2) return;
+        await this.waitForUpdate(sourceBuffer, () => sourceBuffer.remove(0, currentTime - BACK_BUFFER_SECONDS));
+    }
+
+    private async appendBuffer(sourceBuffer: SourceBuffer, bytes: Uint8Array) {
+        const data = bytes as BufferSource;
+        try {
+            await this.waitForUpdate(sourceBuffer, () => sourceBuffer.appendBuffer(data));
+        } catch (error) {
+            if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+                // Buffer full: drop everything behind the playhead once and retry
+                const behind = this.audio.currentTime - 1;
+                if (behind > 0) await this.waitForUpdate(sourceBuffer, () => sourceBuffer.remove(0, behind));
+                await this.waitForUpdate(sourceBuffer, () => sourceBuffer.appendBuffer(data));
+            } else {
+                throw error;
+            }
+        }
+    }
+
+    private waitForUpdate(sourceBuffer: SourceBuffer, operation: () => void): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (this.destroyed) return resolve();
+            const onEnd = () => { cleanup(); resolve(); };
+            const onError = () => { cleanup(); reject(new Error('SourceBuffer update failed')); };
+            const cleanup = () => {
+                sourceBuffer.removeEventListener('updateend', onEnd);
+                sourceBuffer.removeEventListener('error', onError);
+            };
+            sourceBuffer.addEventListener('updateend', onEnd);
+            sourceBuffer.addEventListener('error', onError);
+            try {
+                operation();
+            } catch (error) {
+                cleanup();
+                reject(error);
+            }
+        });
+    }
+
+    private fail(kind: 'network' | 'decode', error: unknown) {
+        if (this.destroyed) return;
+        console.error(`[HLS] Fatal ${kind} error:`, error);
+        if (this.reloadTimer) window.clearTimeout(this.reloadTimer);
+        this.reloadTimer = null;
+        this.queue = [];
+        try {
+            if (this.mediaSource?.readyState === 'open') this.mediaSource.endOfStream(kind);
+        } catch (e) {
+            console.warn('[HLS] endOfStream failed:', e);
+        }
+    }
+}
@@ -1,5 +1,12 @@
 import { supabase } from "@/lib/supabase";
 import { RadioStation } from "./radioBrowserApi";
+import { applyStreamOverrides } from "./streamOverrides";
+import { genreTaxonomyReady, getGenre, getGenreSearchTags } from "./genreTaxonomy";
+
+// Terms go into a PostgREST or=(...) list, where commas, dots and parentheses are syntax:
+// quote each value (escaping quotes and backslashes) so a taxonomy term or a search can't break out of it
+const ilikeFilter = (column: string, term: string): string =>
+    `${column}.ilike."%${term.replace(/["\\]/g, '\\$&')}%"`;
 
 export const getApprovedLocalStations = async (genres: string[]): Promise<RadioStation[]> => {
     try {
@@ -7,7 +14,10 @@ export const getApprovedLocalStations = async (genres: string[]): Promise<RadioS
 
         // Build OR query for genres
         // We look for any station where the genre column contains one of the requested genres
-        const genreFilters = genres.map(g => `genre.ilike.%${g}%`).join(',');
+        // (by taxonomy name, as the request form stores them, or by any of its synonyms)
+        await genreTaxonomyReady();
+        const terms = new Set(genres.flatMap(g => [g, getGenre(g)?.name, ...getGenreSearchTags(g)].filter(Boolean)));
+        const genreFilters = [...terms].map(term => ilikeFilter('genre', term)).join(',');
 
         const { data, error } = await supabase
             .from('station_requests')
@@ -17,7 +27,7 @@ export const getApprovedLocalStations = async (genres: string[]): Promise<RadioS
 
         if (error) throw error;
 
-        return (data || []).map(mapToRadioStation);
+        return applyStreamOverrides((data || []).map(mapToRadioStation));
     } catch (err) {
         console.error("Error fetching local approved stations:", err);
         return [];
@@ -30,10 +40,10 @@ export const searchLocalApprovedStations = async (query: string): Promise<RadioS
             .from('station_requests')
             .select('*')
             .eq('status', 'approved')
-            .or(`name.ilike.%${query}%,genre.ilike.%${query}%,city.ilike.%${query}%,country.ilike.%${query}%`);
+            .or(['name', 'genre', 'city', 'country'].map(column => ilikeFilter(column, query)).join(','));
 
         if (error) throw error;
-        return (data || []).map(mapToRadioStation);
+        return applyStreamOverrides((data || []).map(mapToRadioStation));
     } catch (err) {
         console.error("Error searching local approved stations:", err);
         return [];
@@ -49,7 +59,7 @@ export const getLocalApprovedStationsByCountry = async (countryCode: string): Pr
             .ilike('country', `%${countryCode}%`); // We might need a better mapping if country names are used instead of codes
 
         if (error) throw error;
-        return (data || []).map(mapToRadioStation);
+        return applyStreamOverrides((data || []).map(mapToRadioStation));
     } catch (err) {
         console.error("Error fetching local stations by country:", err);
         return [];
@@ -0,0 +1,102 @@
+/**
+ * Loudness normalization stage for the tap graph: a gain that evens out stations,
+ * plus a K-weighted analyser tap (before that gain) to measure approximate LUFS.
+ * Learned offsets are kept per stationuuid in localStorage so they apply instantly next time.
+ */
+
+export const TARGET_LUFS = -18;
+// Boosting quiet stations too far just raises their noise and risks clipping
+const MAX_BOOST_DB = 9;
+const MAX_CUT_DB = 12;
+// Blocks quieter than this are silence (gaps, dead air) and don't count
+export const SILENCE_GATE_LUFS = -60;
+
+const LOCAL_OFFSETS_KEY = 'loudnessOffsets';
+// Oldest offsets are dropped past this many stations
+const MAX_STORED_OFFSETS = 500;
+
+interface LoudnessStage {
+    gain: GainNode;
+    analyser: AnalyserNode;
+    buffer: Float32Array<ArrayBuffer>;
+}
+
+let stage: LoudnessStage | null = null;
+
+/** Build the stage once for the shared AudioContext; every station channel feeds its input */
+export const createLoudnessStage = (audioContext: AudioContext): { input: AudioNode; output: AudioNode } => {
+    const input = audioContext.createGain();
+    const gain = audioContext.createGain();
+    input.connect(gain);
+
+    // K-weighting, approximately: a high-pass for the rumble and the ~+4 dB head shelf (BS.1770)
+    const highpass = audioContext.createBiquadFilter();
+    highpass.type = 'highpass';
+    highpass.frequency.value = 38;
+    highpass.Q.value = 0.5;
+    const shelf = audioContext.createBiquadFilter();
+    shelf.type = 'highshelf';
+    shelf.frequency.value = 1500;
+    shelf.gain.value = 4;
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 4096;
+    input.connect(highpass);
+    highpass.connect(shelf);
+    shelf.connect(analyser);
+
+    stage = { gain, analyser, buffer: new Float32Array(analyser.fftSize) };
+    return { input, output: gain };
+};
+
+/** Mean square of the latest K-weighted block, or null before the graph exists */
+export const readLoudnessBlock = (): number | null => {
+    if (!stage) return null;
+    stage.analyser.getFloatTimeDomainData(stage.buffer);
+    let sum = 0;
+    for (let i = 0; i < stage.buffer.length; i++) sum += stage.buffer[i] * stage.buffer[i];
+    return sum / stage.buffer.length;
+};
+
+export const meanSquareToLufs = (meanSquare: number): number =>
+    meanSquare > 0 ? -0.691 + 10 * Math.log10(meanSquare) : -Infinity;
+
+/** The gain (dB) that brings a station measured at `lufs` to the target, within limits */
+export const offsetForLoudness = (lufs: number): number =>
+    Math.max(-MAX_CUT_DB, Math.min(MAX_BOOST_DB, TARGET_LUFS - lufs));
+
+/** Glide the normalization gain to `db` (time constant in seconds; 0 jumps) */
+export const setNormalizationGain = (db: number, timeConstant: number) => {
+    if (!stage) return;
+    const param = stage.gain.gain;
+    const now = stage.gain.context.currentTime;
+    const linear = Math.pow(10, db / 20);
+    param.cancelScheduledValues(now);
+    if (timeConstant <= 0) {
+        param.setValueAtTime(linear, now);
+        return;
+    }
+    param.setValueAtTime(param.value, now);
+    param.setTargetAtTime(linear, now, timeConstant);
+};
+
+// --- LEARNED OFFSETS ---
+
+const readOffsets = (): Record<string, number> => {
+    try {
+        return JSON.parse(localStorage.getItem(LOCAL_OFFSETS_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+export const getLoudnessOffset = (stationId: string): number | null => {
+    const offset = readOffsets()[stationId];
+    return Number.isFinite(offset) ? offset : null;
+};
+
+export const saveLoudnessOffset = (stationId: string, db: number) => {
+    // Re-inserting moves the station to the end, so the oldest fall off first
+    const { [stationId]: _previous, ...offsets } = readOffsets();
+    const entries = Object.entries({ ...offsets, [stationId]: Math.round(db * 10) / 10 });
+    localStorage.setItem(LOCAL_OFFSETS_KEY, JSON.stringify(Object.fromEntries(entries.slice(-MAX_STORED_OFFSETS))));
+};
@@ -0,0 +1,99 @@
+/**
+ * Health tracking for radio-browser API mirrors.
+ * Records latency and failures per mirror, orders mirrors best-first and keeps
+ * failing mirrors out of rotation with an exponentially backed-off circuit breaker.
+ * Scores persist in localStorage so a dead mirror isn't retried on every page load.
+ */
+
+interface MirrorStats {
+  // Exponentially weighted moving average of response time
+  latencyMs: number | null;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  // Circuit is open (mirror skipped) until this timestamp
+  openUntil: number;
+}
+
+const STORAGE_KEY = 'radioBrowserMirrorHealth';
+const LATENCY_WEIGHT = 0.3;
+// Assumed latency for mirrors we haven't measured yet
+const UNKNOWN_LATENCY_MS = 800;
+const BASE_BACKOFF_MS = 10 * 1000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+let stats: Record<string, MirrorStats> | null = null;
+
+const loadStats = (): Record<string, MirrorStats> => {
+  if (stats) return stats;
+  try {
+    stats = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    stats = {};
+  }
+  return stats!;
+};
+
+const saveStats = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(loadStats()));
+  } catch {
+    // Storage full or unavailable; scores just won't survive a reload
+  }
+};
+
+const getStats = (mirror: string): MirrorStats => {
+  const all = loadStats();
+  if (!all[mirror]) {
+    all[mirror] = { latencyMs: null, successes: 0, failures: 0, consecutiveFailures: 0, openUntil: 0 };
+  }
+  return all[mirror];
+};
+
+export const recordMirrorSuccess = (mirror: string, latencyMs: number) => {
+  const entry = getStats(mirror);
+  entry.latencyMs = entry.latencyMs === null
+    ? latencyMs
+    : entry.latencyMs * (1 - LATENCY_WEIGHT) + latencyMs * LATENCY_WEIGHT;
+  entry.successes += 1;
+  entry.consecutiveFailures = 0;
+  entry.openUntil = 0;
+  saveStats();
+};
+
+export const recordMirrorFailure = (mirror: string) => {
+  const entry = getStats(mirror);
+  entry.failures += 1;
+  entry.consecutiveFailures += 1;
+  const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (entry.consecutiveFailures - 1), MAX_BACKOFF_MS);
+  entry.openUntil = Date.now() + backoff;
+  console.warn(`[Mirror Health] ${mirror} failed ${entry.consecutiveFailures}x, skipping for ${Math.round(backoff / 1000)}s`);
+  saveStats();
+};
+
+export const isMirrorAvailable = (mirror: string): boolean => getStats(mirror).openUntil <= Date.now();
+
+// Lower is better: expected latency, penalized by the historical failure rate
+const scoreMirror = (mirror: string): number => {
+  const entry = getStats(mirror);
+  const total = entry.successes + entry.failures;
+  const failureRate = total > 0 ? entry.failures / total : 0;
+  return (entry.latencyMs ?? UNKNOWN_LATENCY_MS) * (1 + failureRate * 4);
+};
+
+/**
+ * Mirrors with a closed circuit, best score first (with a little jitter so equally
+ * healthy mirrors share the load). If every circuit is open, falls back to the one
+ * closest to retrying so requests never fail without trying anything.
+ */
+export const rankMirrors = (mirrors: string[]): string[] => {
+  const unique = [...new Set(mirrors)];
+  const available = unique.filter(isMirrorAvailable);
+
+  if (available.length === 0) {
+    return unique.sort((a, b) => getStats(a).openUntil - getStats(b).openUntil).slice(0, 1);
+  }
+
+  const scored = available.map(mirror => ({ mirror, score: scoreMirror(mirror) * (0.9 + Math.random() * 0.2) }));
+  return scored.sort((a, b) => a.score - b.score).map(({ mirror }) => mirror);
+};
@@ -0,0 +1,342 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RadioStation } from "./radioBrowserApi";
+import { DEFAULT_PLAYER_CONFIG, PlayerMachine, type PlayerMachineConfig, type PlayerMedia, type PlayerTimers } from "./playerMachine";
+
+// Just enough of an <audio> element: tests fire its events by hand
+class FakeMedia implements PlayerMedia {
+    src = '';
+    crossOrigin: string | null = null;
+    muted = false;
+    volume = 1;
+    preload = 'none';
+    error: { code: number; message: string } | null = null;
+    paused = true;
+    loads = 0;
+    private listeners: { type: string; listener: () => void; once: boolean }[] = [];
+
+    get currentSrc() {
+        return this.src;
+    }
+
+    play() {
+        this.paused = false;
+        return Promise.resolve();
+    }
+
+    pause() {
+        this.paused = true;
+    }
+
+    load() {
+        this.loads++;
+    }
+
+    removeAttribute(name: string) {
+        if (name === 'src') this.src = '';
+        if (name === 'crossorigin') this.crossOrigin = null;
+    }
+
+    addEventListener(type: string, listener: () => void, options?: { once?: boolean }) {
+        this.listeners.push({ type, listener, once: !!options?.once });
+    }
+
+    removeEventListener(type: string, listener: () => void) {
+        this.listeners = this.listeners.filter(entry => entry.type !== type || entry.listener !== listener);
+    }
+
+    emit(type: string) {
+        const matching = this.listeners.filter(entry => entry.type === type);
+        this.listeners = this.listeners.filter(entry => entry.type !== type || !entry.once);
+        matching.forEach(entry => entry.listener());
+    }
+
+    fail(message = 'network error') {
+        this.error = { code: 2, message };
+        this.emit('error');
+    }
+}
+
+const station = (id: string, urls: string[]) =>
+    ({ stationuuid: id, name: `Station ${id}`, url_resolved: urls[0], alternate_urls: urls.slice(1) }) as RadioStation;
+
+// The machine's clock, on vitest's fake timers
+const fakeTimers: PlayerTimers = {
+    setTimeout: (callback, ms) => setTimeout(callback, ms) as unknown as number,
+    clearTimeout: (id) => clearTimeout(id),
+    now: () => Date.now(),
+};
+
+const setup = (config: Partial<PlayerMachineConfig> = {}, needsHandover = false) => {
+    const created: FakeMedia[] = [];
+    const onMediaChange = vi.fn();
+    const machine = new PlayerMachine<FakeMedia>({
+        createMedia: () => {
+            const media = new FakeMedia();
+            created.push(media);
+            return media;
+        },
+        attachSource: (media, url) => {
+            media.src = url;
+        },
+        needsHandover: () => needsHandover,
+        onMediaChange,
+        timers: fakeTimers,
+        config,
+    });
+    return { machine, created, onMediaChange };
+};
+
+// Lets candidate resolution and play() promises settle
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+const startPlaying = async (machine: PlayerMachine<FakeMedia>, urls = ['http://a/1']) => {
+    machine.send({ type: 'play', station: station('a', urls) });
+    await settle();
+    machine.getMedia().emit('canplay');
+    machine.getMedia().emit('playing');
+};
+
+describe('PlayerMachine', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('connects through resolving, connecting and buffering to playing', async () => {
+        const { machine } = setup();
+        machine.send({ type: 'play', station: station('a', ['http://a/1']) });
+        expect(machine.getState().status).toBe('resolving');
+
+        await settle();
+        expect(machine.getState()).toMatchObject({ status: 'connecting', url: 'http://a/1', stage: 'anonymous' });
+        expect(machine.getMedia().crossOrigin).toBe('anonymous');
+
+        machine.getMedia().emit('canplay');
+        expect(machine.getState()).toMatchObject({ status: 'buffering', underrun: false });
+        machine.getMedia().emit('playing');
+        expect(machine.getState()).toMatchObject({ status: 'playing', url: 'http://a/1' });
+    });
+
+    describe('stage timeouts', () => {
+        it('moves to the unrestricted stage, then the next candidate, then fails', async () => {
+            const { machine } = setup();
+            machine.send({ type: 'play', station: station('a', ['http://a/1', 'http://a/2']) });
+            await settle();
+
+            await vi.advanceTimersByTimeAsync(DEFAULT_PLAYER_CONFIG.stageTimeoutMs);
+            expect(machine.getState()).toMatchObject({ status: 'connecting', url: 'http://a/1', stage: 'unrestricted' });
+            expect(machine.getMedia().crossOrigin).toBeNull();
+
+            await vi.advanceTimersByTimeAsync(DEFAULT_PLAYER_CONFIG.stageTimeoutMs);
+            expect(machine.getState()).toMatchObject({ status: 'connecting', url: 'http://a/2', stage: 'anonymous' });
+
+            await vi.advanceTimersByTimeAsync(2 * DEFAULT_PLAYER_CONFIG.stageTimeoutMs);
+            expect(machine.getState()).toMatchObject({ status: 'failed', reason: 'unavailable' });
+        });
+
+        it('stops the stage timer once the stream can play', async () => {
+            const { machine } = setup();
+            machine.send({ type: 'play', station: station('a', ['http://a/1']) });
+            await settle();
+            machine.getMedia().emit('canplay');
+
+            await vi.advanceTimersByTimeAsync(DEFAULT_PLAYER_CONFIG.stageTimeoutMs * 3);
+            expect(machine.getState().status).toBe('buffering');
+        });
+
+        it('fails straight away without any stream URL', async () => {
+            const { machine } = setup();
+            machine.send({ type: 'play', station: station('a', ['']) });
+            await settle();
+            expect(machine.getState()).toMatchObject({ status: 'failed', reason: 'unavailable' });
+        });
+    });
+
+    describe('failover', () => {
+        it('tries the same URL without CORS, then the next candidate, on media errors', async () => {
+            const { machine } = setup();
+            machine.send({ type: 'play', station: station('a', ['http://a/1', 'http://a/2']) });
+            await settle();
+
+            machine.getMedia().fail();
+            expect(machine.getState()).toMatchObject({ status: 'connecting', url: 'http://a/1', stage: 'unrestricted' });
+            machine.getMedia().fail();
+            expect(machine.getState()).toMatchObject({ status: 'connecting', url: 'http://a/2', stage: 'anonymous' });
+
+            machine.getMedia().emit('playing');
+            expect(machine.getState()).toMatchObject({ status: 'playing', url: 'http://a/2' });
+        });
+
+        it('keeps the last error when every candidate fails', async () => {
+            const { machine } = setup();
+            machine.send({ type: 'play', station: station('a', ['http://a/1']) });
+            await settle();
+
+            machine.getMedia().fail();
+            machine.getMedia().fail('format not supported');
+            expect(machine.getState()).toMatchObject({
+                status: 'failed',
+                reason: 'unavailable',
+                lastError: { src: 'http://a/1', message: 'Error 2: format not supported' },
+            });
+        });
+
+        it('moves on when play() is rejected as unsupported, but not when autoplay is blocked', async () => {
+            const { machine } = setup();
+            machine.send({ type: 'play', station: station('a', ['http://a/1']) });
+            await settle();
+
+            machine.send({ type: 'playRejected', errorName: 'NotAllowedError' });
+            expect(machine.getState()).toMatchObject({ status: 'connecting', stage: 'anonymous' });
+            machine.send({ type: 'playRejected', errorName: 'NotSupportedError' });
+            expect(machine.getState()).toMatchObject({ status: 'connecting', stage: 'unrestricted' });
+        });
+
+        it('ignores an error with nothing behind it', async () => {
+            const { machine } = setup();
+            await startPlaying(machine);
+            machine.getMedia().emit('error');
+            expect(machine.getState().status).toBe('playing');
+        });
+    });
+
+    describe('stalls', () => {
+        it('reopens a dropped stream and carries on playing', async () => {
+            const { machine } = setup();
+            await startPlaying(machine);
+            const media = machine.getMedia();
+            const loads = media.loads;
+
+            media.emit('ended');
+            expect(machine.getState()).toMatchObject({ status: 'stalled', attempt: 1, reopened: false });
+
+            await settle();
+            expect(machine.getState()).toMatchObject({ status: 'stalled', attempt: 1, reopened: true });
+            expect(media.loads).toBe(loads + 1);
+
+            media.emit('playing');
+            expect(machine.getState().status).toBe('playing');
+        });
+
+        it('counts a long underrun as a drop', async () => {
+            const { machine } = setup();
+            await startPlaying(machine);
+
+            machine.getMedia().emit('waiting');
+            expect(machine.getState()).toMatchObject({ status: 'buffering', underrun: true });
+            await vi.advanceTimersByTimeAsync(DEFAULT_PLAYER_CONFIG.underrunGraceMs - 1);
+            expect(machine.getState().status).toBe('buffering');
+            await vi.advanceTimersByTimeAsync(1);
+            expect(machine.getState()).toMatchObject({ status: 'stalled', attempt: 1 });
+        });
+
+        it('backs off between reopens and fails with stall once every attempt is used', async () => {
+            const { machine } = setup();
+            await startPlaying(machine);
+            machine.getMedia().emit('ended');
+
+            const attempts: number[] = [];
+            machine.subscribe(state => {
+                if (state.status === 'stalled' && !state.reopened) attempts.push(state.attempt);
+            });
+            // 0 + 1 + 2 + 4 s of backoff, and every reopen times out
+            await vi.advanceTimersByTimeAsync(7000 + DEFAULT_PLAYER_CONFIG.maxReconnectAttempts * DEFAULT_PLAYER_CONFIG.reopenTimeoutMs);
+
+            expect(attempts).toEqual([2, 3, 4]);
+            expect(machine.getState()).toMatchObject({ status: 'failed', reason: 'stall' });
+        });
+
+        it('gives a stream that played for a while its attempts back', async () => {
+            const { machine } = setup({ maxReconnectAttempts: 1 });
+            await startPlaying(machine);
+            const media = machine.getMedia();
+
+            media.emit('ended');
+            await settle();
+            media.emit('playing');
+            await vi.advanceTimersByTimeAsync(DEFAULT_PLAYER_CONFIG.healthySessionMs + 1);
+
+            media.emit('ended');
+            expect(machine.getState()).toMatchObject({ status: 'stalled', attempt: 1 });
+        });
+
+        it('fails a stream that stays silent', async () => {
+            const { machine } = setup({ silenceLimit: 3 });
+            await startPlaying(machine);
+
+            machine.send({ type: 'signal', silent: true });
+            machine.send({ type: 'signal', silent: true });
+            machine.send({ type: 'signal', silent: false });
+            machine.send({ type: 'signal', silent: true });
+            machine.send({ type: 'signal', silent: true });
+            expect(machine.getState().status).toBe('playing');
+            machine.send({ type: 'signal', silent: true });
+            expect(machine.getState()).toMatchObject({ status: 'failed', reason: 'silence' });
+        });
+    });
+
+    describe('proxy handover', () => {
+        const handoverAt = DEFAULT_PLAYER_CONFIG.proxySessionMs - DEFAULT_PLAYER_CONFIG.handoverLeadMs;
+
+        it('opens a muted standby before the proxy cuts off and switches to it once it plays', async () => {
+            const { machine, created, onMediaChange } = setup({}, true);
+            await startPlaying(machine);
+            const [main] = created;
+
+            await vi.advanceTimersByTimeAsync(handoverAt);
+            expect(created).toHaveLength(2);
+            const standby = created[1];
+            expect(standby).toMatchObject({ src: 'http://a/1', muted: true, paused: false });
+            expect(machine.getMedia()).toBe(main);
+
+            standby.emit('playing');
+            expect(machine.getMedia()).toBe(standby);
+            expect(standby.muted).toBe(false);
+            expect(onMediaChange).toHaveBeenCalledWith(standby);
+            expect(main).toMatchObject({ src: '', paused: true });
+            expect(machine.getLog().at(-1)).toMatchObject({ to: 'playing', detail: 'handover complete' });
+
+            // The new connection gets its own handover, on the element it replaced
+            await vi.advanceTimersByTimeAsync(handoverAt);
+            expect(created).toHaveLength(2);
+            expect(main).toMatchObject({ src: 'http://a/1', muted: true });
+        });
+
+        it('gives up on a standby that never plays and keeps the current connection', async () => {
+            const { machine, created } = setup({}, true);
+            await startPlaying(machine);
+            const [main] = created;
+
+            await vi.advanceTimersByTimeAsync(handoverAt + DEFAULT_PLAYER_CONFIG.handoverLeadMs);
+            const standby = created[1];
+            expect(standby).toMatchObject({ src: '', paused: true });
+            expect(machine.getMedia()).toBe(main);
+            expect(machine.getState().status).toBe('playing');
+
+            // A late 'playing' from the released standby changes nothing
+            standby.emit('playing');
+            expect(machine.getMedia()).toBe(main);
+        });
+
+        it('only hands over connections that need it', async () => {
+            const { machine, created } = setup();
+            await startPlaying(machine);
+            await vi.advanceTimersByTimeAsync(DEFAULT_PLAYER_CONFIG.proxySessionMs);
+            expect(created).toHaveLength(1);
+        });
+    });
+
+    it('drops late results for a station that was switched away from', async () => {
+        const { machine } = setup();
+        machine.send({ type: 'play', station: station('a', ['http://a/1']) });
+        machine.send({ type: 'play', station: station('b', ['http://b/1']) });
+        await settle();
+        expect(machine.getState()).toMatchObject({ status: 'connecting', url: 'http://b/1', station: { stationuuid: 'b' } });
+    });
+});
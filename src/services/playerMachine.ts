@@ -0,0 +1,716 @@
+/**
+ * Playback state machine for one radio station at a time.
+ *
+ *   idle -> resolving -> connecting[anonymous|unrestricted] -> buffering -> playing
+ *                                                              playing <-> buffering (underrun)
+ *                                          playing/buffering -> stalled (reopen with backoff) -> playing
+ *                                                   anything -> failed (caller decides whether to skip)
+ *
+ * With a mixer injected, a new station opens on a second element while the previous one
+ * keeps playing, then the two are crossfaded; a static bed covers the gap if the new
+ * stream takes longer than the crossfade itself.
+ *
+ * Framework-agnostic: the media element, timers, source attachment and candidate
+ * resolution are all injected, so every skip/retry rule can be driven by hand
+ * (fake element + fake clock) without a browser. React glue lives in AudioContext.
+ */
+
+import type { RadioStation } from "./radioBrowserApi";
+
+// --- TYPES ---
+
+/** The parts of HTMLAudioElement the machine touches */
+export interface PlayerMedia {
+    src: string;
+    crossOrigin: string | null;
+    muted: boolean;
+    volume: number;
+    preload: string;
+    readonly currentSrc: string;
+    readonly error: { code: number; message: string } | null;
+    play(): Promise<void>;
+    pause(): void;
+    load(): void;
+    removeAttribute(name: string): void;
+    addEventListener(type: string, listener: () => void, options?: { once?: boolean }): void;
+    removeEventListener(type: string, listener: () => void): void;
+}
+
+export interface PlayerTimers {
+    setTimeout(callback: () => void, ms: number): number;
+    clearTimeout(id: number): void;
+    now(): number;
+}
+
+// 'anonymous' keeps CORS on so the tap graph can read samples; 'unrestricted' gives that up to get any sound at all
+export type ConnectStage = 'anonymous' | 'unrestricted';
+
+export type PlayerFailure =
+    | 'unavailable' // every candidate URL and stage failed to connect
+    | 'stall'       // a stream that was playing dropped and could not be reopened
+    | 'silence';    // connected, but nothing audible for too long
+
+export type PlayerState =
+    | { status: 'idle' }
+    | { status: 'resolving'; station: RadioStation }
+    | { status: 'connecting'; station: RadioStation; url: string; stage: ConnectStage }
+    // underrun: we got here from 'playing' (waiting/stalled) rather than from a fresh connection
+    | { status: 'buffering'; station: RadioStation; url: string; underrun: boolean }
+    | { status: 'playing'; station: RadioStation; url: string; since: number }
+    | { status: 'stalled'; station: RadioStation; url: string; attempt: number; reopened: boolean }
+    | { status: 'failed'; station: RadioStation; reason: PlayerFailure; lastError: PlayerError | null };
+
+export type PlayerStatus = PlayerState['status'];
+
+export interface PlayerError {
+    src: string;
+    message: string;
+}
+
+export type MediaEventName = 'canplay' | 'playing' | 'waiting' | 'stalled' | 'ended' | 'error';
+
+export type PlayerTimerName =
+    | 'stage' | 'underrun' | 'backoff' | 'reopen' | 'handover' | 'handoverGiveUp'
+    // Crossfade timers outlive the connection that started them
+    | 'switchHold' | 'fadeOut';
+
+export type PlayerEvent =
+    | { type: 'play'; station: RadioStation }
+    | { type: 'stop' }
+    | { type: 'resolved'; urls: string[] }
+    | { type: 'media'; name: MediaEventName }
+    | { type: 'playRejected'; errorName: string }
+    | { type: 'timeout'; timer: PlayerTimerName }
+    // Once a second from whoever can see the samples (analyser)
+    | { type: 'signal'; silent: boolean }
+    | { type: 'handoverReady' }
+    | { type: 'handoverFailed' };
+
+export interface PlayerTransition {
+    at: number;
+    from: PlayerStatus;
+    to: PlayerStatus;
+    event: PlayerEvent['type'];
+    detail?: string;
+}
+
+export interface PlayerMachineConfig {
+    // Per connection stage before moving on to the next stage / candidate
+    stageTimeoutMs: number;
+    // How long a mid-stream underrun may last before it counts as a drop
+    underrunGraceMs: number;
+    // How long a reopened connection gets to produce audio
+    reopenTimeoutMs: number;
+    // Silent reopen attempts for a station that was playing fine, before giving up
+    maxReconnectAttempts: number;
+    // A connection that lasted this long counts as healthy again (resets the attempt counter)
+    healthySessionMs: number;
+    // Consecutive silent 'signal' events before the station is failed
+    silenceLimit: number;
+    // Proxied responses are cut off after this long; 0 disables handovers
+    proxySessionMs: number;
+    handoverLeadMs: number;
+    // Equal-power crossfade between stations (needs a mixer); 0 cuts straight over
+    crossfadeMs: number;
+}
+
+export const DEFAULT_PLAYER_CONFIG: PlayerMachineConfig = {
+    stageTimeoutMs: 12000,
+    underrunGraceMs: 5000,
+    reopenTimeoutMs: 12000,
+    maxReconnectAttempts: 4,
+    healthySessionMs: 60000,
+    silenceLimit: 10,
+    proxySessionMs: 300000,
+    handoverLeadMs: 15000,
+    crossfadeMs: 0,
+};
+
+// What can be faded in or out: a station's element or the static noise bed
+export type MixerSource<M> = M | 'static';
+
+export interface PlayerMixer<M extends PlayerMedia> {
+    // Route an element to the output at zero gain, ready to be faded in
+    prepare(media: M): void;
+    // Equal-power crossfade over ms; null on either side means silence
+    crossfade(from: MixerSource<M> | null, to: MixerSource<M> | null, ms: number): void;
+}
+
+export interface PlayerMachineOptions<M extends PlayerMedia> {
+    // The first call provides the main element; later calls provide handover standbys and crossfade partners
+    createMedia: () => M;
+    // Point an element at a stream URL (proxying, HLS sessions...). May return a cleanup.
+    attachSource: (media: M, url: string, station: RadioStation) => (() => void) | void;
+    // Stream URLs to try for a station, best first (playlist resolution, merged duplicates)
+    resolveCandidates?: (station: RadioStation) => Promise<string[]>;
+    // Whether this connection is subject to the proxy's session limit
+    needsHandover?: (media: M, url: string) => boolean;
+    // Called whenever a different element becomes the audible one
+    onMediaChange?: (media: M) => void;
+    // Gain control for crossfades and the static bed; without one, stations cut over
+    mixer?: PlayerMixer<M>;
+    timers?: PlayerTimers;
+    config?: Partial<PlayerMachineConfig>;
+}
+
+export type PlayerListener = (state: PlayerState, transition: PlayerTransition) => void;
+
+const MAX_LOG_ENTRIES = 100;
+const MEDIA_EVENTS: MediaEventName[] = ['canplay', 'playing', 'waiting', 'stalled', 'ended', 'error'];
+const SWITCH_TIMERS: PlayerTimerName[] = ['switchHold', 'fadeOut'];
+
+const browserTimers: PlayerTimers = {
+    setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+    clearTimeout: (id) => window.clearTimeout(id),
+    now: () => Date.now(),
+};
+
+const defaultCandidates = async (station: RadioStation): Promise<string[]> =>
+    [station.url_resolved, ...(station.alternate_urls || [])].filter(Boolean);
+
+// --- MACHINE ---
+
+export class PlayerMachine<M extends PlayerMedia = PlayerMedia> {
+    private state: PlayerState = { status: 'idle' };
+    private readonly log: PlayerTransition[] = [];
+    private readonly listeners = new Set<PlayerListener>();
+    private readonly config: PlayerMachineConfig;
+    private readonly timers: PlayerTimers;
+    private readonly pending = new Map<PlayerTimerName, number>();
+
+    private media: M;
+    private unbindMedia: () => void = () => { };
+    private detachSource: (() => void) | void = undefined;
+
+    // Bumped for every station so late async results (resolution, play() promises) can be ignored
+    private generation = 0;
+    // Bumped for every load() so a play() rejection from an earlier stage can't advance a later one
+    private connection = 0;
+    private candidates: string[] = [];
+    private lastError: PlayerError | null = null;
+    private reconnectAttempts = 0;
+    private sessionStartedAt: number | null = null;
+    private silentTicks = 0;
+
+    private standby: M | null = null;
+    private detachStandby: (() => void) | void = undefined;
+
+    // The element listeners were last told about (onMediaChange)
+    private audible: M;
+    // The previous station, still playing on its own element while the next one buffers
+    private outgoing: M | null = null;
+    private detachOutgoing: (() => void) | void = undefined;
+    // The current element was prepared silent and is waiting for 'playing' to fade in
+    private awaitingFadeIn = false;
+    private bedOn = false;
+    // A released element kept for the next crossfade or handover
+    private spare: M | null = null;
+
+    constructor(private readonly options: PlayerMachineOptions<M>) {
+        this.config = { ...DEFAULT_PLAYER_CONFIG, ...options.config };
+        this.timers = options.timers || browserTimers;
+        this.media = options.createMedia();
+        this.audible = this.media;
+        this.bindMedia(this.media);
+    }
+
+    getState(): PlayerState {
+        return this.state;
+    }
+
+    getMedia(): M {
+        return this.media;
+    }
+
+    /** Most recent transitions, oldest first */
+    getLog(): PlayerTransition[] {
+        return [...this.log];
+    }
+
+    /** Change tunables on the fly (e.g. the user's crossfade length); applies from the next use */
+    configure(config: Partial<PlayerMachineConfig>) {
+        Object.assign(this.config, config);
+    }
+
+    subscribe(listener: PlayerListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    destroy() {
+        this.send({ type: 'stop' });
+        this.unbindMedia();
+        this.listeners.clear();
+    }
+
+    send(event: PlayerEvent) {
+        switch (event.type) {
+            case 'play': return this.startStation(event.station, event);
+            case 'stop': return this.stop(event);
+            case 'resolved': return this.onResolved(event);
+            case 'media': return this.onMedia(event.name, event);
+            case 'playRejected': return this.onPlayRejected(event);
+            case 'timeout': return this.onTimeout(event.timer, event);
+            case 'signal': return this.onSignal(event);
+            case 'handoverReady': return this.completeHandover(event);
+            case 'handoverFailed': return this.cancelHandover();
+        }
+    }
+
+    // --- TRANSITIONS ---
+
+    private startStation(station: RadioStation, event: PlayerEvent) {
+        if (this.canCrossfade()) this.holdOutgoing();
+        this.reset();
+        this.prepareFadeIn();
+        const generation = ++this.generation;
+        this.transition({ status: 'resolving', station }, event, station.name);
+
+        (this.options.resolveCandidates || defaultCandidates)(station)
+            .catch(error => {
+                console.warn('[Player] Could not resolve stream candidates:', error);
+                return [];
+            })
+            .then(urls => {
+                if (generation === this.generation) this.send({ type: 'resolved', urls });
+            });
+    }
+
+    private stop(event: PlayerEvent) {
+        this.generation++;
+        this.connection++;
+        this.reset();
+        this.endSwitch(0);
+        if (this.state.status !== 'idle') this.transition({ status: 'idle' }, event);
+    }
+
+    private onResolved(event: Extract<PlayerEvent, { type: 'resolved' }>) {
+        if (this.state.status !== 'resolving') return;
+        const [first, ...rest] = event.urls;
+        if (!first) return this.fail('unavailable', event, 'no stream URLs');
+        this.candidates = rest;
+        this.connect(first, 'anonymous', event);
+    }
+
+    private connect(url: string, stage: ConnectStage, event: PlayerEvent) {
+        const station = this.currentStation();
+        if (!station) return;
+
+        this.clearTimer('stage');
+        this.transition({ status: 'connecting', station, url, stage }, event, stage === 'anonymous' ? url : `${stage} ${url}`);
+
+        if (stage === 'anonymous') {
+            this.media.crossOrigin = 'anonymous';
+        } else {
+            this.media.removeAttribute('crossorigin');
+            this.media.crossOrigin = null;
+        }
+        this.startTimer('stage', this.config.stageTimeoutMs);
+        this.load(url, station);
+    }
+
+    // Next stage of the same URL, then the next candidate, then give up
+    private advance(event: PlayerEvent) {
+        if (this.state.status !== 'connecting') return;
+        if (this.state.stage === 'anonymous') return this.connect(this.state.url, 'unrestricted', event);
+        const next = this.candidates.shift();
+        if (next) return this.connect(next, 'anonymous', event);
+        this.fail('unavailable', event);
+    }
+
+    private onMedia(name: MediaEventName, event: PlayerEvent) {
+        const state = this.state;
+        switch (name) {
+            case 'canplay':
+                if (state.status === 'connecting') {
+                    this.clearTimer('stage');
+                    this.transition({ status: 'buffering', station: state.station, url: state.url, underrun: false }, event);
+                }
+                return;
+
+            case 'playing':
+                if (state.status === 'connecting' || state.status === 'buffering' || state.status === 'stalled') {
+                    this.clearTimer('stage');
+                    this.clearTimer('underrun');
+                    this.clearTimer('reopen');
+                    if (this.sessionStartedAt === null) {
+                        this.sessionStartedAt = this.timers.now();
+                        this.scheduleHandover(state.url);
+                    }
+                    if (this.awaitingFadeIn) this.fadeIn();
+                    this.transition({ status: 'playing', station: state.station, url: state.url, since: this.timers.now() }, event);
+                }
+                return;
+
+            case 'waiting':
+            case 'stalled':
+                if (state.status === 'playing') {
+                    this.transition({ status: 'buffering', station: state.station, url: state.url, underrun: true }, event, name);
+                    this.startTimer('underrun', this.config.underrunGraceMs);
+                }
+                return;
+
+            // A live stream never ends on its own: the connection was closed under us
+            case 'ended':
+                if (state.status === 'playing' || state.status === 'buffering') this.drop(event, 'ended');
+                return;
+
+            case 'error': {
+                const error = this.media.error;
+                // Clearing src to stop a connection can fire 'error' with nothing behind it
+                if (!error) return;
+                this.lastError = { src: this.media.currentSrc, message: `Error ${error.code}: ${error.message}` };
+                console.error('[Player] Stream error:', this.lastError.message, this.lastError.src);
+                if (state.status === 'connecting') this.advance(event);
+                else if (state.status === 'playing' || state.status === 'buffering') this.drop(event, 'error');
+                else if (state.status === 'stalled' && state.reopened) this.drop(event, 'error');
+                return;
+            }
+        }
+    }
+
+    private onPlayRejected(event: Extract<PlayerEvent, { type: 'playRejected' }>) {
+        // Autoplay blocks (NotAllowedError) and load() interruptions (AbortError) aren't the stream's fault
+        if (event.errorName === 'NotSupportedError' || event.errorName === 'SecurityError') this.advance(event);
+    }
+
+    private onTimeout(timer: PlayerTimerName, event: PlayerEvent) {
+        const state = this.state;
+        switch (timer) {
+            case 'stage':
+                return this.advance(event);
+            case 'underrun':
+                if (state.status === 'buffering') this.drop(event, 'underrun');
+                return;
+            case 'backoff':
+                if (state.status === 'stalled') this.reopen(event);
+                return;
+            case 'reopen':
+                if (state.status === 'stalled') this.drop(event, 'reopen timed out');
+                return;
+            case 'handover':
+                return this.startHandover();
+            case 'handoverGiveUp':
+                // The old connection's end falls back to a normal reopen
+                return this.cancelHandover();
+            case 'switchHold':
+                return this.fadeToBed();
+            case 'fadeOut':
+                return this.releaseOutgoing();
+        }
+    }
+
+    private onSignal(event: Extract<PlayerEvent, { type: 'signal' }>) {
+        if (this.state.status !== 'playing' || !event.silent) {
+            this.silentTicks = 0;
+            return;
+        }
+        if (++this.silentTicks >= this.config.silenceLimit) this.fail('silence', event);
+    }
+
+    /**
+     * Silently reopen the same stream after it dropped on a station that was playing fine
+     * (proxy function timeout, server hiccup). Fails with 'stall' once every attempt is used.
+     */
+    private drop(event: PlayerEvent, reason: string) {
+        const state = this.state;
+        if (state.status !== 'playing' && state.status !== 'buffering' && state.status !== 'stalled') return;
+
+        if (this.sessionStartedAt !== null && this.timers.now() - this.sessionStartedAt > this.config.healthySessionMs) {
+            this.reconnectAttempts = 0;
+        }
+        if (this.reconnectAttempts >= this.config.maxReconnectAttempts) return this.fail('stall', event, reason);
+
+        const attempt = ++this.reconnectAttempts;
+        const delay = attempt === 1 ? 0 : 1000 * 2 ** (attempt - 2);
+        this.cancelHandover();
+        this.clearTimers();
+        this.sessionStartedAt = null;
+
+        this.transition({ status: 'stalled', station: state.station, url: state.url, attempt, reopened: false }, event,
+            `${reason}, reopening in ${delay}ms (${attempt}/${this.config.maxReconnectAttempts})`);
+        this.startTimer('backoff', delay);
+    }
+
+    private reopen(event: PlayerEvent) {
+        const state = this.state;
+        if (state.status !== 'stalled') return;
+        this.transition({ ...state, reopened: true }, event);
+        this.startTimer('reopen', this.config.reopenTimeoutMs);
+        this.load(state.url, state.station);
+    }
+
+    private fail(reason: PlayerFailure, event: PlayerEvent, detail?: string) {
+        const station = this.currentStation();
+        if (!station) return;
+        const lastError = this.lastError;
+        this.reset();
+        this.endSwitch(this.config.crossfadeMs);
+        this.transition({ status: 'failed', station, reason, lastError }, event, detail);
+    }
+
+    // --- CROSSFADE ---
+
+    // Only a station that is actually being heard is worth fading out
+    private canCrossfade(): boolean {
+        const state = this.state;
+        if (!this.options.mixer || this.config.crossfadeMs <= 0 || this.awaitingFadeIn) return false;
+        return state.status === 'playing' || (state.status === 'buffering' && state.underrun);
+    }
+
+    // Keep the current element playing as the outgoing one and connect the next station on another
+    private holdOutgoing() {
+        this.releaseOutgoing();
+        this.cancelHandover();
+        this.unbindMedia();
+        this.outgoing = this.media;
+        this.detachOutgoing = this.detachSource;
+        this.detachSource = undefined;
+
+        const media = this.takeMedia();
+        media.volume = this.outgoing.volume;
+        this.media = media;
+        this.bindMedia(media);
+        this.startTimer('switchHold', this.config.crossfadeMs);
+    }
+
+    /**
+     * A new connection starts silent and is faded in once it plays. Until then the
+     * outgoing station holds (crossfade) or the static bed fills the silence.
+     */
+    private prepareFadeIn() {
+        const mixer = this.options.mixer;
+        if (!mixer) return;
+        mixer.prepare(this.media);
+        this.awaitingFadeIn = true;
+        // Switching again mid-crossfade: the held station or the bed already covers the gap
+        if (this.bedOn || this.pending.has('switchHold')) return;
+        mixer.crossfade(null, 'static', this.config.crossfadeMs);
+        this.bedOn = true;
+    }
+
+    private fadeIn() {
+        const mixer = this.options.mixer;
+        this.awaitingFadeIn = false;
+        if (!mixer) return;
+        const ms = this.config.crossfadeMs;
+
+        this.clearTimer('switchHold');
+        if (this.bedOn) {
+            mixer.crossfade('static', this.media, ms);
+            this.bedOn = false;
+        } else if (this.outgoing) {
+            mixer.crossfade(this.outgoing, this.media, ms);
+            this.startTimer('fadeOut', ms);
+        } else {
+            mixer.crossfade(null, this.media, ms);
+        }
+
+        if (this.audible !== this.media) {
+            this.audible = this.media;
+            this.options.onMediaChange?.(this.media);
+        }
+    }
+
+    // The next station is taking longer than the crossfade: let static take over from the old one
+    private fadeToBed() {
+        const mixer = this.options.mixer;
+        if (!mixer || !this.outgoing || this.bedOn) return;
+        console.log('[Player] Next station still buffering, fading to static');
+        mixer.crossfade(this.outgoing, 'static', this.config.crossfadeMs);
+        this.bedOn = true;
+        this.startTimer('fadeOut', this.config.crossfadeMs);
+    }
+
+    // Fade out whatever is left of a switch (stop, failure)
+    private endSwitch(ms: number) {
+        const mixer = this.options.mixer;
+        this.clearTimer('switchHold');
+        this.awaitingFadeIn = false;
+        if (this.bedOn) {
+            mixer?.crossfade('static', null, ms);
+            this.bedOn = false;
+        }
+        if (!this.outgoing) return;
+        mixer?.crossfade(this.outgoing, null, ms);
+        if (ms > 0) this.startTimer('fadeOut', ms);
+        else this.releaseOutgoing();
+    }
+
+    private releaseOutgoing() {
+        this.clearTimer('fadeOut');
+        if (!this.outgoing) return;
+        this.retireMedia(this.outgoing, this.detachOutgoing);
+        this.outgoing = null;
+        this.detachOutgoing = undefined;
+    }
+
+    // --- PROXY HANDOVER ---
+
+    private scheduleHandover(url: string) {
+        if (!this.config.proxySessionMs || !this.options.needsHandover?.(this.media, url)) return;
+        this.startTimer('handover', Math.max(0, this.config.proxySessionMs - this.config.handoverLeadMs));
+    }
+
+    /**
+     * Open the replacement connection on a muted standby element before the proxy
+     * cuts the current one; it becomes the audible element once it is playing.
+     */
+    private startHandover() {
+        const state = this.state;
+        if ((state.status !== 'playing' && state.status !== 'buffering') || this.standby) return;
+
+        console.log('[Player] Pre-opening replacement connection for:', state.url);
+        const standby = this.takeMedia();
+        standby.crossOrigin = this.media.crossOrigin;
+        standby.volume = this.media.volume;
+        standby.muted = true;
+        standby.preload = 'auto';
+        this.standby = standby;
+        this.detachStandby = this.options.attachSource(standby, state.url, state.station);
+
+        const generation = this.generation;
+        const current = () => generation === this.generation && this.standby === standby;
+        standby.addEventListener('playing', () => {
+            if (current()) this.send({ type: 'handoverReady' });
+        }, { once: true });
+        standby.play().catch(() => {
+            if (current()) this.send({ type: 'handoverFailed' });
+        });
+        this.startTimer('handoverGiveUp', this.config.handoverLeadMs);
+    }
+
+    private completeHandover(event: PlayerEvent) {
+        const state = this.state;
+        const standby = this.standby;
+        if (!standby) return;
+        if (state.status !== 'playing' && state.status !== 'buffering') return this.cancelHandover();
+
+        this.clearTimer('handoverGiveUp');
+        this.standby = null;
+        this.unbindMedia();
+        this.retireMedia(this.media, this.detachSource);
+
+        this.media = standby;
+        this.audible = standby;
+        this.detachSource = this.detachStandby;
+        this.detachStandby = undefined;
+        this.bindMedia(standby);
+        // A reused element may still be faded down from an earlier crossfade
+        this.options.mixer?.crossfade(null, standby, 0);
+        standby.muted = false;
+        this.options.onMediaChange?.(standby);
+
+        this.sessionStartedAt = this.timers.now();
+        this.scheduleHandover(state.url);
+        this.clearTimer('underrun');
+        this.transition({ status: 'playing', station: state.station, url: state.url, since: this.timers.now() }, event, 'handover complete');
+    }
+
+    private cancelHandover() {
+        this.clearTimer('handover');
+        this.clearTimer('handoverGiveUp');
+        if (!this.standby) return;
+        this.retireMedia(this.standby, this.detachStandby);
+        this.standby = null;
+        this.detachStandby = undefined;
+    }
+
+    // --- MEDIA ---
+
+    private bindMedia(media: M) {
+        const handlers = MEDIA_EVENTS.map(name => {
+            const handler = () => this.send({ type: 'media', name });
+            media.addEventListener(name, handler);
+            return [name, handler] as const;
+        });
+        this.unbindMedia = () => handlers.forEach(([name, handler]) => media.removeEventListener(name, handler));
+    }
+
+    private load(url: string, station: RadioStation) {
+        if (this.detachSource) this.detachSource();
+        this.detachSource = this.options.attachSource(this.media, url, station);
+        this.media.load();
+
+        const connection = ++this.connection;
+        this.media.play().catch((error: { name?: string }) => {
+            if (connection === this.connection) {
+                this.send({ type: 'playRejected', errorName: error?.name || 'Error' });
+            }
+        });
+    }
+
+    private releaseMedia(media: M, detach: (() => void) | void) {
+        if (detach) detach();
+        media.pause();
+        media.removeAttribute('src');
+        media.load(); // Drops the pending request
+    }
+
+    // Released elements are reused rather than piling up in the audio graph
+    private retireMedia(media: M, detach: (() => void) | void) {
+        this.releaseMedia(media, detach);
+        if (!this.spare) this.spare = media;
+    }
+
+    private takeMedia(): M {
+        const media = this.spare || this.options.createMedia();
+        this.spare = null;
+        media.muted = false;
+        return media;
+    }
+
+    // --- HOUSEKEEPING ---
+
+    private currentStation(): RadioStation | null {
+        return this.state.status === 'idle' ? null : this.state.station;
+    }
+
+    // Everything a new station or a stop throws away
+    private reset() {
+        this.clearTimers();
+        this.cancelHandover();
+        if (this.state.status !== 'idle' && this.state.status !== 'failed') {
+            this.releaseMedia(this.media, this.detachSource);
+        }
+        this.detachSource = undefined;
+        this.candidates = [];
+        this.lastError = null;
+        this.reconnectAttempts = 0;
+        this.sessionStartedAt = null;
+        this.silentTicks = 0;
+    }
+
+    private startTimer(name: PlayerTimerName, ms: number) {
+        this.clearTimer(name);
+        const id = this.timers.setTimeout(() => {
+            if (this.pending.get(name) !== id) return;
+            this.pending.delete(name);
+            this.send({ type: 'timeout', timer: name });
+        }, ms);
+        this.pending.set(name, id);
+    }
+
+    private clearTimer(name: PlayerTimerName) {
+        const id = this.pending.get(name);
+        if (id === undefined) return;
+        this.timers.clearTimeout(id);
+        this.pending.delete(name);
+    }
+
+    // Connection timers only; a crossfade in progress keeps its own
+    private clearTimers() {
+        [...this.pending.keys()].filter(name => !SWITCH_TIMERS.includes(name)).forEach(name => this.clearTimer(name));
+    }
+
+    private transition(next: PlayerState, event: PlayerEvent, detail?: string) {
+        const entry: PlayerTransition = { at: this.timers.now(), from: this.state.status, to: next.status, event: event.type, detail };
+        this.state = next;
+        this.log.push(entry);
+        if (this.log.length > MAX_LOG_ENTRIES) this.log.shift();
+        if (entry.from !== entry.to || detail) {
+            console.log(`[Player] ${entry.from} -> ${entry.to} (${entry.event}${detail ? `: ${detail}` : ''})`);
+        }
+        this.listeners.forEach(listener => listener(next, entry));
+    }
+}
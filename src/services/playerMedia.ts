@@ -0,0 +1,45 @@
+/**
+ * Browser side of the player state machine: creating <audio> elements and pointing
+ * them at a stream (sanitized/proxied URL, or an MSE HLS session outside Safari).
+ */
+
+import type { RadioStation } from "./radioBrowserApi";
+import { sanitizeStreamUrl } from "./urlSanitizer";
+import { HlsPlayer, canPlayHlsNatively, isHlsSupported, isHlsUrl } from "./hlsPlayer";
+import { isPlaylistUrl, resolveStreamCandidates } from "./playlistResolver";
+import { rankPlayableUrls } from "./streamProbe";
+
+export const createPlayerAudio = (): HTMLAudioElement => {
+    const audio = new Audio();
+    audio.preload = "none";
+    // Anonymous CORS by default so visualizers can access data
+    audio.crossOrigin = "anonymous";
+    return audio;
+};
+
+// Manual/imported stations are always proxied for CORS/Mixed Content compatibility
+const isManualStation = (station: RadioStation) =>
+    !!station.isManual || !!station.stationuuid?.startsWith('local-');
+
+export const attachStreamSource = (audio: HTMLAudioElement, url: string, station: RadioStation): (() => void) | void => {
+    if (isHlsUrl(url) && !canPlayHlsNatively(audio) && isHlsSupported()) {
+        // Feed segments through MSE on the same element so the tap graph still applies
+        console.log('[Player] Using MSE HLS playback for:', url);
+        const hls = new HlsPlayer(audio, url);
+        hls.attach();
+        return () => hls.destroy();
+    }
+    audio.src = sanitizeStreamUrl(url, isManualStation(station));
+};
+
+/** Playlists (.pls/.m3u/.asx/.xspf) resolve to their entries; merged duplicates add their streams as fallbacks */
+export const resolvePlayableUrls = async (station: RadioStation): Promise<string[]> => {
+    if (isPlaylistUrl(station.url_resolved)) {
+        return rankPlayableUrls(await resolveStreamCandidates(station.url_resolved));
+    }
+    return [station.url_resolved, ...(station.alternate_urls || [])];
+};
+
+// Only proxied progressive streams are subject to the serverless function's time limit
+export const isProxiedSource = (audio: HTMLAudioElement): boolean =>
+    audio.src.includes('/api/proxy?');
@@ -0,0 +1,145 @@
+/**
+ * Resolves playlist-file station URLs (.pls, .m3u, .asx, .xspf) to playable stream URLs.
+ * Many community submissions and radio-browser entries point at a playlist rather than
+ * the audio itself, which the <audio> element can't play. Fetches go through /api/proxy for CORS.
+ */
+
+export type PlaylistFormat = 'pls' | 'm3u' | 'asx' | 'xspf';
+
+const PLAYLIST_EXTENSIONS: Record<string, PlaylistFormat> = {
+    pls: 'pls',
+    m3u: 'm3u',
+    asx: 'asx',
+    xspf: 'xspf',
+};
+
+const RESOLVE_TIMEOUT_MS = 8000;
+const MAX_NESTING = 2;
+
+// Session cache so prev/next doesn't refetch the same playlist
+const resolvedCache = new Map<string, string[]>();
+
+/**
+ * Detect a playlist by its file extension (.m3u8 is HLS and deliberately excluded)
+ */
+export const getPlaylistFormat = (url: string): PlaylistFormat | null => {
+    if (!url) return null;
+    try {
+        const { pathname } = new URL(url.trim(), window.location.href);
+        const ext = pathname.split('.').pop()?.toLowerCase() || '';
+        return PLAYLIST_EXTENSIONS[ext] || null;
+    } catch {
+        return null;
+    }
+};
+
+export const isPlaylistUrl = (url: string): boolean => getPlaylistFormat(url) !== null;
+
+// --- PARSERS ---
+
+export const parsePls = (text: string): string[] =>
+    text.split(/\r?\n/)
+        .map(line => line.trim().match(/^File\d+\s*=\s*(.+)$/i)?.[1])
+        .filter((entry): entry is string => !!entry);
+
+export const parseM3u = (text: string): string[] =>
+    text.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !line.startsWith('#'));
+
+export const parseAsx = (text: string): string[] =>
+    Array.from(text.matchAll(/<ref\s+href\s*=\s*["']([^"']+)["']/gi), m => decodeXmlEntities(m[1]));
+
+export const parseXspf = (text: string): string[] =>
+    Array.from(text.matchAll(/<location>\s*([^<]+?)\s*<\/location>/gi), m => decodeXmlEntities(m[1]));
+
+const decodeXmlEntities = (value: string): string =>
+    value.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'");
+
+/**
+ * Sniff the format from the body when the extension lies (e.g. a .m3u serving PLS)
+ */
+const detectFormat = (text: string, fallback: PlaylistFormat): PlaylistFormat => {
+    const head = text.trimStart().slice(0, 200).toLowerCase();
+    if (head.startsWith('[playlist]')) return 'pls';
+    if (head.includes('<asx')) return 'asx';
+    if (head.includes('<playlist') && head.includes('xspf')) return 'xspf';
+    if (head.startsWith('#extm3u')) return 'm3u';
+    return fallback;
+};
+
+export const parsePlaylist = (text: string, format: PlaylistFormat): string[] => {
+    switch (detectFormat(text, format)) {
+        case 'pls': return parsePls(text);
+        case 'asx': return parseAsx(text);
+        case 'xspf': return parseXspf(text);
+        default: return parseM3u(text);
+    }
+};
+
+// Only http(s) entries are playable in the browser (drops mms://, rtsp:// etc.)
+const toPlayableUrl = (entry: string, baseUrl: string): string | null => {
+    try {
+        const url = new URL(entry, baseUrl);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+    } catch {
+        return null;
+    }
+};
+
+const fetchPlaylistText = async (url: string): Promise<string> => {
+    const controller = new AbortController();
+    const timeout = window.setTimeout(() => controller.abort(), RESOLVE_TIMEOUT_MS);
+    try {
+        const response = await fetch(`/api/proxy?url=${encodeURIComponent(url)}`, { signal: controller.signal });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return await response.text();
+    } finally {
+        window.clearTimeout(timeout);
+    }
+};
+
+const resolveEntries = async (url: string, depth: number, fallbackFormat?: PlaylistFormat): Promise<string[]> => {
+    const format = getPlaylistFormat(url) || fallbackFormat;
+    if (!format) return [url];
+    if (depth >= MAX_NESTING) return [];
+
+    const text = await fetchPlaylistText(url);
+    const entries = parsePlaylist(text, format)
+        .map(entry => toPlayableUrl(entry, url))
+        .filter((entry): entry is string => !!entry);
+
+    // Playlists occasionally point at further playlists; flatten them in order
+    const nested = await Promise.all(entries.map(entry =>
+        isPlaylistUrl(entry) ? resolveEntries(entry, depth + 1).catch(() => []) : Promise.resolve([entry])
+    ));
+
+    return Array.from(new Set(nested.flat()));
+};
+
+/**
+ * Resolve a station URL to an ordered list of candidate stream URLs.
+ * Non-playlist URLs are returned as-is; the first entry is the primary, the rest are fallbacks.
+ * Falls back to the original URL if the playlist can't be fetched or has no playable entries.
+ * `fallbackFormat` treats a URL without a playlist extension as one (e.g. the probe saw a playlist body).
+ */
+export const resolveStreamCandidates = async (url: string, fallbackFormat?: PlaylistFormat): Promise<string[]> => {
+    if (!isPlaylistUrl(url) && !fallbackFormat) return [url];
+
+    const cached = resolvedCache.get(url);
+    if (cached) return cached;
+
+    try {
+        const entries = await resolveEntries(url.trim(), 0, fallbackFormat);
+        if (entries.length === 0) {
+            console.warn('[PlaylistResolver] No playable entries in playlist:', url);
+            return [url];
+        }
+        console.log(`[PlaylistResolver] Resolved ${url} -> ${entries.length} entries`, entries);
+        resolvedCache.set(url, entries);
+        return entries;
+    } catch (error) {
+        console.warn('[PlaylistResolver] Failed to resolve playlist:', url, error);
+        return [url];
+    }
+};
@@ -0,0 +1,59 @@
+/**
+ * Error codes returned as JSON by /api/proxy, /api/metadata and /api/probe (see api/_lib/urlGuard.js).
+ * The <audio> element can't read response bodies, so after a failed proxied
+ * connection we re-request the URL once to find out why.
+ */
+
+export type ProxyErrorCode =
+    | 'MISSING_URL'
+    | 'INVALID_URL'
+    | 'UNSUPPORTED_PROTOCOL'
+    | 'BLOCKED_HOST'
+    | 'DNS_FAILED'
+    | 'TOO_MANY_REDIRECTS'
+    | 'TOO_MANY_STREAMS'
+    | 'UPSTREAM_ERROR'
+    | 'UPSTREAM_TIMEOUT';
+
+export interface ProxyErrorInfo {
+    code: ProxyErrorCode;
+    error: string;
+}
+
+const PROXY_ERROR_MESSAGES: Record<ProxyErrorCode, string> = {
+    MISSING_URL: 'No stream address was provided.',
+    INVALID_URL: "This station's stream address is invalid.",
+    UNSUPPORTED_PROTOCOL: 'This station uses a streaming protocol browsers cannot play.',
+    BLOCKED_HOST: 'This station points to a private network address and was blocked.',
+    DNS_FAILED: "This station's server could not be found.",
+    TOO_MANY_REDIRECTS: 'This station redirects too many times.',
+    TOO_MANY_STREAMS: 'Too many streams are open at once. Close another tab and try again.',
+    UPSTREAM_ERROR: 'The station server refused the connection. It might be offline.',
+    UPSTREAM_TIMEOUT: 'The station server took too long to respond.',
+};
+
+export const describeProxyError = (info: ProxyErrorInfo): string =>
+    PROXY_ERROR_MESSAGES[info.code] || info.error;
+
+/**
+ * Returns the proxy's JSON error for a failed proxied URL, or null if the URL
+ * isn't proxied or the proxy actually succeeded (body is aborted immediately).
+ */
+export const fetchProxyError = async (url: string): Promise<ProxyErrorInfo | null> => {
+    if (!url || !new URL(url, window.location.href).pathname.startsWith('/api/')) return null;
+
+    const controller = new AbortController();
+    try {
+        const response = await fetch(url, { signal: controller.signal });
+        if (response.ok) return null;
+        if (!response.headers.get('content-type')?.includes('application/json')) return null;
+
+        const body = await response.json();
+        return body?.code ? { code: body.code, error: body.error } : null;
+    } catch {
+        return null;
+    } finally {
+        // Never keep a live audio stream open just to read its status
+        controller.abort();
+    }
+};
@@ -0,0 +1,145 @@
+/**
+ * Persistent stale-while-revalidate cache for API lookups.
+ * Entries live in IndexedDB (with an in-memory mirror for the current session):
+ * fresh entries are returned as-is, stale ones are returned immediately while a
+ * background refresh replaces them for the next caller.
+ */
+
+interface CacheEntry<T = unknown> {
+    key: string;
+    data: T;
+    storedAt: number;
+    ttlMs: number;
+}
+
+const DB_NAME = 'radio-query-cache';
+const STORE_NAME = 'queries';
+// Stale data older than this is not worth showing, even while refreshing; it's deleted on open
+const MAX_STALE_MS = 7 * 24 * 60 * 60 * 1000;
+// Every search page is its own entry, so the session mirror keeps only the most recently used
+const MAX_MEMORY_ENTRIES = 200;
+
+// Insertion order is recency order: reads move an entry to the end
+const memoryCache = new Map<string, CacheEntry>();
+const inflight = new Map<string, Promise<unknown>>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const rememberEntry = (entry: CacheEntry) => {
+    memoryCache.delete(entry.key);
+    memoryCache.set(entry.key, entry);
+    while (memoryCache.size > MAX_MEMORY_ENTRIES) {
+        memoryCache.delete(memoryCache.keys().next().value!);
+    }
+};
+
+// Delete entries too old to ever be served again
+const pruneExpired = (db: IDBDatabase) => {
+    try {
+        const range = IDBKeyRange.upperBound(Date.now() - MAX_STALE_MS);
+        const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+        const request = store.index('storedAt').openKeyCursor(range);
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            store.delete(cursor.primaryKey);
+            cursor.continue();
+        };
+    } catch (error) {
+        console.warn('[Query Cache] Failed to prune expired entries:', error);
+    }
+};
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        try {
+            const request = indexedDB.open(DB_NAME, 2);
+            request.onupgradeneeded = (event) => {
+                const store = event.oldVersion < 1
+                    ? request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+                    : request.transaction!.objectStore(STORE_NAME);
+                // v2: indexed by age so expired entries can be pruned
+                if (!store.indexNames.contains('storedAt')) store.createIndex('storedAt', 'storedAt');
+            };
+            request.onsuccess = () => {
+                pruneExpired(request.result);
+                resolve(request.result);
+            };
+            request.onerror = () => {
+                console.warn('[Query Cache] IndexedDB unavailable, using memory only:', request.error);
+                resolve(null);
+            };
+        } catch (error) {
+            console.warn('[Query Cache] IndexedDB unavailable, using memory only:', error);
+            resolve(null);
+        }
+    });
+    return dbPromise;
+};
+
+const readEntry = async (key: string): Promise<CacheEntry | null> => {
+    const cached = memoryCache.get(key);
+    if (cached) {
+        rememberEntry(cached);
+        return cached;
+    }
+
+    const db = await openDb();
+    if (!db) return null;
+    return new Promise(resolve => {
+        const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+        request.onsuccess = () => {
+            const entry = request.result as CacheEntry | undefined;
+            if (entry) rememberEntry(entry);
+            resolve(entry || null);
+        };
+        request.onerror = () => resolve(null);
+    });
+};
+
+const writeEntry = async (entry: CacheEntry) => {
+    rememberEntry(entry);
+    const db = await openDb();
+    if (!db) return;
+    try {
+        db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry);
+    } catch (error) {
+        console.warn('[Query Cache] Failed to persist entry:', entry.key, error);
+    }
+};
+
+const refresh = <T>(key: string, ttlMs: number, fetcher: () => Promise<T>): Promise<T> => {
+    const pending = inflight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = fetcher()
+        .then(data => {
+            writeEntry({ key, data, storedAt: Date.now(), ttlMs });
+            return data;
+        })
+        .finally(() => inflight.delete(key));
+    inflight.set(key, promise);
+    return promise;
+};
+
+/**
+ * Return cached data for `key` if present, fetching (and caching) otherwise.
+ * Stale entries resolve immediately and trigger a background refresh.
+ */
+export const cachedQuery = async <T>(key: string, ttlMs: number, fetcher: () => Promise<T>): Promise<T> => {
+    const entry = await readEntry(key);
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+    if (entry && age < entry.ttlMs) return entry.data as T;
+
+    if (entry && age < MAX_STALE_MS) {
+        refresh(key, ttlMs, fetcher).catch(error => {
+            console.warn('[Query Cache] Background refresh failed, keeping stale data:', key, error);
+        });
+        return entry.data as T;
+    }
+
+    return refresh(key, ttlMs, fetcher);
+};
+
@@ -1,3 +1,10 @@
+import { rankMirrors, recordMirrorFailure, recordMirrorSuccess } from './mirrorHealth';
+import { cachedQuery } from './queryCache';
+import { applyContentFilter, contentFilterReady, isCountryHidden } from './contentFilter';
+import { applyGenreExclusions, genreTaxonomyReady, getGenreSearchTags } from './genreTaxonomy';
+import { rankStations, type RankingOptions } from './ranking';
+import { dedupeStations } from './stationDedupe';
+import { applyStreamOverrides } from './streamOverrides';
 
 export interface RadioStation {
   stationuuid: string;
@@ -11,8 +18,15 @@ export interface RadioStation {
   geo_long?: number;
   votes?: number;
   clickcount?: number;
+  state?: string;
+  language?: string;
+  codec?: string;
+  bitrate?: number;
+  lastcheckok?: number;
   isOffline?: boolean;
   isManual?: boolean;
+  // Other stream URLs for the same station, collected when duplicates are merged
+  alternate_urls?: string[];
 }
 
 // Hardcoded fallbacks in case discovery fails
@@ -24,19 +38,34 @@ const FALLBACK_MIRRORS = [
 
 let cachedMirrors: string[] | null = null;
 
+const DISCOVERY_TIMEOUT_MS = 4000;
+const REQUEST_TIMEOUT_MS = 6000;
+
+// fetch() and `read` the response, aborting after `timeoutMs` instead of waiting on a dead mirror.
+// The body is read inside the timeout too: a mirror can stall after sending its headers
+async function fetchWithTimeout<T>(url: string, timeoutMs: number, read: (response: Response) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await read(await fetch(url, { signal: controller.signal }));
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
 // Dynamic Server Discovery
 async function getApiMirrors(): Promise<string[]> {
   if (cachedMirrors && cachedMirrors.length > 0) return cachedMirrors;
 
   try {
     // Attempt to discover active servers
-    const response = await fetch('https://all.api.radio-browser.info/json/servers');
-    if (response.ok) {
-      const data = await response.json();
+    const data = await fetchWithTimeout('https://all.api.radio-browser.info/json/servers', DISCOVERY_TIMEOUT_MS,
+      response => (response.ok ? response.json() : Promise.resolve(null)));
+    if (data) {
       // data is [{ name: "at1...", ip: "..." }, ...]
-      const discovered = data.map((server: any) => `https://${server.name}/json`);
-      // Shuffle them to distribute load
-      cachedMirrors = [...discovered.sort(() => Math.random() - 0.5), ...FALLBACK_MIRRORS];
+      const discovered: string[] = data.map((server: any) => `https://${server.name}/json`);
+      // Ordering happens per request in rankMirrors, based on measured health
+      cachedMirrors = [...new Set([...discovered, ...FALLBACK_MIRRORS])];
       console.log('[Radio API] Discovered servers:', cachedMirrors);
       return cachedMirrors;
     }
@@ -48,17 +77,37 @@ async function getApiMirrors(): Promise<string[]> {
   return cachedMirrors;
 }
 
-async function fetchWithFailover(endpoint: string): Promise<any> {
-  const mirrors = await getApiMirrors();
+class RadioBrowserRequestError extends Error {
+  constructor(readonly status: number, endpoint: string) {
+    super(`Radio Browser rejected ${endpoint} (HTTP ${status})`);
+    this.name = 'RadioBrowserRequestError';
+  }
+}
+
+export async function fetchFromMirrors(endpoint: string): Promise<any> {
+  const mirrors = rankMirrors(await getApiMirrors());
 
   for (const mirror of mirrors) {
+    const startedAt = performance.now();
     try {
-      const url = `${mirror}${endpoint}`;
-      const response = await fetch(url);
-      if (!response.ok) throw new Error(`HTTP ${response.status}`);
-      return await response.json();
+      const data = await fetchWithTimeout(`${mirror}${endpoint}`, REQUEST_TIMEOUT_MS, response => {
+        // 408/429 are this mirror being slow or rate limiting us: try the next one
+        if (response.status === 408 || response.status === 429) throw new Error(`HTTP ${response.status}`);
+        // Any other 4xx means the request itself is bad; another mirror won't answer differently.
+        // It says nothing about the mirror's health, so it isn't scored either way
+        if (response.status >= 400 && response.status < 500) {
+          throw new RadioBrowserRequestError(response.status, endpoint);
+        }
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.json();
+      });
+      recordMirrorSuccess(mirror, performance.now() - startedAt);
+      return data;
     } catch (error) {
-      // console.warn(`Failed to fetch from ${mirror}:`, error);
+      if (error instanceof RadioBrowserRequestError) throw error;
+      const reason = error instanceof DOMException && error.name === 'AbortError' ? `timed out after ${REQUEST_TIMEOUT_MS}ms` : error;
+      console.warn(`[Radio API] ${mirror} failed for ${endpoint}:`, reason);
+      recordMirrorFailure(mirror);
       // Continue to next mirror
     }
   }
@@ -66,47 +115,35 @@ async function fetchWithFailover(endpoint: string): Promise<any> {
   throw new Error('All API mirrors failed');
 }
 
-// Countries to exclude
-const EXCLUDED_COUNTRIES = ['RU', 'IL'];
+// --- QUERY CACHE ---
 
-// Tags that indicate community/indie/niche stations (Prioritized)
-const PREFERRED_TAGS = [
-  'community', 'indie', 'college', 'university', 'student',
-  'local', 'independent', 'underground', 'alternative',
-  'public radio', 'non-commercial', 'diy', 'avant-garde',
-  'experimental', 'eclectic'
-];
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
 
-// Tags to deprioritize (Mainstream/Commercial)
-const DEPRIORITIZED_TAGS = [
-  'top 40', 'hits', 'mainstream', 'pop hits', 'chart',
-  'billboard', 'commercial', 'best of', '100'
-];
+// How long a response counts as fresh; stale responses are still served while refreshing
+const getCacheTtl = (endpoint: string): number => {
+  if (endpoint.startsWith('/countries')) return 24 * HOUR;
+  if (endpoint.startsWith('/stations/bytag/') || endpoint.includes('tag=')) return HOUR;
+  if (endpoint.startsWith('/stations/bycountrycodeexact/') || endpoint.includes('state=')) return 6 * HOUR;
+  return 15 * MINUTE;
+};
 
-// Tags to EXCLUDE completely
-const EXCLUDED_TAGS = ['metal', 'heavy metal', 'death metal', 'black metal', 'thrash', 'hardcore', 'grindcore', 'power metal', 'news', 'talk', 'sports', 'religious'];
+// Only the fields the app reads; raw radio-browser station objects carry ~30 more
+const STATION_CACHE_FIELDS = [
+  'stationuuid', 'name', 'url', 'url_resolved', 'homepage', 'favicon', 'tags', 'country', 'countrycode',
+  'state', 'language', 'codec', 'bitrate', 'hls', 'lastcheckok', 'votes', 'clickcount', 'geo_lat', 'geo_long'
+];
 
-// Hardcoded stream URL overrides for known broken stations
-const STREAM_URL_OVERRIDES: Record<string, string> = {
-  'somafm-indiepop': 'https://ice2.somafm.com/indiepop-256-mp3',
+const normalizeResponse = (data: unknown): unknown => {
+  if (!Array.isArray(data) || !data.every(item => item && typeof item.stationuuid === 'string')) return data;
+  return data.map((station: Record<string, unknown>) => Object.fromEntries(
+    STATION_CACHE_FIELDS.filter(field => station[field] !== undefined && station[field] !== null).map(field => [field, station[field]])
+  ));
 };
 
-// Expanded genre tag map with multiple variations for better matching
-export const genreTagMap: Record<string, string[]> = {
-  rock: ['rock', 'classic rock', 'rock and roll'],
-  jazz: ['jazz', 'smooth jazz', 'bebop', 'swing'],
-  electronic: ['electronic', 'techno', 'house', 'edm', 'dance', 'trance', 'ambient'],
-  'hip-hop': ['hip hop', 'hip-hop', 'rap', 'hiphop'],
-  folk: ['folk', 'americana', 'acoustic', 'singer-songwriter', 'singer songwriter'],
-  punk: ['punk', 'post-punk', 'alternative rock', 'screamo', 'math rock', 'midwest emo', 'emo', 'hardcore', 'shoegaze', 'noise rock', 'no wave', 'riot grrrl', 'garage rock', 'post-hardcore', 'grunge', 'anarcho-punk'],
-  classical: ['classical', 'orchestra', 'symphony', 'baroque', 'opera'],
-  blues: ['blues', 'delta blues', 'chicago blues', 'rhythm and blues'],
-  indie: ['indie', 'indie rock', 'indie pop', 'alternative', 'alt rock'],
-  soul: ['soul', 'r&b', 'rnb', 'rhythm and blues', 'motown', 'funk'],
-  metal: ['metal', 'heavy metal', 'hard rock'],
-  reggae: ['reggae', 'ska', 'dub', 'dancehall'],
-  country: ['country', 'bluegrass', 'western'],
-};
+async function fetchCached<T = RadioStation[]>(endpoint: string): Promise<T> {
+  return cachedQuery<T>(`radio-browser:${endpoint}`, getCacheTtl(endpoint), async () => normalizeResponse(await fetchFromMirrors(endpoint)) as T);
+}
 
 // Mapped regions
 export const regionToCountries: Record<string, string[]> = {
@@ -138,179 +175,57 @@ export const regionToCountries: Record<string, string[]> = {
 
 // --- HELPER FUNCTIONS (Must be defined before use) ---
 
-// Normalize a tag for comparison
-const normalizeTag = (tag: string): string => {
-  return (tag || '').toLowerCase().trim().replace(/[&]/g, 'and').replace(/[-_]/g, ' ');
-};
-
-// Fix station URL if it's a known broken station
-const fixStationUrl = (station: RadioStation): RadioStation => {
-  const nameLower = station.name.toLowerCase();
-
-  // SomaFM Indie Pop Rocks fix
-  if ((nameLower.includes('soma') || nameLower.includes('somafm')) &&
-    nameLower.includes('indie') &&
-    (nameLower.includes('pop') || nameLower.includes('indiepop'))) {
-    return {
-      ...station,
-      url_resolved: 'https://ice2.somafm.com/indiepop-256-mp3'
-    };
-  }
-
-  return station;
-};
-
-// Filter out excluded countries
-const filterExcludedCountries = (stations: RadioStation[]): RadioStation[] => {
-  return stations.filter(station => !EXCLUDED_COUNTRIES.includes(station.countrycode));
-};
-
-// Fisher-Yates shuffle algorithm
-const shuffleArray = <T>(array: T[]): T[] => {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-};
-
-// Count how many preference tags match a station
-const countMatchingTags = (station: RadioStation, preferredTags: string[]): number => {
-  const stationTags = normalizeTag(station.tags);
-  return preferredTags.filter(tag => stationTags.includes(normalizeTag(tag))).length;
-};
-
-// --- SCORING & ALGORITHM ---
-
-// Score stations based on "Indie" weighted ranking
-const scoreStationForPreferences = (station: RadioStation, requestedGenres: string[]): number => {
-  const tags = normalizeTag(station.tags);
-  const name = station.name.toLowerCase();
-  let score = 0;
-
-  // 1. GENRE INTEGRITY (Baseline)
-  const genreMatchCount = countMatchingTags(station, requestedGenres);
-  score += genreMatchCount * 50;
-
-  // 2. INDIE PROMOTION (Heavy Weight)
-  let indieBonus = 0;
-  PREFERRED_TAGS.forEach(tag => {
-    if (tags.includes(tag) || name.includes(tag)) {
-      indieBonus += 25;
-    }
-  });
-  score += Math.min(indieBonus, 100);
-
-  // 3. MAINSTREAM PENALTY (Heavy Penalty)
-  DEPRIORITIZED_TAGS.forEach(tag => {
-    if (tags.includes(tag) || name.includes(tag)) {
-      score -= 50;
-    }
-  });
-
-  // 4. QUALITY SIGNALS (Subtle)
-  const votes = station.votes || 0;
-  if (votes > 50 && votes < 5000) score += 10;
-  if (votes > 50000) score -= 5;
-
-  // 5. RANDOM NOISE (Freshness)
-  score += Math.random() * 5;
-
-  return score;
-};
-
-// INDIE SHUFFLE ALGORITHM
-const curateStationsIndieShuffle = (
-  stations: RadioStation[],
-  requestedGenres: string[]
-): RadioStation[] => {
-
-  // Step 1: Score all stations
-  const scored = stations.map(station => ({
-    station,
-    score: scoreStationForPreferences(station, requestedGenres)
-  }));
-
-  // Step 2: Sort by Score Descending
-  scored.sort((a, b) => b.score - a.score);
-
-  // Step 3: The "Top-Tier Shuffle"
-  const totalCount = scored.length;
-  if (totalCount === 0) return [];
-
-  const topTierCount = Math.max(10, Math.floor(totalCount * 0.3));
-  const topTier = scored.slice(0, topTierCount);
-  const bottomTier = scored.slice(topTierCount);
-
-  // Shuffle the Top Tier
-  const shuffledTopTier = shuffleArray(topTier).map(s => s.station);
-
-  // Keep Bottom Tier roughly sorted
-  const sortedBottomTier = bottomTier.map(s => s.station);
-
-  return [...shuffledTopTier, ...sortedBottomTier];
+// Drop whatever the content filter policy hides (see contentFilter.ts); allowedTags were asked for outright
+const filterByPolicy = async (stations: RadioStation[], allowedTags: string[] = []): Promise<RadioStation[]> => {
+  await contentFilterReady();
+  return applyContentFilter(stations, allowedTags);
 };
 
 // --- EXPORTED API FUNCTIONS ---
 
 export const searchStationsByGenre = async (genre: string): Promise<RadioStation[]> => {
-  const tags = genreTagMap[genre] || [genre];
+  await genreTaxonomyReady();
+  // The listener picked this genre, so its own tags aren't hidden by tag rules
+  const tags = getGenreSearchTags(genre);
 
   try {
     const promises = tags.map(tag =>
-      fetchWithFailover(`/stations/bytag/${encodeURIComponent(tag.trim())}?limit=200&order=votes&reverse=true`)
+      fetchCached(`/stations/bytag/${encodeURIComponent(tag.trim())}?limit=200&order=votes&reverse=true`)
         .catch(() => [])
     );
 
     const results = await Promise.all(promises);
     let stations: RadioStation[] = results.flat();
 
-    stations = filterExcludedCountries(stations);
+    stations = await filterByPolicy(stations, tags);
 
-    const unique = stations.filter((station, index, self) =>
-      index === self.findIndex(s => s.stationuuid === station.stationuuid)
-    );
+    const unique = dedupeStations(stations);
 
-    // --- SOUL LOGIC GATE ---
-    // If browsing "RnB/Soul", strictly exclude stations that are also "Jazz".
-    // Jazz takes priority for any station having both.
-    let finalStations = unique;
-    if (genre === 'soul') {
-      finalStations = unique.filter(s => !normalizeTag(s.tags).includes('jazz'));
-      console.log(`[Genre Filter] Applied Soul Logic Gate: ${unique.length} -> ${finalStations.length} (Filtered out Jazz overlaps)`);
-    }
+    // Taxonomy exclusion rules, e.g. soul drops anything also tagged jazz
+    const finalStations = applyGenreExclusions(unique, genre);
 
-    return finalStations.slice(0, 200).map(fixStationUrl);
+    return applyStreamOverrides(finalStations.slice(0, 200));
   } catch (error) {
     console.error('Error fetching stations:', error);
     return [];
   }
 };
 
-export const searchStationsByGenres = async (genres: string[]): Promise<RadioStation[]> => {
+export const searchStationsByGenres = async (genres: string[], ranking: RankingOptions = {}): Promise<RadioStation[]> => {
   try {
-    const allPreferredTags: string[] = [];
-    genres.forEach(genre => {
-      const tags = genreTagMap[genre] || [genre];
-      allPreferredTags.push(...tags);
-    });
-
     const allStations = await Promise.all(genres.map(genre => searchStationsByGenre(genre)));
     let combined = allStations.flat();
 
-    combined = filterExcludedCountries(combined);
+    combined = await filterByPolicy(combined, genres.flatMap(getGenreSearchTags));
 
-    const unique = combined.filter((station, index, self) =>
-      index === self.findIndex(s => s.stationuuid === station.stationuuid)
-    );
+    const unique = dedupeStations(combined);
 
-    // Apply INDIE SHUFFLE ALGORITHM
-    const curated = curateStationsIndieShuffle(unique, genres);
+    // Rank with the listener's chosen strategy (indie shuffle unless told otherwise)
+    const curated = rankStations(unique, genres, ranking);
 
-    console.log(`Genre filtering: ${genres.join(', ')} -> Found ${unique.length} stations, ${curated.length} after indie shuffle`);
+    console.log(`Genre filtering: ${genres.join(', ')} -> Found ${unique.length} stations, ranked by ${ranking.strategy || 'indie-shuffle'}`);
 
-    return curated.slice(0, 300).map(fixStationUrl);
+    return applyStreamOverrides(curated.slice(0, 300));
   } catch (error) {
     console.error('Error fetching stations:', error);
     return [];
@@ -325,13 +240,13 @@ export const getStationsByBounds = async (
   limit = 100
 ): Promise<RadioStation[]> => {
   try {
-    let stations: RadioStation[] = await fetchWithFailover(
+    let stations: RadioStation[] = await fetchCached(
       `/stations/bybounds/${lat_sw}/${lon_sw}/${lat_ne}/${lon_ne}?limit=${limit}&order=votes&reverse=true`
     );
-    stations = filterExcludedCountries(stations);
+    stations = await filterByPolicy(stations);
     // Apply Indie Shuffle with default 'all' weighting
-    const curated = curateStationsIndieShuffle(stations, ['all']);
-    return curated.map(fixStationUrl);
+    const curated = rankStations(dedupeStations(stations), ['all']);
+    return applyStreamOverrides(curated);
   } catch (error) {
     console.error('Error fetching stations by bounds:', error);
     return [];
@@ -340,13 +255,13 @@ export const getStationsByBounds = async (
 
 export const getStationsByState = async (state: string, countryCode = 'US', limit = 100): Promise<RadioStation[]> => {
   try {
-    let stations: RadioStation[] = await fetchWithFailover(
+    let stations: RadioStation[] = await fetchCached(
       `/stations/search?state=${encodeURIComponent(state)}&countrycode=${countryCode}&limit=${limit}&order=votes&reverse=true`
     );
-    stations = filterExcludedCountries(stations);
+    stations = await filterByPolicy(stations);
     // Apply Indie Shuffle
-    const curated = curateStationsIndieShuffle(stations, ['all']);
-    return curated.map(fixStationUrl);
+    const curated = rankStations(dedupeStations(stations), ['all']);
+    return applyStreamOverrides(curated);
   } catch (error) {
     console.error('Error fetching stations by state:', error);
     return [];
@@ -355,10 +270,10 @@ export const getStationsByState = async (state: string, countryCode = 'US', limi
 
 export const searchStationsByName = async (query: string): Promise<RadioStation[]> => {
   try {
-    let stations: RadioStation[] = await fetchWithFailover(`/stations/search?name=${encodeURIComponent(query)}&limit=100&order=votes&reverse=true`);
-    stations = filterExcludedCountries(stations);
-    const curated = curateStationsIndieShuffle(stations, ['all']);
-    return curated.map(fixStationUrl);
+    let stations: RadioStation[] = await fetchCached(`/stations/search?name=${encodeURIComponent(query)}&limit=100&order=votes&reverse=true`);
+    stations = await filterByPolicy(stations);
+    const curated = rankStations(dedupeStations(stations), ['all']);
+    return applyStreamOverrides(curated);
   } catch (error) {
     console.error('Error searching stations:', error);
     return [];
@@ -367,11 +282,11 @@ export const searchStationsByName = async (query: string): Promise<RadioStation[
 
 export const getStationsByCountry = async (countryCode: string): Promise<RadioStation[]> => {
   try {
-    let stations: RadioStation[] = await fetchWithFailover(`/stations/bycountrycodeexact/${encodeURIComponent(countryCode)}?limit=100&order=votes&reverse=true`);
-    stations = filterExcludedCountries(stations);
+    let stations: RadioStation[] = await fetchCached(`/stations/bycountrycodeexact/${encodeURIComponent(countryCode)}?limit=100&order=votes&reverse=true`);
+    stations = await filterByPolicy(stations);
     // Apply Indie Shuffle
-    const curated = curateStationsIndieShuffle(stations, ['all']);
-    return curated.map(fixStationUrl);
+    const curated = rankStations(dedupeStations(stations), ['all']);
+    return applyStreamOverrides(curated);
   } catch (error) {
     console.error('Error fetching stations by country:', error);
     return [];
@@ -381,13 +296,13 @@ export const getStationsByCountry = async (countryCode: string): Promise<RadioSt
 export const searchStationsByLocation = async (query: string): Promise<RadioStation[]> => {
   try {
     // Search by country or state
-    let stations: RadioStation[] = await fetchWithFailover(`/stations/search?country=${encodeURIComponent(query)}&limit=100&order=votes&reverse=true`);
+    let stations: RadioStation[] = await fetchCached(`/stations/search?country=${encodeURIComponent(query)}&limit=100&order=votes&reverse=true`);
     if (stations.length === 0) {
-      stations = await fetchWithFailover(`/stations/search?state=${encodeURIComponent(query)}&limit=100&order=votes&reverse=true`);
+      stations = await fetchCached(`/stations/search?state=${encodeURIComponent(query)}&limit=100&order=votes&reverse=true`);
     }
-    stations = filterExcludedCountries(stations);
-    const curated = curateStationsIndieShuffle(stations, ['all']);
-    return curated.map(fixStationUrl);
+    stations = await filterByPolicy(stations);
+    const curated = rankStations(dedupeStations(stations), ['all']);
+    return applyStreamOverrides(curated);
   } catch (error) {
     console.error('Error searching stations by location:', error);
     return [];
@@ -396,16 +311,93 @@ export const searchStationsByLocation = async (query: string): Promise<RadioStat
 
 export const searchStationsByTag = async (query: string): Promise<RadioStation[]> => {
   try {
-    let stations: RadioStation[] = await fetchWithFailover(`/stations/search?tag=${encodeURIComponent(query)}&limit=100&order=votes&reverse=true`);
-    stations = filterExcludedCountries(stations);
-    const curated = curateStationsIndieShuffle(stations, ['all']);
-    return curated.map(fixStationUrl);
+    let stations: RadioStation[] = await fetchCached(`/stations/search?tag=${encodeURIComponent(query)}&limit=100&order=votes&reverse=true`);
+    stations = await filterByPolicy(stations);
+    const curated = rankStations(dedupeStations(stations), ['all']);
+    return applyStreamOverrides(curated);
   } catch (error) {
     console.error('Error searching stations by tag:', error);
     return [];
   }
 };
 
+// --- ADVANCED SEARCH ---
+
+export type AdvancedSearchSort = 'votes' | 'clickcount' | 'bitrate' | 'random';
+
+export interface AdvancedSearchFilters {
+  name?: string;
+  // All tags must match (radio-browser tagList)
+  tags?: string[];
+  countrycode?: string;
+  state?: string;
+  language?: string;
+  codec?: string;
+  bitrateMin?: number;
+  bitrateMax?: number;
+  hasGeoInfo?: boolean;
+  // Only stations that passed radio-browser's last availability check
+  lastCheckOk?: boolean;
+  sort?: AdvancedSearchSort;
+}
+
+export interface AdvancedSearchParams extends AdvancedSearchFilters {
+  offset?: number;
+  limit?: number;
+}
+
+export interface AdvancedSearchResult {
+  stations: RadioStation[];
+  offset: number;
+  limit: number;
+  // The server returned a full page, so there may be more
+  hasMore: boolean;
+}
+
+const buildAdvancedSearchQuery = (params: AdvancedSearchParams, offset: number, limit: number): string => {
+  const query = new URLSearchParams();
+  if (params.name?.trim()) query.set('name', params.name.trim());
+  const tags = (params.tags || []).map(tag => tag.trim()).filter(Boolean);
+  if (tags.length > 0) query.set('tagList', tags.join(','));
+  if (params.countrycode) query.set('countrycode', params.countrycode);
+  if (params.state?.trim()) query.set('state', params.state.trim());
+  if (params.language?.trim()) query.set('language', params.language.trim().toLowerCase());
+  if (params.codec) query.set('codec', params.codec);
+  if (params.bitrateMin) query.set('bitrateMin', String(params.bitrateMin));
+  if (params.bitrateMax) query.set('bitrateMax', String(params.bitrateMax));
+  if (params.hasGeoInfo !== undefined) query.set('has_geo_info', String(params.hasGeoInfo));
+  if (params.lastCheckOk) query.set('hidebroken', 'true');
+
+  const sort = params.sort || 'votes';
+  query.set('order', sort);
+  if (sort !== 'random') query.set('reverse', 'true');
+  query.set('offset', String(offset));
+  query.set('limit', String(limit));
+  return `/stations/search?${query.toString()}`;
+};
+
+/**
+ * Multi-field search against /stations/search with server-side pagination.
+ * Results keep the server's sort order (no indie shuffle), so paging is stable.
+ */
+export const advancedSearch = async (params: AdvancedSearchParams): Promise<AdvancedSearchResult> => {
+  const offset = params.offset || 0;
+  const limit = params.limit || 50;
+  const endpoint = buildAdvancedSearchQuery(params, offset, limit);
+
+  try {
+    // Random order must not be served from the cache, or "shuffle" would repeat itself
+    const raw: RadioStation[] = params.sort === 'random'
+      ? await fetchFromMirrors(endpoint)
+      : await fetchCached(endpoint);
+    const stations = await applyStreamOverrides(dedupeStations(await filterByPolicy(raw)));
+    return { stations, offset, limit, hasMore: raw.length === limit };
+  } catch (error) {
+    console.error('Error running advanced search:', error);
+    return { stations: [], offset, limit, hasMore: false };
+  }
+};
+
 export interface CountryInfo {
   name: string;
   countrycode: string;
@@ -414,9 +406,10 @@ export interface CountryInfo {
 
 export const getAllCountries = async (): Promise<CountryInfo[]> => {
   try {
-    const countries: CountryInfo[] = await fetchWithFailover('/countries');
+    const countries: CountryInfo[] = await fetchCached<CountryInfo[]>('/countries');
+    await contentFilterReady();
     return countries
-      .filter(c => c.countrycode && c.countrycode.length === 2 && !EXCLUDED_COUNTRIES.includes(c.countrycode))
+      .filter(c => c.countrycode && c.countrycode.length === 2 && !isCountryHidden(c.countrycode))
       .sort((a, b) => a.name.localeCompare(b.name));
   } catch (error) {
     console.error('Error fetching countries:', error);
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RadioStation } from './radioBrowserApi';
+import {
+  createSeededRandom,
+  getRankingStrategy,
+  RANKING_STRATEGIES,
+  rankStations,
+  type RankingContext,
+  type RankingStrategyId
+} from './ranking';
+
+// The taxonomy's built-in copy is enough; nothing here should reach Supabase
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+const station = (id: string, fields: Partial<RadioStation> = {}) =>
+  ({ stationuuid: id, name: `Station ${id}`, tags: '', votes: 0, clickcount: 0, ...fields }) as RadioStation;
+
+const ids = (stations: RadioStation[]) => stations.map(s => s.stationuuid);
+
+const context = (seed: number, fields: Partial<RankingContext> = {}): RankingContext => ({
+  genres: [],
+  random: createSeededRandom(seed),
+  ...fields
+});
+
+const LONDON = { lat: 51.51, lng: -0.13 };
+
+// A bit of everything, so every strategy has something to sort
+const mixedStations = (): RadioStation[] => Array.from({ length: 30 }, (_, i) => station(`s${i}`, {
+  tags: ['community,rock', 'jazz', 'top 40,hits'][i % 3],
+  votes: (i * 37) % 900,
+  clickcount: (i * 53) % 400,
+  geo_lat: i % 4 === 0 ? undefined : 40 + i / 2,
+  geo_long: i % 4 === 0 ? undefined : -10 + i,
+  lastcheckok: i % 7 === 0 ? 0 : 1
+}));
+
+describe('createSeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const first = Array.from({ length: 20 }, a);
+    expect(Array.from({ length: 20 }, b)).toEqual(first);
+    expect(first.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+
+  it('gives a different sequence for another seed', () => {
+    const a = Array.from({ length: 5 }, createSeededRandom(1));
+    const b = Array.from({ length: 5 }, createSeededRandom(2));
+    expect(a).not.toEqual(b);
+  });
+});
+
+describe('ranking strategies', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => { });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe.each(RANKING_STRATEGIES.map(strategy => strategy.id))('%s', (id: RankingStrategyId) => {
+    const rank = (seed: number, stations = mixedStations()) =>
+      rankStations(stations, ['rock'], { strategy: id, seed, origin: LONDON });
+
+    it('gives the same order for the same seed', () => {
+      expect(ids(rank(7))).toEqual(ids(rank(7)));
+      expect(ids(rank(123456))).toEqual(ids(rank(123456)));
+    });
+
+    it('keeps every station exactly once', () => {
+      const stations = mixedStations();
+      expect([...ids(rank(7, stations))].sort()).toEqual([...ids(stations)].sort());
+    });
+
+    it('copes with an empty list', () => {
+      expect(rank(7, [])).toEqual([]);
+    });
+  });
+
+  describe('indie-shuffle', () => {
+    const strategy = getRankingStrategy('indie-shuffle');
+
+    it('puts matching indie stations in the top tier and mainstream ones last', () => {
+      const ranked = strategy.rank(mixedStations(), context(3, { genres: ['rock'] }));
+      const tags = ranked.map(s => s.tags);
+      expect(tags.slice(0, 10).every(t => t === 'community,rock')).toBe(true);
+      expect(tags.slice(-10).every(t => t === 'top 40,hits')).toBe(true);
+    });
+
+    it('reshuffles the top tier for another seed', () => {
+      const stations = mixedStations();
+      const a = ids(strategy.rank(stations, context(1, { genres: ['rock'] }))).slice(0, 10);
+      const b = ids(strategy.rank(stations, context(2, { genres: ['rock'] }))).slice(0, 10);
+      expect(a).not.toEqual(b);
+      expect([...a].sort()).toEqual([...b].sort());
+    });
+  });
+
+  describe('most-popular', () => {
+    const strategy = getRankingStrategy('most-popular');
+
+    it('ranks genre matches first, then by votes and clicks, whatever the seed', () => {
+      const stations = [
+        station('famous', { votes: 900, clickcount: 500 }),
+        station('rock-small', { tags: 'rock', votes: 10 }),
+        station('popular', { votes: 300, clickcount: 3000 }),
+        station('rock-big', { tags: 'classic rock', votes: 400 })
+      ];
+      const expected = ['rock-big', 'rock-small', 'famous', 'popular'];
+      expect(ids(strategy.rank(stations, context(1, { genres: ['rock'] })))).toEqual(expected);
+      expect(ids(strategy.rank(stations, context(99, { genres: ['rock'] })))).toEqual(expected);
+    });
+  });
+
+  describe('hidden-gems', () => {
+    const strategy = getRankingStrategy('hidden-gems');
+
+    it('prefers a small following over fame, and drops stations that failed their check', () => {
+      const stations = [
+        station('broken', { votes: 50, lastcheckok: 0 }),
+        station('famous', { votes: 100000 }),
+        station('gem', { votes: 50, lastcheckok: 1 })
+      ];
+      expect(ids(strategy.rank(stations, context(5)))).toEqual(['gem', 'famous', 'broken']);
+    });
+  });
+
+  describe('closest', () => {
+    const strategy = getRankingStrategy('closest');
+    const stations = [
+      station('new-york', { geo_lat: 40.71, geo_long: -74.01 }),
+      station('nowhere-1'),
+      station('paris', { geo_lat: 48.86, geo_long: 2.35 }),
+      station('nowhere-2'),
+      station('berlin', { geo_lat: 52.52, geo_long: 13.4 })
+    ];
+
+    it('orders located stations by distance, with the rest shuffled after them', () => {
+      const ranked = ids(strategy.rank(stations, context(11, { origin: LONDON })));
+      expect(ranked.slice(0, 3)).toEqual(['paris', 'berlin', 'new-york']);
+      expect([...ranked.slice(3)].sort()).toEqual(['nowhere-1', 'nowhere-2']);
+    });
+
+    it('falls back to the indie shuffle without a location', () => {
+      const fallback = strategy.rank(mixedStations(), context(11, { genres: ['rock'] }));
+      const indie = getRankingStrategy('indie-shuffle').rank(mixedStations(), context(11, { genres: ['rock'] }));
+      expect(ids(fallback)).toEqual(ids(indie));
+    });
+  });
+
+  describe('random', () => {
+    const strategy = getRankingStrategy('random');
+
+    it('shuffles differently for different seeds', () => {
+      const stations = mixedStations();
+      expect(ids(strategy.rank(stations, context(1)))).not.toEqual(ids(strategy.rank(stations, context(2))));
+    });
+  });
+
+  it('defaults to the indie shuffle', () => {
+    expect(getRankingStrategy().id).toBe('indie-shuffle');
+    expect(getRankingStrategy('nonsense' as RankingStrategyId).id).toBe('indie-shuffle');
+    const stations = mixedStations();
+    expect(ids(rankStations(stations, ['rock'], { seed: 9 })))
+      .toEqual(ids(rankStations(stations, ['rock'], { strategy: 'indie-shuffle', seed: 9 })));
+  });
+});
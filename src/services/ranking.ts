@@ -0,0 +1,228 @@
+/**
+ * Ranking strategies for station curation.
+ * Each strategy orders an already-fetched station list; all randomness comes from
+ * the seeded RNG in the context, so the same seed always gives the same ordering.
+ */
+
+import type { RadioStation } from './radioBrowserApi';
+import { cleanTag, stationMatchesGenre } from './genreTaxonomy';
+
+export type RankingStrategyId = 'indie-shuffle' | 'most-popular' | 'hidden-gems' | 'closest' | 'random';
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface RankingContext {
+  // Genres the listener asked for ('all' matches nothing in particular)
+  genres: string[];
+  // Returns [0, 1), like Math.random but deterministic for a seed
+  random: () => number;
+  origin?: GeoPoint | null;
+}
+
+export interface RankingStrategy {
+  id: RankingStrategyId;
+  label: string;
+  description: string;
+  rank: (stations: RadioStation[], context: RankingContext) => RadioStation[];
+}
+
+export interface RankingOptions {
+  strategy?: RankingStrategyId;
+  // Omit for a fresh ordering on every call
+  seed?: number;
+  origin?: GeoPoint | null;
+}
+
+// Tags that indicate community/indie/niche stations (Prioritized)
+const PREFERRED_TAGS = [
+  'community', 'indie', 'college', 'university', 'student',
+  'local', 'independent', 'underground', 'alternative',
+  'public radio', 'non-commercial', 'diy', 'avant-garde',
+  'experimental', 'eclectic'
+];
+
+// Tags to deprioritize (Mainstream/Commercial)
+const DEPRIORITIZED_TAGS = [
+  'top 40', 'hits', 'mainstream', 'pop hits', 'chart',
+  'billboard', 'commercial', 'best of', '100'
+];
+
+// --- SEEDABLE RNG ---
+
+/** mulberry32: tiny, fast and good enough for shuffling station lists */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+// Fisher-Yates shuffle algorithm
+const shuffleArray = <T>(array: T[], random: () => number): T[] => {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// --- SHARED SIGNALS ---
+
+// Count how many preference tags (genre ids or plain tags) match a station
+const countMatchingTags = (station: RadioStation, preferredTags: string[]): number => {
+  const stationTags = cleanTag(station.tags);
+  return preferredTags.filter(tag => stationMatchesGenre(station.tags, tag) || stationTags.includes(cleanTag(tag))).length;
+};
+
+const countTagHits = (station: RadioStation, tagList: string[]): number => {
+  const tags = cleanTag(station.tags);
+  const name = station.name.toLowerCase();
+  return tagList.filter(tag => tags.includes(tag) || name.includes(tag)).length;
+};
+
+// Sort by score descending; stations with equal scores keep their input order
+const sortByScore = (stations: RadioStation[], score: (station: RadioStation) => number): RadioStation[] =>
+  stations
+    .map((station, index) => ({ station, index, score: score(station) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ station }) => station);
+
+const distanceKm = (a: GeoPoint, b: GeoPoint): number => {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+};
+
+// --- STRATEGIES ---
+
+export interface IndieShuffleWeights {
+  genreMatch: number;
+  indieTag: number;
+  indieCap: number;
+  mainstreamPenalty: number;
+  // Upper bound of the random freshness bonus
+  noise: number;
+  // Share of the list (at least topTierMin stations) that gets shuffled
+  topTierShare: number;
+  topTierMin: number;
+}
+
+export const DEFAULT_INDIE_SHUFFLE_WEIGHTS: IndieShuffleWeights = {
+  genreMatch: 50,
+  indieTag: 25,
+  indieCap: 100,
+  mainstreamPenalty: 50,
+  noise: 5,
+  topTierShare: 0.3,
+  topTierMin: 10,
+};
+
+/**
+ * The original curation: score for genre integrity and indie tags, penalize
+ * mainstream, then shuffle the top tier so the best stations rotate.
+ */
+export const createIndieShuffle = (weights: IndieShuffleWeights = DEFAULT_INDIE_SHUFFLE_WEIGHTS): RankingStrategy => ({
+  id: 'indie-shuffle',
+  label: 'Indie Shuffle',
+  description: 'Community and independent stations first, reshuffled each time',
+  rank: (stations, { genres, random }) => {
+    if (stations.length === 0) return [];
+
+    const scored = sortByScore(stations, station => {
+      let score = countMatchingTags(station, genres) * weights.genreMatch;
+      score += Math.min(countTagHits(station, PREFERRED_TAGS) * weights.indieTag, weights.indieCap);
+      score -= countTagHits(station, DEPRIORITIZED_TAGS) * weights.mainstreamPenalty;
+
+      // Quality signals (subtle)
+      const votes = station.votes || 0;
+      if (votes > 50 && votes < 5000) score += 10;
+      if (votes > 50000) score -= 5;
+
+      return score + random() * weights.noise;
+    });
+
+    const topTierCount = Math.max(weights.topTierMin, Math.floor(scored.length * weights.topTierShare));
+    return [...shuffleArray(scored.slice(0, topTierCount), random), ...scored.slice(topTierCount)];
+  }
+});
+
+const indieShuffle = createIndieShuffle();
+
+const mostPopular: RankingStrategy = {
+  id: 'most-popular',
+  label: 'Most Popular',
+  description: 'The most voted and most played stations first',
+  rank: (stations, { genres }) => sortByScore(stations, station =>
+    countMatchingTags(station, genres) * 1000 + (station.votes || 0) + (station.clickcount || 0) / 10
+  )
+};
+
+const hiddenGems: RankingStrategy = {
+  id: 'hidden-gems',
+  label: 'Hidden Gems',
+  description: 'Working stations with a small but real following',
+  rank: (stations, { genres, random }) => sortByScore(stations, station => {
+    const votes = station.votes || 0;
+    let score = countMatchingTags(station, genres) * 20;
+    score += Math.min(countTagHits(station, PREFERRED_TAGS) * 15, 45);
+    score -= countTagHits(station, DEPRIORITIZED_TAGS) * 50;
+    // Sweet spot: someone has vouched for it, but it's far from famous
+    if (votes >= 3 && votes <= 500) score += 40;
+    score -= Math.log10(votes + 1) * 10;
+    if (station.lastcheckok === 0) score -= 100;
+    return score + random() * 10;
+  })
+};
+
+const pureRandom: RankingStrategy = {
+  id: 'random',
+  label: 'Pure Random',
+  description: 'No preferences at all, just a shuffle',
+  rank: (stations, { random }) => shuffleArray(stations, random)
+};
+
+const closestToMe: RankingStrategy = {
+  id: 'closest',
+  label: 'Closest To Me',
+  description: 'Nearest stations first (needs your location)',
+  rank: (stations, context) => {
+    const { origin, random } = context;
+    if (!origin) {
+      console.warn('[Ranking] No location available for "closest", falling back to indie shuffle');
+      return indieShuffle.rank(stations, context);
+    }
+
+    const hasGeo = (s: RadioStation) => typeof s.geo_lat === 'number' && typeof s.geo_long === 'number';
+    const located = stations.filter(hasGeo);
+    const unlocated = stations.filter(s => !hasGeo(s));
+    const byDistance = sortByScore(located, s => -distanceKm(origin, { lat: s.geo_lat!, lng: s.geo_long! }));
+    return [...byDistance, ...shuffleArray(unlocated, random)];
+  }
+};
+
+export const RANKING_STRATEGIES: RankingStrategy[] = [indieShuffle, mostPopular, hiddenGems, closestToMe, pureRandom];
+
+export const getRankingStrategy = (id?: RankingStrategyId): RankingStrategy =>
+  RANKING_STRATEGIES.find(strategy => strategy.id === id) || indieShuffle;
+
+/** Order stations with the chosen strategy (indie shuffle by default) */
+export const rankStations = (stations: RadioStation[], genres: string[], options: RankingOptions = {}): RadioStation[] => {
+  const strategy = getRankingStrategy(options.strategy);
+  return strategy.rank(stations, {
+    genres,
+    random: createSeededRandom(options.seed ?? randomSeed()),
+    origin: options.origin
+  });
+};
@@ -0,0 +1,413 @@
+/**
+ * Station recording: MediaRecorder on the live station mix (before time-shift and
+ * effects), optionally split into one file per stream title. Recordings are written to
+ * IndexedDB as they're made and moved to the library when each file ends; scheduled
+ * windows are kept in localStorage. Scheduling itself is driven by useRecorder.
+ */
+
+import type { RadioStation } from "./radioBrowserApi";
+import { getStationMixNode, parseStreamMetadata } from "./songIdentification";
+import { findHeldLocks, holdLock } from "./webLocks";
+
+export interface Recording {
+    id: string;
+    stationId: string;
+    stationName: string;
+    // "Artist - Title" when split by song, otherwise the station and start time
+    name: string;
+    startedAt: number;
+    durationMs: number;
+    mimeType: string;
+    size: number;
+    blob: Blob;
+}
+
+export interface RecordingSchedule {
+    id: string;
+    station: RadioStation;
+    startAt: number;
+    endAt: number;
+    splitOnTitle: boolean;
+}
+
+export interface ActiveRecording {
+    stationId: string;
+    stationName: string;
+    startedAt: number;
+    splitOnTitle: boolean;
+    // Name and start of the file being written now
+    partName: string;
+    partStartedAt: number;
+    parts: number;
+    scheduleId: string | null;
+}
+
+// A file being recorded; its data sits in the chunks store until it's finished
+interface PartInfo {
+    id: string;
+    stationId: string;
+    stationName: string;
+    name: string;
+    startedAt: number;
+    mimeType: string;
+}
+
+interface StoredChunk {
+    partId: string;
+    data: Blob;
+}
+
+interface StartOptions {
+    station: RadioStation;
+    title: string | null;
+    splitOnTitle: boolean;
+    scheduleId?: string | null;
+}
+
+const DB_NAME = 'radio-recordings';
+const STORE_NAME = 'recordings';
+const PARTS_STORE = 'parts';
+const CHUNKS_STORE = 'chunks';
+// Held by the tab recording a part until the part is in the library
+const PART_LOCK_PREFIX = 'radio-recording-part:';
+const LOCAL_SCHEDULES_KEY = 'recordingSchedules';
+// MediaRecorder hands over data this often and each piece is stored right away,
+// so closing the tab or a crash loses about this much
+const TIMESLICE_MS = 1000;
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+let recordings: Recording[] = [];
+let recordingsPromise: Promise<void> | null = null;
+const loadSchedules = (): RecordingSchedule[] => {
+    try {
+        return JSON.parse(localStorage.getItem(LOCAL_SCHEDULES_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+let schedules: RecordingSchedule[] = loadSchedules();
+let active: ActiveRecording | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// --- LIBRARY ---
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        try {
+            const request = indexedDB.open(DB_NAME, 2);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                if (event.oldVersion < 1) db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                // v2: files in progress are stored piece by piece
+                if (event.oldVersion < 2) {
+                    db.createObjectStore(PARTS_STORE, { keyPath: 'id' });
+                    db.createObjectStore(CHUNKS_STORE, { autoIncrement: true }).createIndex('partId', 'partId');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn('[Recorder] IndexedDB unavailable:', request.error);
+                resolve(null);
+            };
+        } catch (error) {
+            console.warn('[Recorder] IndexedDB unavailable:', error);
+            resolve(null);
+        }
+    });
+    return dbPromise;
+};
+
+/** Load the library from IndexedDB (once; later changes go through save/delete) */
+export const recordingsReady = (): Promise<void> => {
+    if (recordingsPromise) return recordingsPromise;
+    recordingsPromise = openDb().then(db => new Promise<void>(resolve => {
+        if (!db) return resolve();
+        const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+        request.onsuccess = () => {
+            recordings = (request.result as Recording[]).sort((a, b) => b.startedAt - a.startedAt);
+            notify();
+            resolve();
+            recoverParts(db);
+        };
+        request.onerror = () => resolve();
+    }));
+    return recordingsPromise;
+};
+
+export const getRecordings = (): Recording[] => recordings;
+
+const saveRecording = async (recording: Recording) => {
+    await recordingsReady();
+    recordings = [recording, ...recordings];
+    notify();
+    const db = await openDb();
+    if (!db) {
+        console.warn('[Recorder] Kept for this session only:', recording.name);
+        return;
+    }
+    db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(recording);
+};
+
+export const deleteRecording = async (id: string): Promise<void> => {
+    recordings = recordings.filter(recording => recording.id !== id);
+    notify();
+    const db = await openDb();
+    if (!db) return;
+    db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(id);
+};
+
+/** "Artist - Title" for a stream title; the station and start time without one */
+export const formatRecordingName = (title: string | null, stationName: string, at: number): string => {
+    const song = title ? parseStreamMetadata(title) : null;
+    if (song) return song.artist === 'Unknown Artist' ? song.title : `${song.artist} - ${song.title}`;
+    const date = new Date(at);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${stationName} ${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}.${pad(date.getMinutes())}`;
+};
+
+/** A file name for downloading, with the extension of the recorded container */
+export const getRecordingFileName = (recording: Recording): string => {
+    const extension = recording.mimeType.includes('ogg') ? 'ogg' : recording.mimeType.includes('mp4') ? 'm4a' : 'webm';
+    return `${recording.name.replace(/[\\/:*?"<>|]/g, '_')}.${extension}`;
+};
+
+// --- PARTS ---
+
+/** Move a part from its stored pieces into the library, then drop the pieces */
+const assemblePart = async (db: IDBDatabase, info: PartInfo, durationMs?: number) => {
+    const chunks = await new Promise<StoredChunk[]>(resolve => {
+        const request = db.transaction(CHUNKS_STORE, 'readonly').objectStore(CHUNKS_STORE).index('partId').getAll(info.id);
+        request.onsuccess = () => resolve(request.result as StoredChunk[]);
+        request.onerror = () => resolve([]);
+    });
+    const blob = new Blob(chunks.map(chunk => chunk.data), { type: info.mimeType });
+    if (blob.size > 0) {
+        await saveRecording({
+            id: info.id,
+            stationId: info.stationId,
+            stationName: info.stationName,
+            name: info.name,
+            startedAt: info.startedAt,
+            durationMs: durationMs ?? chunks.length * TIMESLICE_MS,
+            mimeType: info.mimeType,
+            size: blob.size,
+            blob
+        });
+    }
+
+    const transaction = db.transaction([PARTS_STORE, CHUNKS_STORE], 'readwrite');
+    transaction.objectStore(PARTS_STORE).delete(info.id);
+    const chunkStore = transaction.objectStore(CHUNKS_STORE);
+    const cursorRequest = chunkStore.index('partId').openKeyCursor(IDBKeyRange.only(info.id));
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        chunkStore.delete(cursor.primaryKey);
+        cursor.continue();
+    };
+};
+
+const partLock = (id: string) => PART_LOCK_PREFIX + id;
+
+const getPart = (db: IDBDatabase, id: string) => new Promise<PartInfo | undefined>(resolve => {
+    const request = db.transaction(PARTS_STORE, 'readonly').objectStore(PARTS_STORE).get(id);
+    request.onsuccess = () => resolve(request.result as PartInfo | undefined);
+    request.onerror = () => resolve(undefined);
+});
+
+/**
+ * A tab closed (or crashed) mid-recording: keep what it got. Parts whose lock is still
+ * held are being recorded in another tab. Without Web Locks there's no telling those
+ * from abandoned ones, so nothing is recovered.
+ */
+const recoverParts = async (db: IDBDatabase) => {
+    const held = await findHeldLocks(PART_LOCK_PREFIX);
+    if (!held) return;
+    const parts = await new Promise<PartInfo[]>(resolve => {
+        const request = db.transaction(PARTS_STORE, 'readonly').objectStore(PARTS_STORE).getAll();
+        request.onsuccess = () => resolve(request.result as PartInfo[]);
+        request.onerror = () => resolve([]);
+    });
+
+    for (const info of parts.filter(part => !held.has(partLock(part.id)))) {
+        // Taking the lock keeps another tab from recovering the same part; whoever gets it second finds it gone
+        const release = await holdLock(partLock(info.id));
+        try {
+            if (await getPart(db, info.id)) {
+                console.log('[Recorder] Recovering unfinished recording:', info.name);
+                await assemblePart(db, info);
+            }
+        } catch (error) {
+            console.error('[Recorder] Failed to recover recording:', error);
+        } finally {
+            release?.();
+        }
+    }
+};
+
+// --- CAPTURE ---
+
+interface Session {
+    destination: MediaStreamAudioDestinationNode;
+    mix: AudioNode;
+    mimeType: string;
+    recorder: MediaRecorder | null;
+}
+
+let session: Session | null = null;
+
+export const canRecord = (): boolean =>
+    typeof MediaRecorder !== 'undefined' && !!getStationMixNode() && MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+/** Record one file, storing each piece as it arrives; it moves to the library once the recorder stops */
+const startPart = (current: Session, recording: ActiveRecording) => {
+    const recorder = new MediaRecorder(current.destination.stream, { mimeType: current.mimeType });
+    const info: PartInfo = {
+        id: crypto.randomUUID(),
+        stationId: recording.stationId,
+        stationName: recording.stationName,
+        name: recording.partName,
+        startedAt: recording.partStartedAt,
+        mimeType: current.mimeType
+    };
+    // Only without IndexedDB do the pieces stay in memory
+    const memoryChunks: Blob[] = [];
+
+    // The part is only stored once its lock is held, so no other tab can take it for abandoned
+    const ownerLock = holdLock(partLock(info.id));
+    // Writes run in order, so the part is only assembled after its last piece is stored
+    let written = ownerLock.then(openDb).then(db => {
+        db?.transaction(PARTS_STORE, 'readwrite').objectStore(PARTS_STORE).put(info);
+        return db;
+    });
+
+    recorder.ondataavailable = (event) => {
+        if (event.data.size === 0) return;
+        const data = event.data;
+        written = written.then(db => {
+            if (!db) {
+                memoryChunks.push(data);
+                return db;
+            }
+            try {
+                const chunk: StoredChunk = { partId: info.id, data };
+                db.transaction(CHUNKS_STORE, 'readwrite').objectStore(CHUNKS_STORE).add(chunk);
+            } catch (error) {
+                console.warn('[Recorder] Failed to store a piece of the recording:', error);
+            }
+            return db;
+        });
+    };
+    recorder.onstop = () => {
+        const durationMs = Date.now() - info.startedAt;
+        written
+            .then(db => {
+                if (db) return assemblePart(db, info, durationMs);
+                const blob = new Blob(memoryChunks, { type: info.mimeType });
+                if (blob.size === 0) return;
+                return saveRecording({ ...info, durationMs, size: blob.size, blob });
+            })
+            .catch(error => console.error('[Recorder] Failed to save recording:', error))
+            .finally(() => ownerLock.then(release => release?.()));
+    };
+    recorder.onerror = (event) => console.error('[Recorder] MediaRecorder error:', event);
+    recorder.start(TIMESLICE_MS);
+    current.recorder = recorder;
+};
+
+/** Start recording the playing station; false when this browser (or graph) can't */
+export const startRecording = ({ station, title, splitOnTitle, scheduleId = null }: StartOptions): boolean => {
+    if (active) stopRecording();
+    const mix = getStationMixNode();
+    const mimeType = typeof MediaRecorder === 'undefined' ? undefined : MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mix || !mimeType) return false;
+
+    const destination = (mix.context as AudioContext).createMediaStreamDestination();
+    mix.connect(destination);
+    session = { destination, mix, mimeType, recorder: null };
+
+    const now = Date.now();
+    active = {
+        stationId: station.stationuuid,
+        stationName: station.name,
+        startedAt: now,
+        splitOnTitle,
+        // Split files are named after the song; one long file after the station and time
+        partName: formatRecordingName(splitOnTitle ? title : null, station.name, now),
+        partStartedAt: now,
+        parts: 1,
+        scheduleId
+    };
+    startPart(session, active);
+    console.log(`[Recorder] Recording ${station.name} (${mimeType})`);
+    notify();
+    return true;
+};
+
+/** The stream title changed: close this file and start the next one under the new name */
+export const splitRecording = (title: string | null) => {
+    if (!session || !active || !active.splitOnTitle) return;
+    session.recorder?.stop();
+    const now = Date.now();
+    active = {
+        ...active,
+        partName: formatRecordingName(title, active.stationName, now),
+        partStartedAt: now,
+        parts: active.parts + 1
+    };
+    startPart(session, active);
+    notify();
+};
+
+export const stopRecording = () => {
+    if (!session || !active) return;
+    session.recorder?.stop();
+    try { session.mix.disconnect(session.destination); } catch { /* already gone */ }
+    console.log(`[Recorder] Stopped ${active.stationName} after ${active.parts} file(s)`);
+    session = null;
+    active = null;
+    notify();
+};
+
+export const getActiveRecording = (): ActiveRecording | null => active;
+
+// --- SCHEDULES ---
+
+// Schedules can be made in any tab but only one runs them: keep every tab's list current
+if (typeof window !== 'undefined') {
+    window.addEventListener('storage', (event) => {
+        if (event.key !== LOCAL_SCHEDULES_KEY) return;
+        schedules = loadSchedules();
+        notify();
+    });
+}
+
+const persistSchedules = () => {
+    localStorage.setItem(LOCAL_SCHEDULES_KEY, JSON.stringify(schedules));
+    notify();
+};
+
+export const getRecordingSchedules = (): RecordingSchedule[] => schedules;
+
+export const saveRecordingSchedule = (schedule: RecordingSchedule) => {
+    schedules = [...schedules.filter(existing => existing.id !== schedule.id), schedule].sort((a, b) => a.startAt - b.startAt);
+    persistSchedules();
+};
+
+export const deleteRecordingSchedule = (id: string) => {
+    schedules = schedules.filter(schedule => schedule.id !== id);
+    persistSchedules();
+};
+
+/** Called whenever the library, the active recording or the schedules change; returns an unsubscribe */
+export const subscribeToRecorder = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
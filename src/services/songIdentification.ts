@@ -2,6 +2,9 @@
 // AudD provides accurate music recognition like Shazam
 
 import { toast } from "sonner";
+import { createEffectsChain } from "./audioEffects";
+import { createLoudnessStage } from "./loudness";
+import { createTimeShiftStage } from "./timeShift";
 
 const AUDD_API_URL = 'https://api.audd.io/';
 
@@ -49,16 +52,26 @@ export function parseStreamMetadata(metadataString: string): SongInfo | null {
 
 // Singleton instances for Web Audio API nodes
 let sharedAudioContext: AudioContext | null = null;
-let sharedSourceNode: MediaElementAudioSourceNode | null = null;
 let sharedAnalyserNode: AnalyserNode | null = null;
 let sharedGainNode: GainNode | null = null;
-let lastAudioElement: HTMLAudioElement | null = null;
+// Head of the time-shift -> loudness -> EQ/compressor/width chain every channel feeds into
+let sharedChainInput: AudioNode | null = null;
+
+// One source + fader per element: createMediaElementSource only works once per element,
+// and two elements are briefly audible together while the player crossfades
+interface AudioChannel {
+  source: MediaElementAudioSourceNode;
+  gain: GainNode;
+}
+const audioChannels = new WeakMap<HTMLMediaElement, AudioChannel>();
 
 /**
  * Initialize the audio graph for a specific element
- * This ensures we only connect once and share the nodes
+ * This ensures we only connect once and share the nodes.
+ * `direct` elements (the static bed) get a fader straight to the speakers, outside the
+ * station chain, so they're never buffered, recorded, measured, equalized or analysed.
  */
-export function initializeAudioTap(audioElement: HTMLAudioElement) {
+export function initializeAudioTap(audioElement: HTMLMediaElement, { direct = false }: { direct?: boolean } = {}) {
   if (!sharedAudioContext) {
     const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
     // Use system default sample rate for maximum compatibility
@@ -69,45 +82,51 @@ export function initializeAudioTap(audioElement: HTMLAudioElement) {
   const audioContext = sharedAudioContext;
 
   // ABSOLUTE ARCHITECTURE: Create a permanent, non-breaking splitter graph
-  if (!sharedSourceNode || lastAudioElement !== audioElement) {
-    try {
-      console.log('[Identification] Configuring Audio Splitter Matrix...');
-
-      // Cleanup old source if it exists (but keep Context)
-      if (sharedSourceNode) {
-        try { sharedSourceNode.disconnect(); } catch (e) { }
-      }
-
-      sharedSourceNode = audioContext.createMediaElementSource(audioElement);
-      lastAudioElement = audioElement;
-
-      if (!sharedAnalyserNode) {
-        sharedAnalyserNode = audioContext.createAnalyser();
-        sharedAnalyserNode.fftSize = 2048;
-      }
-
-      if (!sharedGainNode) {
-        sharedGainNode = audioContext.createGain();
-        sharedGainNode.gain.value = 1.0;
-      }
+  if (!sharedGainNode || !sharedAnalyserNode || !sharedChainInput) {
+    console.log('[Identification] Configuring Audio Splitter Matrix...');
+
+    sharedAnalyserNode = audioContext.createAnalyser();
+    sharedAnalyserNode.fftSize = 2048;
+
+    sharedGainNode = audioContext.createGain();
+    sharedGainNode.gain.value = 1.0;
+
+    const timeShift = createTimeShiftStage(audioContext);
+    const loudness = createLoudnessStage(audioContext);
+    const effects = createEffectsChain(audioContext);
+    timeShift.output.connect(loudness.input);
+    loudness.output.connect(effects.input);
+    effects.output.connect(sharedGainNode);
+    sharedChainInput = timeShift.input;
+
+    /**
+     * SPLITTER ROUTING:
+     * Source (Radio) -> Channel Gain (Crossfade) -> Time-Shift (Live/Buffered) -> Loudness (Normalization) -> Effects (EQ, Compressor, Width) -> GainNode (Splitter)
+     * GainNode -> Destination (Speakers) - ALWAYS ON
+     * GainNode -> Analyser (Visualizer/Tap) - ALWAYS ON
+     */
+    sharedGainNode.connect(audioContext.destination);
+    sharedGainNode.connect(sharedAnalyserNode);
+
+    console.log('[Identification] Absolute Splitter Active: Source -> Time-Shift -> Loudness -> Effects -> Gain -> [Speakers & Analyser]');
+  }
 
-      /**
-       * SPLITTER ROUTING:
-       * Source (Radio) -> GainNode (Splitter)
-       * GainNode -> Destination (Speakers) - ALWAYS ON
-       * GainNode -> Analyser (Visualizer/Tap) - ALWAYS ON
-       */
-      sharedSourceNode.connect(sharedGainNode);
-      sharedGainNode.connect(audioContext.destination);
-      sharedGainNode.connect(sharedAnalyserNode);
-
-      console.log('[Identification] Absolute Splitter Active: Source -> Gain -> [Speakers & Analyser]');
+  let channel = audioChannels.get(audioElement);
+  if (!channel) {
+    try {
+      const source = audioContext.createMediaElementSource(audioElement);
+      const gain = audioContext.createGain();
+      gain.gain.value = 1.0;
+      source.connect(gain);
+      gain.connect(direct ? audioContext.destination : sharedChainInput);
+      channel = { source, gain };
+      audioChannels.set(audioElement, channel);
     } catch (error) {
       console.warn('[Identification] Splitter matrix warning:', error);
     }
   }
 
-  return { audioContext, source: sharedSourceNode!, analyser: sharedAnalyserNode!, gain: sharedGainNode! };
+  return { audioContext, source: channel?.source, channel: channel?.gain, analyser: sharedAnalyserNode, gain: sharedGainNode };
 }
 
 /**
@@ -117,6 +136,13 @@ export function getAnalyserNode(): AnalyserNode | null {
   return sharedAnalyserNode;
 }
 
+/**
+ * The live station mix (every channel, before time-shift and effects), for recording
+ */
+export function getStationMixNode(): AudioNode | null {
+  return sharedChainInput;
+}
+
 /**
  * Capture internal audio from the playback element
  */
@@ -0,0 +1,266 @@
+/**
+ * Cross-source station deduplication.
+ * The same station often shows up several times: once from our curated Supabase
+ * list and again from radio-browser, or as separate radio-browser entries on
+ * http/https, different mount suffixes or "KEXP 90.3" vs "KEXP". Stations are
+ * matched by uuid, canonical stream URL, or fuzzy name backed by a shared stream
+ * host or an agreeing location (and no conflicting one), and merged into one
+ * entry that keeps the richest metadata plus the other stream URLs as alternates.
+ */
+
+import type { RadioStation } from './radioBrowserApi';
+
+// Stations with matching names further apart than this are different stations
+const MAX_SAME_STATION_DISTANCE_KM = 150;
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+// Query strings Shoutcast/Icecast servers accept but that don't change the stream
+const IGNORED_QUERY_PARAMS = ['mp', 'type', 'icy', 'nocache', '_'];
+
+// Words that don't help tell stations apart ("Radio KEXP FM" == "KEXP")
+const NAME_NOISE_WORDS = new Set(['radio', 'fm', 'am', 'the', 'mhz', 'hd', 'stream', 'live', 'online', 'webradio']);
+
+// --- URLS ---
+
+/**
+ * Reduce a stream URL to a comparison key: no scheme, lowercase host, no default
+ * port, no Shoutcast `;` suffix, no cosmetic query params, no trailing slash.
+ */
+export const canonicalizeStreamUrl = (url: string): string => {
+  const raw = (url || '').trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(raw);
+  } catch {
+    return raw.toLowerCase();
+  }
+
+  const defaultPort = (parsed.protocol === 'http:' && parsed.port === '80') || (parsed.protocol === 'https:' && parsed.port === '443');
+  const host = parsed.hostname.toLowerCase() + (parsed.port && !defaultPort ? `:${parsed.port}` : '');
+
+  const path = parsed.pathname
+    .replace(/\/;[^/]*$/, '/') // "/;" and "/;stream.mp3"
+    .replace(/;$/, '')
+    .replace(/\/+$/, '');
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !IGNORED_QUERY_PARAMS.includes(key.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `${host}${path}${query}`;
+};
+
+const streamUrls = (station: RadioStation) => [station.url_resolved, ...(station.alternate_urls || [])].filter(Boolean);
+
+const streamHost = (url: string): string | null => {
+  try {
+    return new URL(url.trim()).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+// --- NAMES ---
+
+// Dial positions like "90.3" or "103,7"; whole numbers ("Hot 97") stay part of the name
+const FREQUENCY_PATTERN = /\b\d{2,3}[.,]\d{1,2}\b/g;
+
+const extractFrequency = (name: string): string | null => {
+  const match = (name || '').match(FREQUENCY_PATTERN);
+  return match ? match[0].replace(',', '.') : null;
+};
+
+export const normalizeStationName = (name: string): string =>
+  (name || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(FREQUENCY_PATTERN, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !NAME_NOISE_WORDS.has(word))
+    .join(' ');
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/ /g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) result.push(compact.slice(i, i + 2));
+  return result;
+};
+
+// Sørensen–Dice coefficient over character bigrams
+const nameSimilarity = (a: string, b: string): number => {
+  const aGrams = bigrams(a);
+  const bGrams = bigrams(b);
+  if (aGrams.length === 0 || bGrams.length === 0) return a === b ? 1 : 0;
+
+  const counts = new Map<string, number>();
+  aGrams.forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+  let overlap = 0;
+  bGrams.forEach(gram => {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  });
+  return (2 * overlap) / (aGrams.length + bGrams.length);
+};
+
+export const namesMatch = (a: string, b: string): boolean => {
+  const left = normalizeStationName(a);
+  const right = normalizeStationName(b);
+  if (!left || !right) return false;
+  // "Hot 97.1" and "Hot 96.3" are different stations even though the names match
+  const freqA = extractFrequency(a);
+  const freqB = extractFrequency(b);
+  if (freqA && freqB && freqA !== freqB) return false;
+  return left === right || nameSimilarity(left, right) >= NAME_SIMILARITY_THRESHOLD;
+};
+
+// --- LOCATIONS ---
+
+const hasGeo = (station: RadioStation) => typeof station.geo_lat === 'number' && typeof station.geo_long === 'number';
+
+const distanceKm = (a: RadioStation, b: RadioStation): number => {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.geo_lat! - a.geo_lat!);
+  const dLng = toRad(b.geo_long! - a.geo_long!);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.geo_lat!)) * Math.cos(toRad(b.geo_lat!)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+};
+
+const knownCountry = (country?: string) => {
+  const value = (country || '').toLowerCase().trim();
+  return value && value !== 'unknown' ? value : null;
+};
+
+// Missing location data never rules a match out on its own; conflicting data does
+const locationsCompatible = (a: RadioStation, b: RadioStation): boolean => {
+  if (a.countrycode && b.countrycode && a.countrycode.toUpperCase() !== b.countrycode.toUpperCase()) return false;
+  if (!a.countrycode || !b.countrycode) {
+    const countryA = knownCountry(a.country);
+    const countryB = knownCountry(b.country);
+    if (countryA && countryB && !countryA.includes(countryB) && !countryB.includes(countryA)) return false;
+  }
+  if (a.state && b.state && a.state.toLowerCase() !== b.state.toLowerCase()) return false;
+  if (hasGeo(a) && hasGeo(b) && distanceKm(a, b) > MAX_SAME_STATION_DISTANCE_KM) return false;
+  return true;
+};
+
+// Normalized names collide easily ("Jazz FM" and "Jazz Radio" are both "jazz"), so a name
+// match also needs something positive: the same stream host, or one location field that agrees
+const matchCorroborated = (a: RadioStation, b: RadioStation): boolean => {
+  const hostsA = new Set(streamUrls(a).map(streamHost).filter(Boolean));
+  if (streamUrls(b).some(url => hostsA.has(streamHost(url)))) return true;
+
+  if (a.countrycode && b.countrycode && a.countrycode.toUpperCase() === b.countrycode.toUpperCase()) return true;
+  const countryA = knownCountry(a.country);
+  if (countryA && countryA === knownCountry(b.country)) return true;
+  if (a.state && b.state && a.state.toLowerCase() === b.state.toLowerCase()) return true;
+  return hasGeo(a) && hasGeo(b) && distanceKm(a, b) <= MAX_SAME_STATION_DISTANCE_KM;
+};
+
+const namesIdentifySameStation = (a: RadioStation, b: RadioStation): boolean =>
+  namesMatch(a.name, b.name) && locationsCompatible(a, b) && matchCorroborated(a, b);
+
+export const isSameStation = (a: RadioStation, b: RadioStation): boolean => {
+  if (a.stationuuid && a.stationuuid === b.stationuuid) return true;
+  if (a.url_resolved && b.url_resolved && canonicalizeStreamUrl(a.url_resolved) === canonicalizeStreamUrl(b.url_resolved)) return true;
+  return namesIdentifySameStation(a, b);
+};
+
+// --- MERGING ---
+
+const richness = (station: RadioStation): number =>
+  [station.favicon, station.tags, station.countrycode, station.state, station.language, station.codec, station.bitrate, hasGeo(station) || undefined]
+    .filter(Boolean).length;
+
+/**
+ * Combine two entries for the same station. `primary` keeps its identity (uuid,
+ * name and main stream URL, so curated entries stay curated); every gap is filled
+ * from `secondary`, and its stream URLs become alternates.
+ */
+export const mergeStations = (primary: RadioStation, secondary: RadioStation): RadioStation => {
+  const richer = richness(secondary) > richness(primary) ? secondary : primary;
+  const poorer = richer === primary ? secondary : primary;
+  const pick = <K extends keyof RadioStation>(key: K): RadioStation[K] => richer[key] || poorer[key];
+
+  const seenUrls = new Set([canonicalizeStreamUrl(primary.url_resolved)]);
+  const alternates: string[] = [];
+  [...streamUrls(primary), ...streamUrls(secondary)].forEach(url => {
+    const key = canonicalizeStreamUrl(url);
+    if (seenUrls.has(key)) return;
+    seenUrls.add(key);
+    alternates.push(url);
+  });
+
+  const tags = [...new Set(
+    [primary.tags, secondary.tags].join(',').split(',').map(tag => tag.trim()).filter(Boolean)
+  )].join(',');
+
+  return {
+    ...poorer,
+    ...richer,
+    stationuuid: primary.stationuuid,
+    name: primary.name,
+    url_resolved: primary.url_resolved,
+    isManual: primary.isManual || secondary.isManual,
+    country: knownCountry(primary.country) ? primary.country : secondary.country || primary.country,
+    countrycode: pick('countrycode'),
+    favicon: pick('favicon'),
+    state: pick('state'),
+    language: pick('language'),
+    codec: pick('codec'),
+    bitrate: pick('bitrate'),
+    geo_lat: hasGeo(richer) ? richer.geo_lat : poorer.geo_lat,
+    geo_long: hasGeo(richer) ? richer.geo_long : poorer.geo_long,
+    votes: Math.max(primary.votes || 0, secondary.votes || 0),
+    clickcount: Math.max(primary.clickcount || 0, secondary.clickcount || 0),
+    tags,
+    alternate_urls: alternates.length > 0 ? alternates : undefined,
+  };
+};
+
+const nameBucketKey = (station: RadioStation) => normalizeStationName(station.name).split(' ')[0] || '';
+
+/**
+ * Collapse duplicates, keeping the order of first appearance (pass curated
+ * stations first to keep them on top). Uuid and URL matches are map lookups;
+ * fuzzy name matching only compares stations sharing a leading name token.
+ */
+export const dedupeStations = (stations: RadioStation[]): RadioStation[] => {
+  const result: RadioStation[] = [];
+  const byUuid = new Map<string, number>();
+  const byUrl = new Map<string, number>();
+  const byName = new Map<string, number[]>();
+
+  const index = (station: RadioStation, position: number) => {
+    if (station.stationuuid) byUuid.set(station.stationuuid, position);
+    streamUrls(station).forEach(url => byUrl.set(canonicalizeStreamUrl(url), position));
+    const bucket = nameBucketKey(station);
+    if (bucket) byName.set(bucket, [...(byName.get(bucket) || []).filter(p => p !== position), position]);
+  };
+
+  stations.forEach(station => {
+    let match = byUuid.get(station.stationuuid);
+    if (match === undefined) {
+      match = streamUrls(station).map(url => byUrl.get(canonicalizeStreamUrl(url))).find(p => p !== undefined);
+    }
+    if (match === undefined) {
+      match = (byName.get(nameBucketKey(station)) || []).find(p => namesIdentifySameStation(result[p], station));
+    }
+
+    if (match === undefined) {
+      result.push(station);
+      index(station, result.length - 1);
+    } else {
+      result[match] = mergeStations(result[match], station);
+      index(result[match], match);
+    }
+  });
+
+  return result;
+};
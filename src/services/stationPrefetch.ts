@@ -0,0 +1,80 @@
+/**
+ * Background checks for the stations coming up in a queue: probe them through
+ * /api/probe so skipping lands on a station that is already known to answer
+ * and dead ones can be passed over.
+ */
+
+import type { RadioStation } from "./radioBrowserApi";
+import { describeProbeProblem, probeStream, StreamProbeError } from "./streamProbe";
+import { resolvePlayableUrls } from "./playerMedia";
+
+// 'unknown' when the probe itself timed out or errored: that says nothing about the station
+export type StationReachability = 'online' | 'offline' | 'unknown';
+
+// How many queued stations ahead of the current one are checked
+const PREFETCH_AHEAD = 2;
+
+const PROBE_TIMEOUT_MS = 8000;
+// Further fallbacks are left for the player to try
+const PROBED_CANDIDATES = 2;
+// Stations come and go; a verdict is trusted for a few minutes of browsing
+const VERDICT_TTL_MS = 5 * 60 * 1000;
+
+const verdicts = new Map<string, { reachability: Promise<StationReachability>; at: number }>();
+
+const probeCandidate = async (url: string): Promise<StationReachability> => {
+    const timeout = new Promise<StationReachability>(resolve => setTimeout(() => resolve('unknown'), PROBE_TIMEOUT_MS));
+    const probe = probeStream(url)
+        .then(result => (describeProbeProblem(result) ? 'offline' : 'online') as StationReachability)
+        .catch(error => (error instanceof StreamProbeError ? 'offline' : 'unknown') as StationReachability);
+    return Promise.race([probe, timeout]);
+};
+
+const checkStation = async (station: RadioStation): Promise<StationReachability> => {
+    const urls = (await resolvePlayableUrls(station).catch(() => [] as string[])).filter(Boolean);
+    if (urls.length === 0) return 'offline';
+
+    let unsure = false;
+    for (const url of urls.slice(0, PROBED_CANDIDATES)) {
+        const reachability = await probeCandidate(url);
+        if (reachability === 'online') return 'online';
+        if (reachability === 'unknown') unsure = true;
+    }
+    return unsure ? 'unknown' : 'offline';
+};
+
+/** Whether a station's stream answers right now (cached per station for a few minutes) */
+export const checkStationReachable = (station: RadioStation): Promise<StationReachability> => {
+    const key = `${station.stationuuid}|${station.url_resolved}`;
+    const cached = verdicts.get(key);
+    if (cached && Date.now() - cached.at < VERDICT_TTL_MS) return cached.reachability;
+
+    const reachability = checkStation(station);
+    verdicts.set(key, { reachability, at: Date.now() });
+    // Don't hold on to a shrug; the next look may get an answer
+    reachability.then(result => {
+        if (result === 'unknown') verdicts.delete(key);
+    });
+    return reachability;
+};
+
+/** The next queue index from `from` in direction `step`, passing over stations known to be offline */
+export const findPlayableIndex = (stations: RadioStation[], from: number, step: 1 | -1): number => {
+    const count = stations.length;
+    for (let i = 1; i <= count; i++) {
+        const index = (((from + step * i) % count) + count) % count;
+        if (!stations[index].isOffline) return index;
+    }
+    // Everything looks offline: the verdicts may be stale, just move on
+    return (((from + step) % count) + count) % count;
+};
+
+/** The next few stations after `from` that haven't been ruled out yet */
+export const getUpcomingStations = (stations: RadioStation[], from: number): RadioStation[] => {
+    const upcoming: RadioStation[] = [];
+    for (let i = 1; i < stations.length && upcoming.length < PREFETCH_AHEAD; i++) {
+        const station = stations[(from + i) % stations.length];
+        if (!station.isOffline) upcoming.push(station);
+    }
+    return upcoming;
+};
@@ -0,0 +1,37 @@
+/**
+ * Subscribes to "now playing" updates for a stream via the /api/metadata SSE endpoint.
+ * The proxy parses ICY StreamTitle blocks server-side, since browsers never expose them.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToStreamMetadata = (
+    streamUrl: string,
+    onTitle: (title: string | null) => void
+): (() => void) => {
+    if (!streamUrl || typeof EventSource === 'undefined') return () => { };
+
+    const source = new EventSource(`/api/metadata?url=${encodeURIComponent(streamUrl.trim())}`);
+
+    source.onmessage = (event) => {
+        try {
+            const { title } = JSON.parse(event.data);
+            onTitle(title ? title : null);
+        } catch (e) {
+            console.warn('[StreamMetadata] Malformed event:', event.data);
+        }
+    };
+
+    // Station has no in-band metadata: stop EventSource from auto-reconnecting
+    source.addEventListener('unsupported', () => {
+        console.log('[StreamMetadata] No ICY metadata for:', streamUrl);
+        source.close();
+    });
+
+    source.onerror = () => {
+        // A 4xx/5xx response closes the source for good; transient drops auto-reconnect
+        if (source.readyState === EventSource.CLOSED) {
+            console.warn('[StreamMetadata] Metadata channel closed for:', streamUrl);
+        }
+    };
+
+    return () => source.close();
+};
@@ -0,0 +1,148 @@
+/**
+ * Moderator-managed stream URL overrides (stream_url_overrides table).
+ * An override matches a station by radio-browser uuid or by a stream URL pattern
+ * and swaps in a replacement URL until it expires. Every station-returning
+ * function runs its results through applyStreamOverrides.
+ */
+
+import { supabase } from "@/lib/supabase";
+import type { RadioStation } from "./radioBrowserApi";
+import { canonicalizeStreamUrl } from "./stationDedupe";
+
+export interface StreamUrlOverride {
+    id?: string;
+    stationUuid: string | null;
+    urlPattern: string | null;
+    replacementUrl: string;
+    reason: string;
+    createdBy?: string | null;
+    createdAt?: string;
+    expiresAt: string | null;
+}
+
+// Used until the table answers (and if Supabase isn't configured)
+const FALLBACK_OVERRIDES: StreamUrlOverride[] = [
+    {
+        stationUuid: null,
+        urlPattern: '*somafm.com/indiepop*',
+        replacementUrl: 'https://ice2.somafm.com/indiepop-256-mp3',
+        reason: 'SomaFM Indie Pop Rocks: listed mounts are unreliable',
+        expiresAt: null
+    }
+];
+
+// Re-check the table now and then so fixes reach open tabs without a reload
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+let overrides: StreamUrlOverride[] = FALLBACK_OVERRIDES;
+let loadedAt = 0;
+let loadPromise: Promise<void> | null = null;
+
+const fetchOverrides = async (): Promise<StreamUrlOverride[]> => {
+    const { data, error } = await supabase
+        .from('stream_url_overrides')
+        .select('*')
+        .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(row => ({
+        id: row.id,
+        stationUuid: row.station_uuid,
+        urlPattern: row.url_pattern,
+        replacementUrl: row.replacement_url,
+        reason: row.reason,
+        createdBy: row.created_by,
+        createdAt: row.created_at,
+        expiresAt: row.expires_at
+    }));
+};
+
+export const loadStreamOverrides = (): Promise<void> => {
+    loadPromise = fetchOverrides()
+        .then(rows => {
+            overrides = rows;
+            console.log(`[Stream Overrides] Loaded ${rows.length} overrides`);
+        })
+        .catch(err => {
+            console.warn('[Stream Overrides] Could not load overrides, using built-in ones:', err);
+        })
+        .finally(() => {
+            loadedAt = Date.now();
+        });
+    return loadPromise;
+};
+
+// First call waits for the table; later ones use what we have and refresh in the background
+const overridesReady = (): Promise<void> => {
+    if (!loadPromise) return loadStreamOverrides();
+    if (loadedAt && Date.now() - loadedAt > REFRESH_INTERVAL_MS) {
+        loadedAt = 0;
+        loadStreamOverrides();
+    }
+    return loadPromise;
+};
+
+const isActive = (override: StreamUrlOverride, now = Date.now()) =>
+    !override.expiresAt || new Date(override.expiresAt).getTime() > now;
+
+// "*" matches anything; the scheme is ignored because patterns are compared against canonical URLs
+const patternToRegExp = (pattern: string): RegExp => {
+    const body = pattern.trim().replace(/^[a-z]+:\/\//i, '')
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${body}$`, 'i');
+};
+
+export const overrideMatches = (override: StreamUrlOverride, station: RadioStation): boolean => {
+    if (override.stationUuid) return override.stationUuid === station.stationuuid;
+    if (!override.urlPattern || !station.url_resolved) return false;
+    return patternToRegExp(override.urlPattern).test(canonicalizeStreamUrl(station.url_resolved));
+};
+
+/** Swap in replacement URLs for stations with an active override. Uuid matches win over patterns. */
+export const applyStreamOverrides = async (stations: RadioStation[]): Promise<RadioStation[]> => {
+    await overridesReady();
+    const now = Date.now();
+    const active = overrides
+        .filter(override => isActive(override, now))
+        .sort((a, b) => Number(!!b.stationUuid) - Number(!!a.stationUuid));
+    if (active.length === 0) return stations;
+
+    return stations.map(station => {
+        const override = active.find(o => overrideMatches(o, station));
+        if (!override || override.replacementUrl === station.url_resolved) return station;
+        return { ...station, url_resolved: override.replacementUrl };
+    });
+};
+
+// --- ADMIN ---
+
+export const getStreamOverrides = async (): Promise<StreamUrlOverride[]> => {
+    await loadStreamOverrides();
+    return overrides;
+};
+
+export const saveStreamOverride = async (override: StreamUrlOverride, userId: string): Promise<void> => {
+    const row = {
+        station_uuid: override.stationUuid || null,
+        url_pattern: override.urlPattern || null,
+        replacement_url: override.replacementUrl,
+        reason: override.reason,
+        expires_at: override.expiresAt,
+        created_by: override.createdBy ?? userId
+    };
+    const { error } = override.id
+        ? await supabase.from('stream_url_overrides').update(row).eq('id', override.id)
+        : await supabase.from('stream_url_overrides').insert(row);
+    if (error) throw error;
+    await loadStreamOverrides();
+};
+
+export const deleteStreamOverride = async (id: string): Promise<void> => {
+    const { error } = await supabase
+        .from('stream_url_overrides')
+        .delete()
+        .eq('id', id);
+    if (error) throw error;
+    await loadStreamOverrides();
+};
@@ -0,0 +1,129 @@
+/**
+ * Client for /api/probe: asks the server to connect to a stream and report
+ * what it actually is before we commit to playing or saving it.
+ */
+
+import { resolveStreamCandidates } from './playlistResolver';
+import { describeProxyError, type ProxyErrorInfo } from './proxyErrors';
+
+export type StreamCodec = 'mp3' | 'aac' | 'opus' | 'vorbis' | 'flac' | 'ogg' | 'hls' | 'playlist';
+
+export interface StreamProbeResult {
+    url: string;
+    resolvedUrl: string;
+    status: number;
+    contentType: string | null;
+    icy: {
+        name: string | null;
+        genre: string | null;
+        bitrate: number | null;
+        url: string | null;
+    };
+    codec: StreamCodec | null;
+    /** kbps, from icy-br or the first frame header */
+    bitrate: number | null;
+    sampleRate: number | null;
+    channels: number | null;
+    headersMs: number;
+    /** Time to first body byte, null if no audio arrived */
+    ttfbMs: number | null;
+    playable: boolean;
+}
+
+export class StreamProbeError extends Error {
+    constructor(readonly info: ProxyErrorInfo) {
+        super(describeProxyError(info));
+        this.name = 'StreamProbeError';
+    }
+}
+
+const CODEC_LABELS: Record<StreamCodec, string> = {
+    mp3: 'MP3',
+    aac: 'AAC',
+    opus: 'Opus',
+    vorbis: 'Vorbis',
+    flac: 'FLAC',
+    ogg: 'Ogg',
+    hls: 'HLS',
+    playlist: 'Playlist',
+};
+
+// Short-lived: a station that was down a minute ago may be back
+const PROBE_CACHE_TTL_MS = 60 * 1000;
+const probeCache = new Map<string, { result: Promise<StreamProbeResult>; at: number }>();
+
+const requestProbe = async (url: string): Promise<StreamProbeResult> => {
+    const response = await fetch(`/api/probe?url=${encodeURIComponent(url)}`);
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+        throw new StreamProbeError(body?.code
+            ? { code: body.code, error: body.error }
+            : { code: 'UPSTREAM_ERROR', error: `Probe failed (${response.status})` });
+    }
+    return body as StreamProbeResult;
+};
+
+export const probeStream = (url: string): Promise<StreamProbeResult> => {
+    const cached = probeCache.get(url);
+    if (cached && Date.now() - cached.at < PROBE_CACHE_TTL_MS) return cached.result;
+
+    const result = (async () => {
+        const probe = await requestProbe(url);
+        if (probe.codec !== 'playlist') return probe;
+
+        // A playlist file: judge the stream the player would resolve it to
+        const [entry] = await resolveStreamCandidates(url, 'm3u');
+        if (!entry || entry === url) return probe;
+        const entryProbe = await requestProbe(entry);
+        return { ...entryProbe, url };
+    })();
+
+    probeCache.set(url, { result, at: Date.now() });
+    result.catch(() => probeCache.delete(url));
+    return result;
+};
+
+/** "MP3 · 128 kbps · 44.1 kHz" style summary for admin/submission UIs */
+export const formatProbeSummary = (probe: StreamProbeResult): string => {
+    const parts: string[] = [];
+    if (probe.codec) parts.push(CODEC_LABELS[probe.codec]);
+    if (probe.bitrate) parts.push(`${probe.bitrate} kbps`);
+    if (probe.sampleRate) parts.push(`${probe.sampleRate / 1000} kHz`);
+    if (probe.ttfbMs !== null) parts.push(`${probe.ttfbMs} ms`);
+    return parts.join(' · ');
+};
+
+/** Why a probed stream can't be played, or null if it can */
+export const describeProbeProblem = (probe: StreamProbeResult): string | null => {
+    if (probe.status < 200 || probe.status >= 300) return `Station server answered HTTP ${probe.status}.`;
+    if (probe.contentType?.includes('text/html')) return 'This URL is a web page, not an audio stream.';
+    if (!probe.playable) return 'No recognizable audio (MP3, AAC, Ogg or Opus) was received.';
+    return null;
+};
+
+const RANK_PROBE_LIMIT = 3;
+
+/**
+ * Reorder candidate stream URLs (e.g. entries of a playlist file) so ones the
+ * probe confirmed as playable come first and confirmed-dead ones come last.
+ * Never drops a URL and gives up waiting after `timeoutMs`.
+ */
+export const rankPlayableUrls = async (urls: string[], timeoutMs = 3000): Promise<string[]> => {
+    if (urls.length < 2) return urls;
+
+    const probed = urls.slice(0, RANK_PROBE_LIMIT);
+    const timeout = new Promise<null>(resolve => setTimeout(() => resolve(null), timeoutMs));
+    const verdicts = await Promise.all(probed.map(url =>
+        Promise.race([
+            probeStream(url).then(result => (result.playable ? 0 : 2)).catch(err => (err instanceof StreamProbeError ? 2 : 1)),
+            timeout.then(() => 1),
+        ])
+    ));
+
+    const ranked = probed
+        .map((url, i) => ({ url, verdict: verdicts[i], i }))
+        .sort((a, b) => a.verdict - b.verdict || a.i - b.i)
+        .map(({ url }) => url);
+    return [...ranked, ...urls.slice(RANK_PROBE_LIMIT)];
+};
@@ -0,0 +1,524 @@
+/**
+ * Time-shift buffer for the live stream: records the station mix (before loudness and
+ * effects) into a rolling PCM window, so the listener can pause, rewind and scrub while
+ * the stream keeps recording, then jump back to live. The last minute stays in memory;
+ * the whole window is kept in IndexedDB chunks, under a key space of its own per tab.
+ */
+
+import { findHeldLocks, holdLock } from "./webLocks";
+
+export interface TimeShiftMarker {
+    // How far behind live the title changed
+    agoMs: number;
+    title: string | null;
+}
+
+export interface TimeShiftStatus {
+    enabled: boolean;
+    bufferedMs: number;
+    // How far behind live the listener is (0 when live)
+    delayMs: number;
+    shifted: boolean;
+    paused: boolean;
+    markers: TimeShiftMarker[];
+    // The title at the heard position; undefined when nothing was recorded for it
+    heardTitle: string | null | undefined;
+}
+
+export interface TimeShiftMode {
+    shifted: boolean;
+    paused: boolean;
+    // Paused so long that the paused point fell out of the window: no reason to keep the stream
+    expired: boolean;
+}
+
+// 16-bit interleaved stereo, one chunk per second
+const CHUNK_SECONDS = 1;
+const MEMORY_SECONDS = 60;
+// Without IndexedDB everything stays in memory, so keep the window short
+const MEMORY_ONLY_MAX_MINUTES = 5;
+// Playback is scheduled in slices this far ahead of the clock
+const SLICE_SECONDS = 0.5;
+const LOOKAHEAD_SECONDS = 1.5;
+const PUMP_INTERVAL_MS = 250;
+// Gates glide rather than click
+const GATE_TIME_CONSTANT = 0.01;
+
+const DB_NAME = 'radio-time-shift';
+const STORE_NAME = 'chunks';
+// Each tab records its own window; it holds its session's lock for as long as it's open
+const SESSION_ID = typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+const SESSION_LOCK_PREFIX = 'radio-time-shift:';
+
+// Runs on the audio thread: batches render quanta and posts them to the main thread
+const CAPTURE_PROCESSOR = `
+class TimeShiftCapture extends AudioWorkletProcessor {
+    constructor() {
+        super();
+        this.size = 4096;
+        this.reset();
+    }
+    reset() {
+        this.left = new Float32Array(this.size);
+        this.right = new Float32Array(this.size);
+        this.fill = 0;
+    }
+    process(inputs) {
+        const input = inputs[0];
+        const frames = input && input[0] ? input[0].length : 128;
+        for (let i = 0; i < frames; i++) {
+            // No channels while the element is silent: record silence to keep time
+            this.left[this.fill] = input && input[0] ? input[0][i] : 0;
+            this.right[this.fill] = input && input[1] ? input[1][i] : this.left[this.fill];
+            if (++this.fill === this.size) {
+                this.port.postMessage({ left: this.left, right: this.right }, [this.left.buffer, this.right.buffer]);
+                this.reset();
+            }
+        }
+        return true;
+    }
+}
+registerProcessor('time-shift-capture', TimeShiftCapture);
+`;
+
+interface Stage {
+    context: AudioContext;
+    live: GainNode;
+    shifted: GainNode;
+    capture: AudioWorkletNode | null;
+    chunkFrames: number;
+}
+
+interface Chunk {
+    session: string;
+    seq: number;
+    data: Int16Array;
+}
+
+type Position =
+    | { kind: 'live' }
+    | { kind: 'paused'; frame: number }
+    | { kind: 'playing'; anchorFrame: number; anchorTime: number };
+
+let stage: Stage | null = null;
+let maxMinutes = 0;
+let capturing = false;
+
+// Frames recorded since the last reset: the live edge
+let capturedFrames = 0;
+// Completed chunks still in the window, oldest first (seq = startFrame / chunkFrames)
+let windowSeqs: number[] = [];
+const memoryChunks = new Map<number, Int16Array>();
+let partial: Int16Array | null = null;
+let markers: { frame: number; title: string | null }[] = [];
+
+let position: Position = { kind: 'live' };
+let nextFrame = 0;
+let nextTime = 0;
+let pumpTimer: number | undefined;
+// Bumped whenever scheduled playback is thrown away, so late reads for it are dropped
+let generation = 0;
+let pumping: number | null = null;
+const sources = new Set<AudioBufferSourceNode>();
+
+let mode: TimeShiftMode = { shifted: false, paused: false, expired: false };
+const listeners = new Set<() => void>();
+
+// --- STORAGE ---
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let dbAvailable = false;
+
+// Every chunk of one session, whatever its seq
+const sessionRange = (session: string) => IDBKeyRange.bound([session, 0], [session, Infinity]);
+
+// Chunks left by tabs that closed or crashed. Without Web Locks there's no telling which
+// sessions are gone, so nothing is dropped.
+const pruneAbandonedSessions = async (db: IDBDatabase) => {
+    const held = await findHeldLocks(SESSION_LOCK_PREFIX);
+    if (!held) return;
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const request = store.openKeyCursor();
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const [session] = cursor.primaryKey as [string, number];
+        if (!held.has(SESSION_LOCK_PREFIX + session)) {
+            console.log('[TimeShift] Dropping the window of a closed tab:', session);
+            store.delete(sessionRange(session));
+        }
+        // On to the next session
+        cursor.continue([session, Infinity]);
+    };
+};
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        try {
+            // Never released: the browser lets go of it when the tab goes away
+            const sessionLock = holdLock(SESSION_LOCK_PREFIX + SESSION_ID);
+            const request = indexedDB.open(DB_NAME, 2);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                // v2: one key space per tab instead of one recording for everyone
+                if (event.oldVersion >= 1) db.deleteObjectStore(STORE_NAME);
+                db.createObjectStore(STORE_NAME, { keyPath: ['session', 'seq'] });
+            };
+            request.onsuccess = () => {
+                dbAvailable = true;
+                resolve(request.result);
+                // Only once this session is marked as alive, so its own chunks are never taken for abandoned
+                sessionLock.then(() => pruneAbandonedSessions(request.result));
+            };
+            request.onerror = () => {
+                console.warn('[TimeShift] IndexedDB unavailable, keeping a short window in memory:', request.error);
+                resolve(null);
+            };
+        } catch (error) {
+            console.warn('[TimeShift] IndexedDB unavailable, keeping a short window in memory:', error);
+            resolve(null);
+        }
+    });
+    return dbPromise;
+};
+
+const storeChunk = async (seq: number, data: Int16Array) => {
+    const db = await openDb();
+    if (!db) return;
+    try {
+        const chunk: Chunk = { session: SESSION_ID, seq, data };
+        db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(chunk);
+    } catch (error) {
+        console.warn('[TimeShift] Failed to store chunk:', seq, error);
+    }
+};
+
+const dropStoredChunks = async (seqs: number[] | 'all') => {
+    const db = await openDb();
+    if (!db) return;
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    if (seqs === 'all') store.delete(sessionRange(SESSION_ID));
+    else seqs.forEach(seq => store.delete([SESSION_ID, seq]));
+};
+
+const loadChunk = async (seq: number): Promise<Int16Array | null> => {
+    const cached = memoryChunks.get(seq);
+    if (cached) return cached;
+    const db = await openDb();
+    if (!db) return null;
+    return new Promise(resolve => {
+        const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get([SESSION_ID, seq]);
+        request.onsuccess = () => resolve((request.result as Chunk | undefined)?.data || null);
+        request.onerror = () => resolve(null);
+    });
+};
+
+// --- RECORDING ---
+
+const windowFrames = () => {
+    if (!stage) return 0;
+    const minutes = dbAvailable ? maxMinutes : Math.min(maxMinutes, MEMORY_ONLY_MAX_MINUTES);
+    return minutes * 60 * stage.context.sampleRate;
+};
+
+const oldestFrame = () => {
+    if (!stage) return 0;
+    if (windowSeqs.length > 0) return windowSeqs[0] * stage.chunkFrames;
+    return capturedFrames - (capturedFrames % stage.chunkFrames);
+};
+
+const completeChunk = (seq: number, data: Int16Array) => {
+    windowSeqs.push(seq);
+    memoryChunks.set(seq, data);
+    storeChunk(seq, data);
+
+    // Only the last minute needs to be at hand; IndexedDB has the rest
+    if (dbAvailable) {
+        const keepFrom = seq - MEMORY_SECONDS / CHUNK_SECONDS;
+        memoryChunks.forEach((_data, cachedSeq) => { if (cachedSeq <= keepFrom) memoryChunks.delete(cachedSeq); });
+    }
+
+    const expired: number[] = [];
+    while (windowSeqs.length > 0 && capturedFrames - windowSeqs[0] * stage!.chunkFrames > windowFrames()) {
+        const dropped = windowSeqs.shift()!;
+        memoryChunks.delete(dropped);
+        expired.push(dropped);
+    }
+    if (expired.length > 0) {
+        dropStoredChunks(expired);
+        // Keep the title that was on at the start of the window
+        const oldest = oldestFrame();
+        const firstInside = markers.findIndex(marker => marker.frame >= oldest);
+        const keepFrom = firstInside === -1 ? markers.length - 1 : firstInside - 1;
+        if (keepFrom > 0) markers = markers.slice(keepFrom);
+        if (position.kind === 'paused' && position.frame < oldest) {
+            position = { kind: 'paused', frame: oldest };
+            setMode({ ...mode, expired: true });
+        }
+    }
+};
+
+const handleCapture = (left: Float32Array, right: Float32Array) => {
+    if (!stage || !capturing || maxMinutes <= 0) return;
+    const { chunkFrames } = stage;
+    for (let i = 0; i < left.length; i++) {
+        const offset = capturedFrames % chunkFrames;
+        if (!partial) partial = new Int16Array(chunkFrames * 2);
+        partial[offset * 2] = Math.max(-1, Math.min(1, left[i])) * 0x7fff;
+        partial[offset * 2 + 1] = Math.max(-1, Math.min(1, right[i])) * 0x7fff;
+        capturedFrames++;
+        if (offset === chunkFrames - 1) {
+            completeChunk(Math.floor((capturedFrames - 1) / chunkFrames), partial);
+            partial = null;
+        }
+    }
+};
+
+/** Build the stage once for the shared AudioContext; every station channel feeds its input */
+export const createTimeShiftStage = (audioContext: AudioContext): { input: AudioNode; output: AudioNode } => {
+    const input = audioContext.createGain();
+    const live = audioContext.createGain();
+    const shifted = audioContext.createGain();
+    const output = audioContext.createGain();
+    shifted.gain.value = 0;
+    input.connect(live);
+    live.connect(output);
+    shifted.connect(output);
+
+    stage = { context: audioContext, live, shifted, capture: null, chunkFrames: Math.round(audioContext.sampleRate * CHUNK_SECONDS) };
+    const current = stage;
+
+    // Not in insecure contexts or older browsers: the player just works without time-shift
+    if (audioContext.audioWorklet) {
+        const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR], { type: 'application/javascript' }));
+        audioContext.audioWorklet.addModule(moduleUrl)
+            .then(() => {
+                const capture = new AudioWorkletNode(audioContext, 'time-shift-capture', {
+                    numberOfInputs: 1,
+                    numberOfOutputs: 0,
+                    channelCount: 2,
+                    channelCountMode: 'explicit'
+                });
+                capture.port.onmessage = (event: MessageEvent<{ left: Float32Array; right: Float32Array }>) =>
+                    handleCapture(event.data.left, event.data.right);
+                input.connect(capture);
+                current.capture = capture;
+            })
+            .catch(error => console.warn('[TimeShift] Capture unavailable:', error))
+            .finally(() => URL.revokeObjectURL(moduleUrl));
+    }
+    openDb();
+
+    return { input, output };
+};
+
+// --- PLAYBACK ---
+
+const notify = () => listeners.forEach(listener => listener());
+
+const setMode = (next: TimeShiftMode) => {
+    if (next.shifted === mode.shifted && next.paused === mode.paused && next.expired === mode.expired) return;
+    mode = next;
+    notify();
+};
+
+const setGates = (live: number, shifted: number) => {
+    if (!stage) return;
+    const now = stage.context.currentTime;
+    stage.live.gain.setTargetAtTime(live, now, GATE_TIME_CONSTANT);
+    stage.shifted.gain.setTargetAtTime(shifted, now, GATE_TIME_CONSTANT);
+};
+
+const stopSources = () => {
+    generation++;
+    window.clearInterval(pumpTimer);
+    pumpTimer = undefined;
+    sources.forEach(source => {
+        try { source.stop(); } catch { /* never started */ }
+        source.disconnect();
+    });
+    sources.clear();
+};
+
+/** Frame the listener hears right now */
+const heardFrame = (): number => {
+    if (position.kind === 'live' || !stage) return capturedFrames;
+    if (position.kind === 'paused') return position.frame;
+    const elapsed = (stage.context.currentTime - position.anchorTime) * stage.context.sampleRate;
+    return Math.min(nextFrame, Math.max(position.anchorFrame, position.anchorFrame + elapsed));
+};
+
+/** Read `count` frames from `from` as [left, right]; missing audio reads as silence */
+const readFrames = async (from: number, count: number): Promise<[Float32Array<ArrayBuffer>, Float32Array<ArrayBuffer>]> => {
+    const { chunkFrames } = stage!;
+    const left = new Float32Array(count);
+    const right = new Float32Array(count);
+    let written = 0;
+    while (written < count) {
+        const frame = from + written;
+        const seq = Math.floor(frame / chunkFrames);
+        const offset = frame - seq * chunkFrames;
+        const take = Math.min(count - written, chunkFrames - offset);
+        const isPartial = seq === Math.floor(capturedFrames / chunkFrames);
+        const data = isPartial ? partial : await loadChunk(seq);
+        if (data) {
+            for (let i = 0; i < take; i++) {
+                left[written + i] = data[(offset + i) * 2] / 0x7fff;
+                right[written + i] = data[(offset + i) * 2 + 1] / 0x7fff;
+            }
+        }
+        written += take;
+    }
+    return [left, right];
+};
+
+const pump = async () => {
+    if (!stage || pumping === generation || position.kind !== 'playing') return;
+    const owner = generation;
+    pumping = owner;
+    const { context } = stage;
+    try {
+        while (nextTime - context.currentTime < LOOKAHEAD_SECONDS) {
+            if (nextFrame < oldestFrame()) nextFrame = oldestFrame();
+            // Never closer to live than one render batch
+            const count = Math.min(Math.round(SLICE_SECONDS * context.sampleRate), capturedFrames - nextFrame);
+            if (count < 4096) break;
+
+            const [left, right] = await readFrames(nextFrame, count);
+            if (owner !== generation) return;
+
+            // Starved (slow read, tab in the background): pick up again from now
+            if (nextTime < context.currentTime) {
+                nextTime = context.currentTime + 0.05;
+                position = { kind: 'playing', anchorFrame: nextFrame, anchorTime: nextTime };
+            }
+            const buffer = context.createBuffer(2, count, context.sampleRate);
+            buffer.copyToChannel(left, 0);
+            buffer.copyToChannel(right, 1);
+            const source = context.createBufferSource();
+            source.buffer = buffer;
+            source.connect(stage.shifted);
+            source.onended = () => {
+                source.disconnect();
+                sources.delete(source);
+            };
+            source.start(nextTime);
+            sources.add(source);
+            nextTime += count / context.sampleRate;
+            nextFrame += count;
+        }
+    } finally {
+        if (pumping === owner) pumping = null;
+    }
+};
+
+const playFrom = (frame: number) => {
+    if (!stage) return;
+    stopSources();
+    nextFrame = Math.max(oldestFrame(), Math.min(frame, capturedFrames));
+    nextTime = stage.context.currentTime + 0.05;
+    position = { kind: 'playing', anchorFrame: nextFrame, anchorTime: nextTime };
+    setGates(0, 1);
+    pumpTimer = window.setInterval(pump, PUMP_INTERVAL_MS);
+    pump();
+    setMode({ shifted: true, paused: false, expired: false });
+};
+
+// --- CONTROLS ---
+
+/** Window length in minutes; 0 turns time-shift off and drops what was recorded */
+export const configureTimeShift = (minutes: number) => {
+    maxMinutes = minutes;
+    if (minutes <= 0) resetTimeShift();
+};
+
+/** Record only while the stream is actually on (not while connecting to a new one) */
+export const setTimeShiftCapturing = (on: boolean) => {
+    capturing = on;
+};
+
+/** New station or stopped: back to live with an empty window */
+export const resetTimeShift = () => {
+    jumpToLive();
+    capturedFrames = 0;
+    windowSeqs = [];
+    memoryChunks.clear();
+    partial = null;
+    markers = [];
+    dropStoredChunks('all');
+};
+
+/** Note a title change at the live edge, for the timeline and the heard title */
+export const recordTimeShiftTitle = (title: string | null) => {
+    const last = markers[markers.length - 1];
+    if (last && last.title === title) return;
+    markers.push({ frame: capturedFrames, title });
+};
+
+/** Whether pausing can hold the stream (recording) instead of stopping it */
+export const canTimeShift = (): boolean => !!stage?.capture && maxMinutes > 0 && capturing;
+
+export const pauseTimeShift = () => {
+    const frame = heardFrame();
+    stopSources();
+    position = { kind: 'paused', frame };
+    setGates(0, 0);
+    setMode({ shifted: true, paused: true, expired: false });
+};
+
+export const resumeTimeShift = () => {
+    if (position.kind !== 'paused') return;
+    playFrom(position.frame);
+};
+
+export const jumpToLive = () => {
+    stopSources();
+    position = { kind: 'live' };
+    setGates(1, 0);
+    setMode({ shifted: false, paused: false, expired: false });
+};
+
+/** Listen from `delayMs` behind live (staying paused if paused); 0 is live */
+export const seekTimeShift = (delayMs: number) => {
+    if (!stage) return;
+    if (delayMs <= 0 && position.kind !== 'paused') return jumpToLive();
+    const frame = Math.max(oldestFrame(), capturedFrames - Math.round(delayMs / 1000 * stage.context.sampleRate));
+    if (position.kind === 'paused') position = { kind: 'paused', frame };
+    else playFrom(frame);
+    notify();
+};
+
+export const rewindTimeShift = (seconds: number) => {
+    seekTimeShift(getTimeShiftStatus().delayMs + seconds * 1000);
+};
+
+export const getTimeShiftStatus = (): TimeShiftStatus => {
+    const sampleRate = stage?.context.sampleRate || 1;
+    const oldest = oldestFrame();
+    const heard = heardFrame();
+    const heardMarker = [...markers].reverse().find(marker => marker.frame <= heard);
+    return {
+        enabled: !!stage?.capture && maxMinutes > 0,
+        bufferedMs: (capturedFrames - oldest) / sampleRate * 1000,
+        delayMs: position.kind === 'live' ? 0 : (capturedFrames - heard) / sampleRate * 1000,
+        shifted: mode.shifted,
+        paused: mode.paused,
+        markers: markers
+            .filter(marker => marker.frame > oldest)
+            .map(marker => ({ agoMs: (capturedFrames - marker.frame) / sampleRate * 1000, title: marker.title })),
+        heardTitle: heardMarker ? heardMarker.title : undefined,
+    };
+};
+
+/** Live/shifted/paused, as a stable snapshot for useSyncExternalStore */
+export const getTimeShiftMode = (): TimeShiftMode => mode;
+
+/** Called when the mode changes or the listener seeks; returns an unsubscribe */
+export const subscribeToTimeShift = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
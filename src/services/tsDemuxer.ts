@@ -0,0 +1,158 @@
+/**
+ * Minimal MPEG-TS / packed-audio demuxer for HLS radio segments.
+ * Media Source Extensions can't take MPEG-TS directly, so we pull the audio
+ * elementary stream (AAC ADTS or MPEG audio) out and append it raw.
+ */
+
+export type AudioElementaryFormat = 'aac' | 'mp3';
+
+export interface DemuxedAudio {
+  format: AudioElementaryFormat;
+  data: Uint8Array;
+}
+
+export type SegmentContainer = 'ts' | 'fmp4' | 'aac' | 'mp3' | 'unknown';
+
+const TS_PACKET_SIZE = 188;
+const TS_SYNC_BYTE = 0x47;
+
+// PMT stream_type values we can hand to MSE
+const STREAM_TYPE_FORMATS: Record<number, AudioElementaryFormat> = {
+  0x03: 'mp3', // MPEG-1 audio
+  0x04: 'mp3', // MPEG-2 audio
+  0x0f: 'aac', // AAC in ADTS
+};
+
+/**
+ * Skip any ID3v2 tags at the start (HLS packed audio prefixes a timestamp tag)
+ */
+export const skipId3 = (data: Uint8Array): number => {
+  let offset = 0;
+  while (
+    data.length >= offset + 10 &&
+    data[offset] === 0x49 && data[offset + 1] === 0x44 && data[offset + 2] === 0x33 // "ID3"
+  ) {
+    const hasFooter = (data[offset + 5] & 0x10) !== 0;
+    // Synchsafe integer: 7 bits per byte
+    const size = (data[offset + 6] << 21) | (data[offset + 7] << 14) | (data[offset + 8] << 7) | data[offset + 9];
+    offset += 10 + size + (hasFooter ? 10 : 0);
+  }
+  return offset;
+};
+
+const isAdtsSync = (data: Uint8Array, i: number) =>
+  data[i] === 0xff && (data[i + 1] & 0xf6) === 0xf0;
+
+const isMpegAudioSync = (data: Uint8Array, i: number) =>
+  data[i] === 0xff && (data[i + 1] & 0xe0) === 0xe0 && (data[i + 1] & 0x06) !== 0;
+
+/**
+ * Identify a segment's container by sniffing its first bytes
+ */
+export const detectSegmentContainer = (data: Uint8Array): SegmentContainer => {
+  if (data.length > TS_PACKET_SIZE && data[0] === TS_SYNC_BYTE && data[TS_PACKET_SIZE] === TS_SYNC_BYTE) {
+    return 'ts';
+  }
+
+  if (data.length >= 8) {
+    const boxType = String.fromCharCode(data[4], data[5], data[6], data[7]);
+    if (['ftyp', 'styp', 'moof', 'sidx'].includes(boxType)) return 'fmp4';
+  }
+
+  const start = skipId3(data);
+  if (data.length > start + 1) {
+    if (isAdtsSync(data, start)) return 'aac';
+    if (isMpegAudioSync(data, start)) return 'mp3';
+  }
+
+  return 'unknown';
+};
+
+/**
+ * Extract the first supported audio elementary stream from an MPEG-TS segment
+ */
+export const demuxTransportStream = (data: Uint8Array): DemuxedAudio | null => {
+  let pmtPid = -1;
+  let audioPid = -1;
+  let format: AudioElementaryFormat | null = null;
+  const payloads: Uint8Array[] = [];
+
+  for (let offset = 0; offset + TS_PACKET_SIZE <= data.length; offset += TS_PACKET_SIZE) {
+    if (data[offset] !== TS_SYNC_BYTE) continue;
+
+    const payloadStart = (data[offset + 1] & 0x40) !== 0;
+    const pid = ((data[offset + 1] & 0x1f) << 8) | data[offset + 2];
+    const adaptationControl = (data[offset + 3] >> 4) & 0x03;
+
+    if (adaptationControl === 0 || adaptationControl === 2) continue; // No payload
+
+    let start = offset + 4;
+    if (adaptationControl === 3) start += 1 + data[offset + 4];
+    if (start >= offset + TS_PACKET_SIZE) continue;
+
+    const packet = data.subarray(start, offset + TS_PACKET_SIZE);
+
+    if (pid === 0 && payloadStart) {
+      pmtPid = parsePat(packet);
+    } else if (pid === pmtPid && payloadStart && audioPid === -1) {
+      const stream = parsePmt(packet);
+      if (stream) {
+        audioPid = stream.pid;
+        format = stream.format;
+      }
+    } else if (pid === audioPid) {
+      payloads.push(payloadStart ? stripPesHeader(packet) : packet);
+    }
+  }
+
+  if (!format || payloads.length === 0) return null;
+  return { format, data: concatBytes(payloads) };
+};
+
+// PAT -> PID of the first program's PMT
+const parsePat = (payload: Uint8Array): number => {
+  const table = payload.subarray(1 + payload[0]); // pointer_field
+  const sectionLength = ((table[1] & 0x0f) << 8) | table[2];
+  const end = Math.min(3 + sectionLength - 4, table.length); // minus CRC32
+
+  for (let i = 8; i + 4 <= end; i += 4) {
+    const programNumber = (table[i] << 8) | table[i + 1];
+    if (programNumber !== 0) return ((table[i + 2] & 0x1f) << 8) | table[i + 3];
+  }
+  return -1;
+};
+
+// PMT -> first audio stream we know how to feed to MSE
+const parsePmt = (payload: Uint8Array): { pid: number; format: AudioElementaryFormat } | null => {
+  const table = payload.subarray(1 + payload[0]);
+  const sectionLength = ((table[1] & 0x0f) << 8) | table[2];
+  const end = Math.min(3 + sectionLength - 4, table.length);
+  const programInfoLength = ((table[10] & 0x0f) << 8) | table[11];
+
+  for (let i = 12 + programInfoLength; i + 5 <= end;) {
+    const streamType = table[i];
+    const pid = ((table[i + 1] & 0x1f) << 8) | table[i + 2];
+    const esInfoLength = ((table[i + 3] & 0x0f) << 8) | table[i + 4];
+    const format = STREAM_TYPE_FORMATS[streamType];
+    if (format) return { pid, format };
+    i += 5 + esInfoLength;
+  }
+  return null;
+};
+
+const stripPesHeader = (packet: Uint8Array): Uint8Array => {
+  // 00 00 01 start code, stream_id, length(2), flags(2), header_data_length
+  if (packet[0] !== 0 || packet[1] !== 0 || packet[2] !== 1) return packet;
+  return packet.subarray(9 + packet[8]);
+};
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+};
@@ -0,0 +1,36 @@
+/**
+ * Web Locks for things several tabs share (IndexedDB recordings, schedules): a tab holds
+ * a named lock for as long as it owns something, and the browser lets go of it when the
+ * tab closes or crashes, so other tabs can tell what was left behind.
+ */
+
+export const supportsWebLocks = (): boolean =>
+    typeof navigator !== 'undefined' && !!navigator.locks;
+
+/**
+ * Take the lock `name`, waiting for it if another tab has it. Resolves with its release
+ * once held; null without Web Locks or when `signal` aborts the wait.
+ */
+export const holdLock = (name: string, signal?: AbortSignal): Promise<(() => void) | null> => {
+    if (!supportsWebLocks()) return Promise.resolve(null);
+    return new Promise(resolve => {
+        navigator.locks
+            .request(name, signal ? { signal } : {}, () => new Promise<void>(release => resolve(release)))
+            .catch(error => {
+                if (!signal?.aborted) console.warn('[Locks] Could not take lock:', name, error);
+                resolve(null);
+            });
+    });
+};
+
+/** Names of the locks held in any tab that start with `prefix`; null without Web Locks */
+export const findHeldLocks = async (prefix: string): Promise<Set<string> | null> => {
+    if (!supportsWebLocks()) return null;
+    try {
+        const { held = [] } = await navigator.locks.query();
+        return new Set(held.map(lock => lock.name).filter((name): name is string => !!name?.startsWith(prefix)));
+    } catch (error) {
+        console.warn('[Locks] Could not list held locks:', error);
+        return null;
+    }
+};
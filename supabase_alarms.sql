@@ -0,0 +1,5 @@
+-- Alarm clock schedules, one JSON array per user:
+-- [{ "id": "...", "time": "07:30", "days": [1,2,3,4,5], "rampSeconds": 60, "enabled": true,
+--    "source": { "kind": "station", "station": { ... } } | { "kind": "mood", "moodId": "chill", "moodName": "Chill" } }]
+-- Covered by the existing "Users can update own preferences" policy on user_preferences.
+ALTER TABLE public.user_preferences ADD COLUMN IF NOT EXISTS alarms JSONB DEFAULT '[]';
@@ -0,0 +1,6 @@
+-- Equalizer/effects settings, one JSON object per user:
+-- { "default": { "enabled": true, "preset": "bass-boost", "gains": [10 dB values, 31 Hz..16 kHz],
+--                "compressor": false, "stereoWidth": 1 },
+--   "stations": { "<stationuuid>": { ...same shape, overrides the default for that station } } }
+-- Covered by the existing "Users can update own preferences" policy on user_preferences.
+ALTER TABLE public.user_preferences ADD COLUMN IF NOT EXISTS audio_effects JSONB DEFAULT '{}';
@@ -0,0 +1,54 @@
+-- Content filter policy: admin-defined global rules + per-user overrides
+
+-- 1. Global rules (what is hidden by default, and why)
+CREATE TABLE IF NOT EXISTS public.content_filter_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind TEXT NOT NULL CHECK (kind IN ('country', 'tag')),
+  value TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  hidden_by_default BOOLEAN DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (kind, value)
+);
+
+ALTER TABLE public.content_filter_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view content filter rules" ON public.content_filter_rules;
+CREATE POLICY "Anyone can view content filter rules" ON public.content_filter_rules FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage content filter rules" ON public.content_filter_rules;
+CREATE POLICY "Admins can manage content filter rules" ON public.content_filter_rules FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_admin = TRUE)
+);
+
+-- Seed with the rules that used to be hardcoded in radioBrowserApi.ts.
+-- Only the countries were applied there; the tags are listed but shown by default
+INSERT INTO public.content_filter_rules (kind, value, reason, hidden_by_default) VALUES
+  ('country', 'RU', 'Hidden by platform policy', TRUE),
+  ('country', 'IL', 'Hidden by platform policy', TRUE),
+  ('tag', 'metal', 'Heavy music', FALSE),
+  ('tag', 'heavy metal', 'Heavy music', FALSE),
+  ('tag', 'death metal', 'Heavy music', FALSE),
+  ('tag', 'black metal', 'Heavy music', FALSE),
+  ('tag', 'thrash', 'Heavy music', FALSE),
+  ('tag', 'hardcore', 'Heavy music', FALSE),
+  ('tag', 'grindcore', 'Heavy music', FALSE),
+  ('tag', 'power metal', 'Heavy music', FALSE),
+  ('tag', 'news', 'Spoken word rather than music', FALSE),
+  ('tag', 'talk', 'Spoken word rather than music', FALSE),
+  ('tag', 'sports', 'Spoken word rather than music', FALSE),
+  ('tag', 'religious', 'Religious programming', FALSE)
+ON CONFLICT (kind, value) DO NOTHING;
+
+-- Databases seeded by an earlier version of this script hid the tags; show them again
+UPDATE public.content_filter_rules
+SET hidden_by_default = FALSE,
+    reason = CASE WHEN reason = 'Heavy music, hidden by default' THEN 'Heavy music' ELSE reason END
+WHERE kind = 'tag'
+  AND created_by IS NULL
+  AND value IN ('metal', 'heavy metal', 'death metal', 'black metal', 'thrash', 'hardcore', 'grindcore',
+                'power metal', 'news', 'talk', 'sports', 'religious');
+
+-- 2. Per-user overrides: { "show": ["tag:talk"], "hide": ["tag:country"] }
+ALTER TABLE public.user_preferences ADD COLUMN IF NOT EXISTS content_filter JSONB DEFAULT '{}';
@@ -0,0 +1,89 @@
+-- Genre taxonomy: one admin-editable genre tree (with synonyms and exclusion rules) and mood mixes
+
+CREATE TABLE IF NOT EXISTS public.genre_taxonomy (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  parent_id TEXT REFERENCES public.genre_taxonomy(id) ON DELETE SET NULL,
+  -- radio-browser tags that mean this genre
+  synonyms TEXT[] NOT NULL DEFAULT '{}',
+  -- Stations that also match one of these genre ids are dropped when browsing this genre
+  excludes TEXT[] NOT NULL DEFAULT '{}',
+  -- Offered as a first-class choice in onboarding
+  featured BOOLEAN NOT NULL DEFAULT FALSE,
+  -- lucide icon name
+  icon TEXT,
+  sort_order INT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.genre_moods (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  genres TEXT[] NOT NULL DEFAULT '{}',
+  sort_order INT NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.genre_taxonomy ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.genre_moods ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view genres" ON public.genre_taxonomy;
+CREATE POLICY "Anyone can view genres" ON public.genre_taxonomy FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage genres" ON public.genre_taxonomy;
+CREATE POLICY "Admins can manage genres" ON public.genre_taxonomy FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_admin = TRUE)
+);
+
+DROP POLICY IF EXISTS "Anyone can view moods" ON public.genre_moods;
+CREATE POLICY "Anyone can view moods" ON public.genre_moods FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage moods" ON public.genre_moods;
+CREATE POLICY "Admins can manage moods" ON public.genre_moods FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_admin = TRUE)
+);
+
+-- Seed with the built-in taxonomy (src/services/genreTaxonomy.ts). Parents first.
+INSERT INTO public.genre_taxonomy (id, name, parent_id, synonyms, excludes, featured, icon, sort_order) VALUES
+  ('rock', 'Rock', NULL, '{rock,classic rock,rock and roll}', '{}', TRUE, 'Guitar', 0),
+  ('jazz', 'Jazz', NULL, '{jazz,smooth jazz,bebop,swing}', '{}', TRUE, 'Piano', 10),
+  ('electronic', 'Electronic/Dance', NULL, '{electronic,techno,house,edm,dance,trance}', '{}', TRUE, 'Zap', 20),
+  ('hip-hop', 'Hip Hop', NULL, '{hip hop,hip-hop,hiphop,rap}', '{}', TRUE, 'Mic2', 30),
+  ('folk', 'Folk/Americana', NULL, '{folk,americana,acoustic,singer-songwriter,singer songwriter}', '{}', TRUE, 'Music', 40),
+  ('punk', 'Punk', NULL, '{punk,anarcho-punk,riot grrrl}', '{}', TRUE, 'Guitar', 50),
+  ('classical', 'Classical', NULL, '{classical,orchestra,symphony,baroque,opera}', '{}', TRUE, 'Piano', 60),
+  ('blues', 'Blues', NULL, '{blues,delta blues,chicago blues}', '{}', TRUE, 'Guitar', 70),
+  ('indie', 'Indie/Alternative', NULL, '{indie,indie rock,indie pop,alternative,alt rock,alternative rock}', '{}', TRUE, 'Disc', 80),
+  ('soul', 'Soul/R&B', NULL, '{soul,r&b,rnb,rhythm and blues,motown}', '{jazz}', TRUE, 'Heart', 90),
+  ('metal', 'Metal', NULL, '{metal,heavy metal}', '{}', TRUE, 'Drumstick', 100),
+  ('reggae', 'Reggae/Ska', NULL, '{reggae,ska,dub,dancehall}', '{}', TRUE, 'Radio', 110),
+  ('country', 'Country', NULL, '{country,bluegrass,western}', '{}', FALSE, NULL, 120),
+  ('world', 'World', NULL, '{world,world music}', '{}', FALSE, NULL, 130),
+  ('latin', 'Latin', NULL, '{latin,salsa,cumbia,reggaeton}', '{}', FALSE, NULL, 140),
+  ('pop', 'Pop', NULL, '{pop}', '{}', FALSE, NULL, 150)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.genre_taxonomy (id, name, parent_id, synonyms, excludes, featured, icon, sort_order) VALUES
+  ('hard-rock', 'Hard Rock', 'rock', '{hard rock}', '{}', FALSE, NULL, 1),
+  ('garage-rock', 'Garage Rock', 'rock', '{garage rock}', '{}', FALSE, NULL, 2),
+  ('grunge', 'Grunge', 'rock', '{grunge}', '{}', FALSE, NULL, 3),
+  ('shoegaze', 'Shoegaze', 'rock', '{shoegaze}', '{}', FALSE, NULL, 4),
+  ('noise-rock', 'Noise Rock', 'rock', '{noise rock,no wave}', '{}', FALSE, NULL, 5),
+  ('math-rock', 'Math Rock', 'rock', '{math rock}', '{}', FALSE, NULL, 6),
+  ('ambient', 'Ambient', 'electronic', '{ambient}', '{}', FALSE, NULL, 21),
+  ('chillout', 'Chillout', 'electronic', '{chillout,chill out,downtempo,lounge}', '{}', FALSE, NULL, 22),
+  ('post-punk', 'Post-Punk', 'punk', '{post-punk}', '{}', FALSE, NULL, 51),
+  ('emo', 'Emo', 'punk', '{emo,midwest emo,screamo}', '{}', FALSE, NULL, 52),
+  ('hardcore', 'Hardcore', 'punk', '{hardcore,post-hardcore}', '{}', FALSE, NULL, 53),
+  ('funk', 'Funk', 'soul', '{funk}', '{}', FALSE, NULL, 91),
+  ('disco', 'Disco', 'soul', '{disco}', '{}', FALSE, NULL, 92)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.genre_moods (id, name, genres, sort_order) VALUES
+  ('all', 'All Moods', '{rock,jazz,electronic,folk,classical,blues,indie,soul}', 0),
+  ('upbeat', 'Upbeat', '{electronic,hip-hop,rock,reggae}', 1),
+  ('dinner-party', 'Dinner Party', '{jazz,soul,classical,folk}', 2),
+  ('nostalgic-evening', 'Nostalgic', '{blues,jazz,folk,soul}', 3),
+  ('focus-work', 'Focus', '{classical,electronic,jazz}', 4),
+  ('chill-vibes', 'Chill', '{indie,folk,soul,jazz}', 5),
+  ('energetic', 'Energetic', '{rock,metal,electronic,hip-hop}', 6)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,29 @@
+-- Stream URL overrides: moderators replace broken radio-browser stream URLs without a redeploy
+
+CREATE TABLE IF NOT EXISTS public.stream_url_overrides (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Match either a radio-browser station uuid or a stream URL pattern ("*" wildcards, scheme ignored)
+  station_uuid TEXT,
+  url_pattern TEXT,
+  replacement_url TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  CHECK (station_uuid IS NOT NULL OR url_pattern IS NOT NULL)
+);
+
+ALTER TABLE public.stream_url_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view stream overrides" ON public.stream_url_overrides;
+CREATE POLICY "Anyone can view stream overrides" ON public.stream_url_overrides FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage stream overrides" ON public.stream_url_overrides;
+CREATE POLICY "Admins can manage stream overrides" ON public.stream_url_overrides FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_admin = TRUE)
+);
+
+-- The fix that used to be hardcoded in radioBrowserApi.ts
+INSERT INTO public.stream_url_overrides (url_pattern, replacement_url, reason)
+SELECT '*somafm.com/indiepop*', 'https://ice2.somafm.com/indiepop-256-mp3', 'SomaFM Indie Pop Rocks: listed mounts are unreliable'
+WHERE NOT EXISTS (SELECT 1 FROM public.stream_url_overrides WHERE url_pattern = '*somafm.com/indiepop*');
@@ -12,6 +12,8 @@ export default defineConfig(({ mode }) => ({
       '/api': {
         target: 'http://localhost:3000',
         changeOrigin: true,
+        // Lets the proxy tell clients apart (it trusts X-Forwarded-For from localhost)
+        xfwd: true,
         configure: (proxy, options) => {
           proxy.on('proxyRes', (proxyRes, req, res) => {
             res.setHeader('Access-Control-Allow-Origin', '*');